@@ -0,0 +1,16 @@
+// Removes the local JSON database, its snapshots and its audit log so the
+// next API request reseeds it from src/lib/deals-seed.json. Honours
+// DEALS_DB_FILE like the server does.
+import { rm } from "fs/promises";
+import path from "path";
+
+const dbFile =
+  process.env.DEALS_DB_FILE || path.join(process.cwd(), ".data", "db.json");
+const [snapshotsDir, auditDir] = ["snapshots", "audit"].map((suffix) =>
+  path.join(path.dirname(dbFile), `${path.basename(dbFile, ".json")}-${suffix}`)
+);
+
+await rm(dbFile, { force: true });
+await rm(snapshotsDir, { recursive: true, force: true });
+await rm(auditDir, { recursive: true, force: true });
+console.log(`Reset ${dbFile}; it will be reseeded on the next request.`);
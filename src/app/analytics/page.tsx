@@ -0,0 +1,24 @@
+import { Suspense } from "react";
+import { PipelineAnalytics } from "@/components/pipeline-analytics";
+
+export default function Analytics() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">
+            Pipeline Analytics
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Charts over the same filtered deals as the Deals table. Click a
+            chart to open the matching deals.
+          </p>
+        </div>
+        {/* The filters are read from the URL search params */}
+        <Suspense>
+          <PipelineAnalytics />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { analyzeDeals } from "@/lib/deal-analytics";
+import {
+  filterByArchive,
+  filterDeals,
+  parseDealsQuery,
+} from "@/lib/deals-query";
+import { listDeals } from "@/lib/server/deals-repository";
+
+export const dynamic = "force-dynamic";
+
+// Pipeline analytics over the active deals matching the same q= and filter=
+// params as GET /api/deals
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { filters } = parseDealsQuery(searchParams);
+  const deals = filterDeals(filterByArchive(await listDeals(), false), filters);
+  return NextResponse.json(analyzeDeals(deals));
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { listDealHistory } from "@/lib/server/audit-repository";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { id: string } };
+
+// Audit entries for one deal, newest first. Deleted deals keep their history.
+export async function GET(_request: Request, { params }: RouteContext) {
+  return NextResponse.json({ entries: await listDealHistory(params.id) });
+}
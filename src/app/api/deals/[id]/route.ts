@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { dealPatchSchema, describeIssues } from "@/lib/deals";
+import {
+  deleteDeals,
+  getDeal,
+  updateDeals,
+} from "@/lib/server/deals-repository";
+import { getChangeContext } from "@/lib/server/request-user";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { id: string } };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Deal ${id} not found` }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const deal = await getDeal(params.id);
+  if (!deal) return notFound(params.id);
+  return NextResponse.json({ deal });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const body = await request.json().catch(() => null);
+  const result = dealPatchSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const [deal] = await updateDeals(
+    [params.id],
+    result.data,
+    getChangeContext(request)
+  );
+  if (!deal) return notFound(params.id);
+  return NextResponse.json({ deal });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const [deleted] = await deleteDeals([params.id], getChangeContext(request));
+  if (!deleted) return notFound(params.id);
+  return NextResponse.json({ deleted: [deleted] });
+}
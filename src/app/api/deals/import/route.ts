@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { describeIssues } from "@/lib/deals";
+import { importRequestSchema } from "@/lib/deals-import";
+import { importDeals } from "@/lib/server/deals-repository";
+import { getChangeContext } from "@/lib/server/request-user";
+
+export const dynamic = "force-dynamic";
+
+// Import: { mode, key, rows }. Saves every row or, when any can't be saved,
+// none of them.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const result = importRequestSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const outcome = await importDeals(result.data, getChangeContext(request));
+  if ("errors" in outcome) {
+    return NextResponse.json(
+      { error: outcome.errors.join("; ") },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json(outcome);
+}
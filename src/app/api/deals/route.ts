@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  dealInputSchema,
+  dealPatchSchema,
+  dealSchema,
+  describeIssues,
+} from "@/lib/deals";
+import { parseDealsQuery, queryDeals } from "@/lib/deals-query";
+import {
+  createDeal,
+  deleteDeals,
+  listDeals,
+  updateDeals,
+  upsertDeals,
+} from "@/lib/server/deals-repository";
+import { getChangeContext } from "@/lib/server/request-user";
+
+export const dynamic = "force-dynamic";
+
+const bulkUpdateSchema = z.object({
+  ids: z.array(z.string()),
+  changes: dealPatchSchema,
+});
+
+const upsertSchema = z.object({
+  deals: z.array(dealSchema),
+});
+
+const bulkDeleteSchema = z.object({
+  ids: z.array(z.string()),
+});
+
+function invalid(error: z.ZodError) {
+  return NextResponse.json({ error: describeIssues(error) }, { status: 400 });
+}
+
+// Filters, sorts and paginates on the server; see toSearchParams for the format
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const deals = await listDeals();
+  return NextResponse.json(queryDeals(deals, parseDealsQuery(searchParams)));
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const result = dealInputSchema.safeParse(body);
+  if (!result.success) return invalid(result.error);
+  const deal = await createDeal(result.data, getChangeContext(request));
+  return NextResponse.json({ deal }, { status: 201 });
+}
+
+// Upsert by id: { deals: Deal[] }
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const result = upsertSchema.safeParse(body);
+  if (!result.success) return invalid(result.error);
+  const deals = await upsertDeals(
+    result.data.deals,
+    getChangeContext(request)
+  );
+  return NextResponse.json({ deals });
+}
+
+// Bulk update: { ids: string[], changes: DealPatch }
+export async function PATCH(request: Request) {
+  const body = await request.json().catch(() => null);
+  const result = bulkUpdateSchema.safeParse(body);
+  if (!result.success) return invalid(result.error);
+  const deals = await updateDeals(
+    result.data.ids,
+    result.data.changes,
+    getChangeContext(request)
+  );
+  return NextResponse.json({ deals });
+}
+
+// Bulk delete: { ids: string[] }
+export async function DELETE(request: Request) {
+  const body = await request.json().catch(() => null);
+  const result = bulkDeleteSchema.safeParse(body);
+  if (!result.success) return invalid(result.error);
+  const deleted = await deleteDeals(
+    result.data.ids,
+    getChangeContext(request)
+  );
+  return NextResponse.json({ deleted });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { describeIssues } from "@/lib/deals";
+import { stageProbabilitiesSchema } from "@/lib/forecast";
+import {
+  getStageProbabilities,
+  setStageProbabilities,
+} from "@/lib/server/deals-repository";
+import { getChangeContext } from "@/lib/server/request-user";
+
+export const dynamic = "force-dynamic";
+
+const forecastSettingsSchema = z.object({
+  probabilities: stageProbabilitiesSchema,
+});
+
+// Win probability per stage: { probabilities }
+export async function GET() {
+  return NextResponse.json({ probabilities: await getStageProbabilities() });
+}
+
+// Replaces the probabilities and recomputes every forecast not set by hand
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const result = forecastSettingsSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const probabilities = await setStageProbabilities(
+    result.data.probabilities,
+    getChangeContext(request).actor
+  );
+  return NextResponse.json({ probabilities });
+}
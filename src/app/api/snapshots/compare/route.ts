@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getSnapshotComparison } from "@/lib/server/snapshots-repository";
+
+export const dynamic = "force-dynamic";
+
+// What changed between two snapshots: ?from=<id>&to=<id>, where either id
+// may be "current" for the deals as they are now
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: "Both from and to snapshot ids are required" },
+      { status: 400 }
+    );
+  }
+  const comparison = await getSnapshotComparison(from, to);
+  if ("missing" in comparison) {
+    return NextResponse.json(
+      { error: `Snapshot ${comparison.missing} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ comparison });
+}
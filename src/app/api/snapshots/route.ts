@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { describeIssues } from "@/lib/deals";
+import { snapshotInputSchema } from "@/lib/snapshots";
+import {
+  createSnapshot,
+  listSnapshots,
+} from "@/lib/server/snapshots-repository";
+
+export const dynamic = "force-dynamic";
+
+// Snapshot summaries, newest first: { snapshots }
+export async function GET() {
+  return NextResponse.json({ snapshots: await listSnapshots() });
+}
+
+// Takes a snapshot now: { label? }
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const result = snapshotInputSchema.safeParse(body ?? {});
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const snapshot = await createSnapshot(result.data);
+  return NextResponse.json({ snapshot }, { status: 201 });
+}
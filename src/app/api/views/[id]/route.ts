@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { describeIssues } from "@/lib/deals";
+import { savedViewPatchSchema } from "@/lib/views";
+import { getRequestUserId, missingUser } from "@/lib/server/request-user";
+import {
+  deleteView,
+  getView,
+  updateView,
+} from "@/lib/server/views-repository";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { id: string } };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `View ${id} not found` }, { status: 404 });
+}
+
+function forbidden() {
+  return NextResponse.json(
+    { error: "Only the owner can change this view" },
+    { status: 403 }
+  );
+}
+
+// Open to anyone with the id, so views can be shared by link
+export async function GET(_request: Request, { params }: RouteContext) {
+  const view = await getView(params.id);
+  if (!view) return notFound(params.id);
+  return NextResponse.json({ view });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const userId = getRequestUserId(request);
+  if (!userId) return missingUser();
+  const body = await request.json().catch(() => null);
+  const result = savedViewPatchSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const view = await updateView(params.id, userId, result.data);
+  if (!view) return notFound(params.id);
+  if (view === "forbidden") return forbidden();
+  return NextResponse.json({ view });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const userId = getRequestUserId(request);
+  if (!userId) return missingUser();
+  const deleted = await deleteView(params.id, userId);
+  if (!deleted) return notFound(params.id);
+  if (deleted === "forbidden") return forbidden();
+  return NextResponse.json({ deleted: [params.id] });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { describeIssues } from "@/lib/deals";
+import { getRequestUserId, missingUser } from "@/lib/server/request-user";
+import { getView, setDefaultView } from "@/lib/server/views-repository";
+
+export const dynamic = "force-dynamic";
+
+const defaultViewSchema = z.object({
+  viewId: z.string().min(1).nullable(),
+});
+
+// Sets the caller's default view: { viewId: string | null }
+export async function PUT(request: Request) {
+  const userId = getRequestUserId(request);
+  if (!userId) return missingUser();
+  const body = await request.json().catch(() => null);
+  const result = defaultViewSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const { viewId } = result.data;
+  if (viewId && !(await getView(viewId))) {
+    return NextResponse.json(
+      { error: `View ${viewId} not found` },
+      { status: 404 }
+    );
+  }
+  const defaultViewId = await setDefaultView(userId, viewId);
+  return NextResponse.json({ defaultViewId });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { describeIssues } from "@/lib/deals";
+import { savedViewInputSchema } from "@/lib/views";
+import { getRequestUserId, missingUser } from "@/lib/server/request-user";
+import { createView, listViews } from "@/lib/server/views-repository";
+
+export const dynamic = "force-dynamic";
+
+// Team views plus the caller's personal views: { views, defaultViewId }
+export async function GET(request: Request) {
+  const userId = getRequestUserId(request);
+  if (!userId) return missingUser();
+  return NextResponse.json(await listViews(userId));
+}
+
+export async function POST(request: Request) {
+  const userId = getRequestUserId(request);
+  if (!userId) return missingUser();
+  const body = await request.json().catch(() => null);
+  const result = savedViewInputSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const view = await createView(userId, result.data);
+  return NextResponse.json({ view }, { status: 201 });
+}
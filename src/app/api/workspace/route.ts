@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { describeIssues } from "@/lib/deals";
+import { migrateBackup, restoreModeSchema } from "@/lib/workspace-backup";
+import {
+  getChangeContext,
+  getRequestUserId,
+  missingUser,
+} from "@/lib/server/request-user";
+import {
+  getWorkspace,
+  restoreWorkspace,
+} from "@/lib/server/workspace-repository";
+
+export const dynamic = "force-dynamic";
+
+const restoreSchema = z.object({
+  mode: restoreModeSchema,
+  // Any backup version; older ones are migrated
+  backup: z.unknown(),
+});
+
+// The server's part of a workspace backup
+export async function GET(request: Request) {
+  const userId = getRequestUserId(request);
+  if (!userId) return missingUser();
+  return NextResponse.json({ workspace: await getWorkspace(userId) });
+}
+
+// Restore: { mode: "merge" | "replace", backup }
+export async function PUT(request: Request) {
+  if (!getRequestUserId(request)) return missingUser();
+  const body = await request.json().catch(() => null);
+  const result = restoreSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: describeIssues(result.error) },
+      { status: 400 }
+    );
+  }
+  const migrated = migrateBackup(result.data.backup);
+  if ("error" in migrated) {
+    return NextResponse.json({ error: migrated.error }, { status: 400 });
+  }
+  const restored = await restoreWorkspace(
+    migrated.backup,
+    result.data.mode,
+    getChangeContext(request)
+  );
+  return NextResponse.json({ restored });
+}
@@ -0,0 +1,23 @@
+import { Suspense } from "react";
+import { DealsTable } from "@/components/deals-table";
+
+export default function ArchivedDeals() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">
+            Archived Deals
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Restore archived deals to the pipeline or delete them permanently
+          </p>
+        </div>
+        {/* The table reads its state from the URL search params */}
+        <Suspense>
+          <DealsTable archived />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
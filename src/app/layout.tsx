@@ -7,6 +7,7 @@ import {
 } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/navigation/app-sidebar";
 import { AppBar } from "@/components/navigation/appbar";
+import { Toaster } from "@/components/ui/sonner";
 
 // Geist fonts are now imported directly from geist/font
 
@@ -45,6 +46,7 @@ export default function RootLayout({
             </div>
           </SidebarInset>
         </SidebarProvider>
+        <Toaster />
       </body>
     </html>
   );
@@ -1,3 +1,4 @@
+import { Suspense } from "react";
 import { DealsTable } from "@/components/deals-table";
 
 export default function Home() {
@@ -13,7 +14,10 @@ export default function Home() {
             interactions
           </p>
         </div>
-        <DealsTable />
+        {/* The table reads its state from the URL search params */}
+        <Suspense>
+          <DealsTable />
+        </Suspense>
       </div>
     </div>
   );
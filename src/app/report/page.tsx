@@ -0,0 +1,15 @@
+import { Suspense } from "react";
+import { PipelineReport } from "@/components/pipeline-report";
+
+export default function Report() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-8 print:max-w-none print:p-0">
+        {/* The filters are read from the URL search params */}
+        <Suspense>
+          <PipelineReport />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
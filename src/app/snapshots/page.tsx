@@ -0,0 +1,19 @@
+import { PipelineSnapshots } from "@/components/pipeline-snapshots";
+
+export default function Snapshots() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">
+            Pipeline Snapshots
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            See what changed in the pipeline between two points in time
+          </p>
+        </div>
+        <PipelineSnapshots />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { BackupRestore } from "@/components/workspace-backup";
+
+export default function Workspace() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">
+            Backup &amp; Restore
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Save the whole workspace to a file, or bring one back
+          </p>
+        </div>
+        <BackupRestore />
+      </div>
+    </div>
+  );
+}
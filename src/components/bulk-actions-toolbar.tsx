@@ -9,16 +9,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Trash2, Mail, Archive, X } from "lucide-react";
+import { Trash2, Mail, Archive, ArchiveRestore, X } from "lucide-react";
 
 interface BulkActionsToolbarProps {
   selectedCount: number;
+  // Offer restore instead of archive when the selection is already archived
+  archived?: boolean;
   onClearSelection: () => void;
   onBulkAction: (action: string, value?: string) => void;
 }
 
 export function BulkActionsToolbar({
   selectedCount,
+  archived = false,
   onClearSelection,
   onBulkAction,
 }: BulkActionsToolbarProps) {
@@ -50,18 +53,29 @@ export function BulkActionsToolbar({
               onClick={() => onBulkAction("delete")}
             >
               <Trash2 className="h-3 w-3 mr-1" />
-              Delete
+              {archived ? "Delete permanently" : "Delete"}
             </Button>
 
-            <Button
-              variant="ghost"
-              size="sm"
-              // className="h-8 px-3 text-primary-foreground hover:bg-primary-foreground/20"
-              onClick={() => onBulkAction("archive")}
-            >
-              <Archive className="h-3 w-3 mr-1" />
-              Archive
-            </Button>
+            {archived ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onBulkAction("restore")}
+              >
+                <ArchiveRestore className="h-3 w-3 mr-1" />
+                Restore
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                // className="h-8 px-3 text-primary-foreground hover:bg-primary-foreground/20"
+                onClick={() => onBulkAction("archive")}
+              >
+                <Archive className="h-3 w-3 mr-1" />
+                Archive
+              </Button>
+            )}
 
             <Select
               onValueChange={(value) => onBulkAction("changeStage", value)}
@@ -6,29 +6,28 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { X, Plus } from "lucide-react"
+import type { Contact } from "@/lib/deals"
 
 interface ContactListProps {
-  value: string
-  onChange: (value: string) => void
+  value: Contact[]
+  onChange: (value: Contact[]) => void
 }
 
 export function ContactList({ value, onChange }: ContactListProps) {
   const [open, setOpen] = useState(false)
   const [newContact, setNewContact] = useState("")
 
-  const contacts = value ? value.split(", ").filter(Boolean) : []
+  const contacts = value || []
 
   const addContact = () => {
     if (newContact.trim()) {
-      const updatedContacts = [...contacts, newContact.trim()]
-      onChange(updatedContacts.join(", "))
+      onChange([...contacts, { name: newContact.trim() }])
       setNewContact("")
     }
   }
 
   const removeContact = (index: number) => {
-    const updatedContacts = contacts.filter((_, i) => i !== index)
-    onChange(updatedContacts.join(", "))
+    onChange(contacts.filter((_, i) => i !== index))
   }
 
   return (
@@ -39,7 +38,7 @@ export function ContactList({ value, onChange }: ContactListProps) {
             {contacts.length > 0 ? (
               <>
                 <Badge variant="outline" className="text-xs">
-                  {contacts[0]}
+                  {contacts[0].name}
                 </Badge>
                 {contacts.length > 1 && <span className="text-xs text-muted-foreground">+{contacts.length - 1}</span>}
               </>
@@ -68,7 +67,9 @@ export function ContactList({ value, onChange }: ContactListProps) {
           <div className="space-y-1 max-h-32 overflow-y-auto">
             {contacts.map((contact, index) => (
               <div key={index} className="flex items-center justify-between bg-muted/50 rounded px-2 py-1">
-                <span className="text-xs truncate">{contact}</span>
+                <span className="text-xs truncate" title={contact.email}>
+                  {contact.name}
+                </span>
                 <Button
                   size="sm"
                   variant="ghost"
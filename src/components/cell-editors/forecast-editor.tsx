@@ -0,0 +1,39 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { RotateCcw } from "lucide-react"
+import { formatMoney, type Deal } from "@/lib/deals"
+import { InlineEditor } from "./inline-editor"
+
+interface ForecastEditorProps {
+  deal: Deal
+  // Win probability of the deal's stage, as a percentage
+  probability: number
+  onChange: (text: string) => void
+  // Goes back to the stage-weighted forecast
+  onReset: () => void
+}
+
+export function ForecastEditor({ deal, probability, onChange, onReset }: ForecastEditorProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <InlineEditor value={formatMoney(deal.forecastValue)} onChange={(value) => onChange(String(value))} />
+      {deal.forecastOverride ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-5 shrink-0 gap-1 px-1.5 text-[10px] text-amber-600"
+          title={`Set by hand. Reset to ${probability}% of the deal value`}
+          onClick={onReset}
+        >
+          Manual
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      ) : (
+        <span className="shrink-0 text-xs text-muted-foreground" title="Weighted by stage probability">
+          {probability}%
+        </span>
+      )}
+    </div>
+  )
+}
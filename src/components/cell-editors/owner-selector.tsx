@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Check } from "lucide-react"
 
-const OWNERS = [
+export const OWNERS = [
   { id: "alex-chen", name: "Alex Chen", initials: "AC" },
   { id: "sam-wilson", name: "Sam Wilson", initials: "SW" },
   { id: "emma-brown", name: "Emma Brown", initials: "EB" },
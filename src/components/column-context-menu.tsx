@@ -20,6 +20,7 @@ interface ColumnContextMenuProps {
   columnLabel: string
   canSort?: boolean
   canHide?: boolean
+  canFilter?: boolean
   canPin?: boolean
   isPinned?: boolean
   onAction: (action: string, columnId: string, value?: string) => void
@@ -31,6 +32,7 @@ export function ColumnContextMenu({
   columnLabel,
   canSort = true,
   canHide = true,
+  canFilter = true,
   canPin = false,
   isPinned = false,
   onAction,
@@ -53,12 +55,15 @@ export function ColumnContextMenu({
           </>
         )}
 
-        <ContextMenuItem onClick={() => onAction("filter", columnId)}>
-          <Filter className="mr-2 h-4 w-4" />
-          Filter by {columnLabel}
-        </ContextMenuItem>
-
-        <ContextMenuSeparator />
+        {canFilter && (
+          <>
+            <ContextMenuItem onClick={() => onAction("filter", columnId)}>
+              <Filter className="mr-2 h-4 w-4" />
+              Filter by {columnLabel}
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+          </>
+        )}
 
         <ContextMenuSub>
           <ContextMenuSubTrigger>
@@ -68,21 +73,24 @@ export function ColumnContextMenu({
           <ContextMenuSubContent className="w-48">
             <ContextMenuItem onClick={() => onAction("resize", columnId, "auto")}>Auto-size Column</ContextMenuItem>
             <ContextMenuItem onClick={() => onAction("resize", columnId, "fit")}>Fit to Content</ContextMenuItem>
-            {canPin && (
-              <ContextMenuItem onClick={() => onAction("pin", columnId)}>
-                {isPinned ? (
-                  <>
-                    <PinOff className="mr-2 h-4 w-4" />
-                    Unpin Column
-                  </>
-                ) : (
-                  <>
+            {canPin &&
+              (isPinned ? (
+                <ContextMenuItem onClick={() => onAction("pin", columnId, "none")}>
+                  <PinOff className="mr-2 h-4 w-4" />
+                  Unpin Column
+                </ContextMenuItem>
+              ) : (
+                <>
+                  <ContextMenuItem onClick={() => onAction("pin", columnId, "left")}>
+                    <Pin className="mr-2 h-4 w-4" />
+                    Pin to Left
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={() => onAction("pin", columnId, "right")}>
                     <Pin className="mr-2 h-4 w-4" />
-                    Pin Column
-                  </>
-                )}
-              </ContextMenuItem>
-            )}
+                    Pin to Right
+                  </ContextMenuItem>
+                </>
+              ))}
           </ContextMenuSubContent>
         </ContextMenuSub>
 
@@ -0,0 +1,251 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Filter } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  FILTER_FIELDS,
+  getColumnFilterKind,
+  getFieldOptions,
+  type FilterField,
+  type FilterValue,
+} from "@/lib/deal-filters";
+
+// Lists longer than this get a box to narrow them down
+const SEARCHABLE_OPTION_COUNT = 8;
+
+interface ColumnFilterPopoverProps {
+  field: FilterField;
+  // Operand of the column's current filter, if it has one
+  value: FilterValue | undefined;
+  // Matching deals per value, for checklist columns
+  counts?: Record<string, number>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null clears the column's filter
+  onChange: (value: FilterValue | null) => void;
+}
+
+export function ColumnFilterPopover({
+  field,
+  value,
+  counts,
+  open,
+  onOpenChange,
+  onChange,
+}: ColumnFilterPopoverProps) {
+  const kind = getColumnFilterKind(field);
+  if (!kind) return null;
+  const label = FILTER_FIELDS[field].label;
+  const isActive = value !== undefined;
+
+  return (
+    // Keep clicks in the popover (which React bubbles through the portal)
+    // from reaching the header, where they would toggle the sort
+    <span onClick={(e) => e.stopPropagation()}>
+      <Popover open={open} onOpenChange={onOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "h-6 w-6 p-0",
+              isActive
+                ? "text-primary"
+                : "text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+              open && "opacity-100"
+            )}
+            aria-label={isActive ? `${label} filter (active)` : `Filter by ${label}`}
+          >
+            <Filter className={cn("h-3.5 w-3.5", isActive && "fill-current")} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-64 p-3"
+          align="start"
+          // Opened from the header's context menu, focus moves back out as
+          // the menu closes; only a click outside should close the popover
+          onFocusOutside={(e) => e.preventDefault()}
+        >
+          <div className="mb-2 flex items-center justify-between">
+            <h4 className="text-sm font-medium">Filter by {label}</h4>
+            {isActive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => onChange(null)}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+          {kind === "values" ? (
+            <ValueChecklist
+              field={field}
+              value={value}
+              counts={counts || {}}
+              onChange={onChange}
+            />
+          ) : (
+            <RangeInputs
+              field={field}
+              value={value}
+              onChange={(range) => {
+                onChange(range);
+                onOpenChange(false);
+              }}
+            />
+          )}
+        </PopoverContent>
+      </Popover>
+    </span>
+  );
+}
+
+function ValueChecklist({
+  field,
+  value,
+  counts,
+  onChange,
+}: {
+  field: FilterField;
+  value: FilterValue | undefined;
+  counts: Record<string, number>;
+  onChange: (value: FilterValue | null) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const selected = useMemo(
+    () => (Array.isArray(value) ? value.map(String) : []),
+    [value]
+  );
+
+  // Known values in their usual order, then whatever else the deals use
+  const options = useMemo(() => {
+    const known = getFieldOptions(field) || [];
+    const others = [...Object.keys(counts), ...selected]
+      .filter((option) => option !== "" && !known.includes(option))
+      .sort((a, b) => a.localeCompare(b));
+    return Array.from(new Set([...known, ...others]));
+  }, [field, counts, selected]);
+
+  const visibleOptions = options.filter((option) =>
+    option.toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  const toggle = (option: string) => {
+    const next = selected.includes(option)
+      ? selected.filter((item) => item !== option)
+      : [...selected, option];
+    onChange(next.length > 0 ? next : null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {options.length > SEARCHABLE_OPTION_COUNT && (
+        <Input
+          className="h-8"
+          placeholder="Search values..."
+          aria-label="Search values"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      )}
+      <div className="max-h-64 space-y-1 overflow-y-auto">
+        {visibleOptions.map((option) => (
+          <label
+            key={option}
+            className="flex cursor-pointer items-center gap-2 rounded px-1 py-1 text-sm hover:bg-muted"
+          >
+            <Checkbox
+              checked={selected.includes(option)}
+              onCheckedChange={() => toggle(option)}
+            />
+            <span className="flex-1 truncate">{option}</span>
+            <span className="text-xs tabular-nums text-muted-foreground">
+              {counts[option] || 0}
+            </span>
+          </label>
+        ))}
+        {visibleOptions.length === 0 && (
+          <p className="px-1 py-1 text-sm text-muted-foreground">No values</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function RangeInputs({
+  field,
+  value,
+  onChange,
+}: {
+  field: FilterField;
+  value: FilterValue | undefined;
+  onChange: (value: FilterValue | null) => void;
+}) {
+  const isNumber = FILTER_FIELDS[field].type === "number";
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    const [currentFrom, currentTo] = Array.isArray(value)
+      ? value.map(String)
+      : ["", ""];
+    setFrom(currentFrom);
+    setTo(currentTo);
+  }, [value]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const bounds = [from.trim(), to.trim()];
+    if (bounds.every((bound) => bound === "")) {
+      onChange(null);
+    } else if (
+      isNumber &&
+      bounds.every((bound) => bound !== "" && Number.isFinite(Number(bound)))
+    ) {
+      onChange([Number(bounds[0]), Number(bounds[1])]);
+    } else {
+      // A blank bound leaves that end of the range open
+      onChange([bounds[0], bounds[1]]);
+    }
+  };
+
+  return (
+    <form onSubmit={handleApply} className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>{isNumber ? "Min" : "From"}</span>
+          <Input
+            type={isNumber ? "number" : "date"}
+            className="h-8"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>{isNumber ? "Max" : "To"}</span>
+          <Input
+            type={isNumber ? "number" : "date"}
+            className="h-8"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </label>
+      </div>
+      <Button type="submit" size="sm" className="w-full">
+        Apply
+      </Button>
+    </form>
+  );
+}
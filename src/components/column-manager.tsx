@@ -18,6 +18,7 @@ interface ColumnConfig {
   visible: boolean
   locked?: boolean
   width?: number
+  pinned?: "left" | "right"
 }
 
 interface ColumnManagerProps {
@@ -16,20 +16,8 @@ import { useState, useMemo } from "react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Info } from "lucide-react";
 import Templates from "./templates";
-
-// Mock data type
-type Deal = {
-  id: string;
-  deal: string;
-  activitiesTimeline: string;
-  stage: string;
-  dealValue: number;
-  contacts: string;
-  owner: string;
-  accounts: string;
-  expectedClose: string;
-  forecastValue: number;
-};
+import { dealSchema, formatDealField, type Deal } from "@/lib/deals";
+import seedDeals from "@/lib/deals-seed.json";
 
 // Template type
 type Template = {
@@ -51,68 +39,7 @@ const COLUMN_WIDTHS = {
 } as const;
 
 // Mock data
-const mockData: Deal[] = [
-  {
-    id: "1",
-    deal: "Enterprise Software License",
-    activitiesTimeline: "",
-    stage: "Proposal",
-    dealValue: 125000,
-    contacts: "John Smith, Mary Johnson",
-    owner: "Alex Chen",
-    accounts: "TechCorp Inc. - Enterprise",
-    expectedClose: "2024-03-15",
-    forecastValue: 112500,
-  },
-  {
-    id: "2",
-    deal: "Cloud Migration Project",
-    activitiesTimeline: "",
-    stage: "Negotiation",
-    dealValue: 85000,
-    contacts: "Sarah Johnson, Mike Davis, Lisa Wong",
-    owner: "Sam Wilson",
-    accounts: "DataFlow Systems - Mid-Market",
-    expectedClose: "2024-02-28",
-    forecastValue: 76500,
-  },
-  {
-    id: "3",
-    deal: "Marketing Automation Setup",
-    activitiesTimeline: "",
-    stage: "Proposal",
-    dealValue: 45000,
-    contacts: "Mike Davis, Jennifer Lee",
-    owner: "Emma Brown",
-    accounts: "GrowthCo - Small Business",
-    expectedClose: "2024-02-15",
-    forecastValue: 40500,
-  },
-  {
-    id: "4",
-    deal: "Security Audit & Compliance",
-    activitiesTimeline: "",
-    stage: "Closed Won",
-    dealValue: 95000,
-    contacts: "Lisa Chen, Robert Kim, David Park",
-    owner: "James Liu",
-    accounts: "SecureBank - Financial Services",
-    expectedClose: "2024-01-30",
-    forecastValue: 95000,
-  },
-  {
-    id: "5",
-    deal: "Custom Dashboard Development",
-    activitiesTimeline: "",
-    stage: "Discovery",
-    dealValue: 65000,
-    contacts: "Tom Wilson, Anna Martinez",
-    owner: "Chris Taylor",
-    accounts: "Analytics Pro - Technology",
-    expectedClose: "2024-03-30",
-    forecastValue: 58500,
-  },
-];
+const mockData: Deal[] = dealSchema.array().parse(seedDeals);
 
 // Available templates
 const availableTemplates: Template[] = [
@@ -224,22 +151,10 @@ export function DealsTable() {
           />
         ),
         cell: ({ row }: { row: Row<Deal> }) => {
-          const value = row.getValue(templateId) as string | number;
-          if (templateId === "dealValue" || templateId === "forecastValue") {
-            const amount = Number.parseFloat(String(value));
-            const formatted = new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "USD",
-            }).format(amount);
-            return (
-              <div className="truncate" title={formatted}>
-                {formatted}
-              </div>
-            );
-          }
+          const value = formatDealField(row.original, templateId);
           return (
-            <div className="truncate" title={String(value)}>
-              {String(value)}
+            <div className="truncate" title={value}>
+              {value}
             </div>
           );
         },
@@ -0,0 +1,89 @@
+"use client";
+
+import type React from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  AUDIT_SOURCES,
+  formatAuditField,
+  formatAuditValue,
+  type AuditEntry,
+} from "@/lib/audit";
+import { getCurrentUserId } from "@/lib/current-user";
+import type { Deal } from "@/lib/deals";
+import { useDealHistory } from "@/hooks/use-deal-history";
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// Users only have anonymous ids for now, so anyone else is shown by a short
+// prefix of theirs
+function formatActor(actor: string): string {
+  if (actor === getCurrentUserId()) return "You";
+  if (actor === "anonymous") return "Unknown user";
+  return `User ${actor.slice(0, 8)}`;
+}
+
+function describeEntry(entry: AuditEntry): React.ReactNode {
+  if (entry.action === "created") return "Created the deal";
+  if (entry.action === "deleted") return "Deleted the deal";
+  if (!entry.field) return "Changed the deal";
+  return (
+    <>
+      Changed{" "}
+      <span className="font-medium">{formatAuditField(entry.field)}</span> from{" "}
+      <span className="text-muted-foreground line-through">
+        {formatAuditValue(entry.field, entry.oldValue)}
+      </span>{" "}
+      to{" "}
+      <span className="font-medium">
+        {formatAuditValue(entry.field, entry.newValue)}
+      </span>
+    </>
+  );
+}
+
+export function DealHistory({ deal }: { deal: Deal }) {
+  const { entries, isLoading, error } = useDealHistory(deal);
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive" role="alert">
+        {error}
+      </p>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {isLoading ? "Loading history..." : "No changes recorded yet"}
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-2">
+      {entries.map((entry) => (
+        <li
+          key={entry.id}
+          className="flex items-center justify-between gap-4 p-2 bg-background rounded border"
+        >
+          <span className="text-sm">{describeEntry(entry)}</span>
+          <div className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline" className="text-xs">
+              {AUDIT_SOURCES[entry.source]}
+            </Badge>
+            <span>{formatActor(entry.actor)}</span>
+            <time dateTime={entry.timestamp}>
+              {formatTimestamp(entry.timestamp)}
+            </time>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
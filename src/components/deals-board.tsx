@@ -0,0 +1,219 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Calendar } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatMoney,
+  formatTotal,
+  isStage,
+  STAGES,
+  type CurrencyCode,
+  type Deal,
+  type Stage,
+} from "@/lib/deals";
+import type { DealGroupSummary } from "@/lib/deal-groups";
+import { StatusChip } from "./status-chips";
+
+// Cards loaded per lane; the lane totals still cover every matching deal
+export const BOARD_LANE_SIZE = 100;
+
+interface DealsBoardProps {
+  // The first BOARD_LANE_SIZE deals of each stage matching the current
+  // filters and search, in sort order
+  deals: Deal[];
+  // Count and value of every matching deal per stage, from the server's
+  // summary grouped by stage, so lane totals cover deals that weren't loaded
+  stageTotals: DealGroupSummary[];
+  // Shared by every matching deal, or null when they mix
+  currency: CurrencyCode | null;
+  onStageChange: (deal: Deal, stage: Stage) => void;
+}
+
+export function DealsBoard({
+  deals,
+  stageTotals,
+  currency,
+  onStageChange,
+}: DealsBoardProps) {
+  const sensors = useSensors(
+    // A short drag threshold leaves clicks on a card alone
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+  const [activeDeal, setActiveDeal] = useState<Deal | null>(null);
+
+  const lanes = useMemo(
+    () =>
+      STAGES.map((stage) => {
+        const totals = stageTotals.find((group) => group.path[0] === stage);
+        return {
+          stage,
+          deals: deals.filter((deal) => deal.stage === stage),
+          count: totals?.count ?? 0,
+          value: totals?.dealValue ?? 0,
+        };
+      }),
+    [deals, stageTotals]
+  );
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveDeal(deals.find((deal) => deal.id === event.active.id) || null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveDeal(null);
+    const deal = deals.find((row) => row.id === event.active.id);
+    const stage = event.over ? String(event.over.id) : "";
+    if (deal && isStage(stage) && deal.stage !== stage) {
+      onStageChange(deal, stage);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <DndContext
+        sensors={sensors}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setActiveDeal(null)}
+      >
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {lanes.map((lane) => (
+            <BoardLane key={lane.stage} {...lane} currency={currency} />
+          ))}
+        </div>
+        <DragOverlay>
+          {activeDeal && <DealCard deal={activeDeal} isOverlay />}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  );
+}
+
+function BoardLane({
+  stage,
+  deals,
+  count,
+  value,
+  currency,
+}: {
+  stage: Stage;
+  // The loaded deals in this stage
+  deals: Deal[];
+  // Totals over every matching deal in this stage
+  count: number;
+  value: number;
+  currency: CurrencyCode | null;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: stage });
+
+  return (
+    <section
+      ref={setNodeRef}
+      aria-label={`${stage} lane`}
+      className={cn(
+        "flex w-72 shrink-0 flex-col rounded-md border bg-muted/30",
+        isOver && "border-primary bg-primary/5"
+      )}
+    >
+      <header className="flex items-center justify-between gap-2 border-b p-3">
+        <StatusChip status={stage} />
+        <div className="text-right text-xs text-muted-foreground">
+          <div>
+            {count} {count === 1 ? "deal" : "deals"}
+          </div>
+          <div className="font-medium text-foreground">
+            {formatTotal(value, currency)}
+          </div>
+        </div>
+      </header>
+      <div className="flex min-h-24 flex-1 flex-col gap-2 p-2">
+        {deals.map((deal) => (
+          <DraggableDealCard key={deal.id} deal={deal} />
+        ))}
+        {deals.length === 0 && (
+          <p className="py-6 text-center text-xs text-muted-foreground">
+            No deals
+          </p>
+        )}
+        {deals.length > 0 && count > deals.length && (
+          <p className="py-2 text-center text-xs text-muted-foreground">
+            Showing the first {deals.length} of {count}. Narrow the filters to
+            see the rest.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function DraggableDealCard({ deal }: { deal: Deal }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: deal.id,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      aria-label={`${deal.deal}, ${deal.stage}`}
+      className={cn("cursor-grab", isDragging && "opacity-40")}
+    >
+      <DealCard deal={deal} />
+    </div>
+  );
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase())
+    .slice(0, 2)
+    .join("");
+}
+
+function DealCard({ deal, isOverlay = false }: { deal: Deal; isOverlay?: boolean }) {
+  return (
+    <div
+      className={cn(
+        "space-y-2 rounded-md border bg-background p-3 text-sm shadow-sm",
+        isOverlay && "cursor-grabbing shadow-lg"
+      )}
+    >
+      <div className="font-medium leading-tight">{deal.deal}</div>
+      <div className="text-base font-semibold">
+        {formatMoney(deal.dealValue, { maximumFractionDigits: 0 })}
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <div className="flex min-w-0 items-center gap-1.5">
+          <Avatar className="h-5 w-5">
+            <AvatarFallback className="text-[10px]">
+              {getInitials(deal.owner)}
+            </AvatarFallback>
+          </Avatar>
+          <span className="truncate">{deal.owner}</span>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <Calendar className="h-3 w-3" />
+          {deal.expectedClose}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+import type React from "react";
+import { useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatMoney,
+  isOverdue,
+  toIsoDate,
+  type Deal,
+  type IsoDate,
+} from "@/lib/deals";
+import {
+  formatPeriod,
+  getCalendarDays,
+  getDayOfMonth,
+  getToday,
+  isSameMonth,
+  shiftPeriod,
+  WEEKDAY_LABELS,
+  type CalendarPeriod,
+} from "@/lib/calendar-dates";
+import { getStageColors } from "./status-chips";
+
+// A month cell lists this many deals before collapsing the rest
+const MONTH_CELL_LIMIT = 3;
+
+interface DealsCalendarProps {
+  // Deals matching the current filters and search that close in the period
+  // shown, in sort order
+  deals: Deal[];
+  // The period shown; the owner loads its deals when it changes
+  period: CalendarPeriod;
+  onPeriodChange: (period: CalendarPeriod) => void;
+  // More deals match than were loaded, so some days may be incomplete
+  isTruncated?: boolean;
+  onReschedule: (deal: Deal, expectedClose: IsoDate) => void;
+}
+
+export function DealsCalendar({
+  deals,
+  period,
+  onPeriodChange,
+  isTruncated = false,
+  onReschedule,
+}: DealsCalendarProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+  const { mode, anchor } = period;
+  const setAnchor = (next: string) => onPeriodChange({ mode, anchor: next });
+  const setMode = (next: CalendarPeriod["mode"]) =>
+    onPeriodChange({ mode: next, anchor });
+  const [expandedDays, setExpandedDays] = useState<Set<string>>(new Set());
+  const [activeDeal, setActiveDeal] = useState<Deal | null>(null);
+  const today = getToday();
+
+  const days = useMemo(() => getCalendarDays(anchor, mode), [anchor, mode]);
+
+  const dealsByDay = useMemo(() => {
+    const byDay = new Map<string, Deal[]>();
+    for (const deal of deals) {
+      const list = byDay.get(deal.expectedClose) || [];
+      list.push(deal);
+      byDay.set(deal.expectedClose, list);
+    }
+    return byDay;
+  }, [deals]);
+
+  const overdueCount = useMemo(
+    () => deals.filter((deal) => isOverdue(deal, today)).length,
+    [deals, today]
+  );
+
+  const toggleDay = (day: string) => {
+    setExpandedDays((prev) => {
+      const next = new Set(prev);
+      if (next.has(day)) next.delete(day);
+      else next.add(day);
+      return next;
+    });
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveDeal(deals.find((deal) => deal.id === event.active.id) || null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveDeal(null);
+    const deal = deals.find((row) => row.id === event.active.id);
+    const day = event.over ? toIsoDate(String(event.over.id)) : null;
+    if (deal && day && deal.expectedClose !== day) {
+      onReschedule(deal, day);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            aria-label={`Previous ${mode}`}
+            onClick={() => setAnchor(shiftPeriod(anchor, mode, -1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            aria-label={`Next ${mode}`}
+            onClick={() => setAnchor(shiftPeriod(anchor, mode, 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold" aria-live="polite">
+            {formatPeriod(anchor, mode)}
+          </h2>
+        </div>
+        <div className="flex items-center gap-3">
+          {overdueCount > 0 && (
+            <span className="flex items-center gap-1 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {overdueCount} overdue
+            </span>
+          )}
+          <div
+            role="radiogroup"
+            aria-label="Calendar period"
+            className="flex items-center rounded-md border p-0.5"
+          >
+            {(["month", "week"] as const).map((option) => (
+              <Button
+                key={option}
+                role="radio"
+                aria-checked={mode === option}
+                variant={mode === option ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 px-2 capitalize"
+                onClick={() => setMode(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isTruncated && (
+        <p className="text-sm text-muted-foreground">
+          Showing the first {deals.length} matching deals. Narrow the filters
+          to see the rest.
+        </p>
+      )}
+
+      <DndContext
+        sensors={sensors}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setActiveDeal(null)}
+      >
+        <div className="grid grid-cols-7 overflow-hidden rounded-md border">
+          {WEEKDAY_LABELS.map((label) => (
+            <div
+              key={label}
+              className="border-b bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground"
+            >
+              {label}
+            </div>
+          ))}
+          {days.map((day) => {
+            const dayDeals = dealsByDay.get(day) || [];
+            const limit =
+              mode === "month" && !expandedDays.has(day)
+                ? MONTH_CELL_LIMIT
+                : dayDeals.length;
+            return (
+              <CalendarDay
+                key={day}
+                day={day}
+                isToday={day === today}
+                isOutside={mode === "month" && !isSameMonth(day, anchor)}
+                className={mode === "week" ? "min-h-96" : "min-h-28"}
+              >
+                {dayDeals.slice(0, limit).map((deal) => (
+                  <DraggableCalendarDeal
+                    key={deal.id}
+                    deal={deal}
+                    isOverdue={isOverdue(deal, today)}
+                  />
+                ))}
+                {dayDeals.length > MONTH_CELL_LIMIT && mode === "month" && (
+                  <button
+                    type="button"
+                    className="px-1 text-left text-xs text-muted-foreground hover:text-foreground"
+                    onClick={() => toggleDay(day)}
+                  >
+                    {expandedDays.has(day)
+                      ? "Show less"
+                      : `+${dayDeals.length - MONTH_CELL_LIMIT} more`}
+                  </button>
+                )}
+              </CalendarDay>
+            );
+          })}
+        </div>
+        <DragOverlay>
+          {activeDeal && (
+            <CalendarDeal
+              deal={activeDeal}
+              isOverdue={isOverdue(activeDeal, today)}
+              isOverlay
+            />
+          )}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  );
+}
+
+function CalendarDay({
+  day,
+  isToday,
+  isOutside,
+  className,
+  children,
+}: {
+  day: string;
+  isToday: boolean;
+  isOutside: boolean;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: day });
+
+  return (
+    <div
+      ref={setNodeRef}
+      aria-label={day}
+      className={cn(
+        "flex flex-col gap-1 border-b border-r p-1 [&:nth-child(7n)]:border-r-0",
+        isOutside && "bg-muted/30",
+        isOver && "bg-primary/5 ring-2 ring-inset ring-primary",
+        className
+      )}
+    >
+      <span
+        className={cn(
+          "flex h-6 w-6 items-center justify-center self-end rounded-full text-xs",
+          isOutside && "text-muted-foreground",
+          isToday && "bg-primary font-semibold text-primary-foreground"
+        )}
+      >
+        {getDayOfMonth(day)}
+      </span>
+      {children}
+    </div>
+  );
+}
+
+function DraggableCalendarDeal({
+  deal,
+  isOverdue,
+}: {
+  deal: Deal;
+  isOverdue: boolean;
+}) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: deal.id,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      aria-label={`${deal.deal}, ${deal.stage}${isOverdue ? ", overdue" : ""}`}
+      className={cn("cursor-grab", isDragging && "opacity-40")}
+    >
+      <CalendarDeal deal={deal} isOverdue={isOverdue} />
+    </div>
+  );
+}
+
+function CalendarDeal({
+  deal,
+  isOverdue,
+  isOverlay = false,
+}: {
+  deal: Deal;
+  isOverdue: boolean;
+  isOverlay?: boolean;
+}) {
+  const { color, textColor } = getStageColors(deal.stage);
+
+  return (
+    <div
+      title={`${deal.deal} · ${deal.stage} · ${formatMoney(deal.dealValue, {
+        maximumFractionDigits: 0,
+      })}${isOverdue ? " · Overdue" : ""}`}
+      className={cn(
+        "flex items-center gap-1 truncate rounded px-1.5 py-0.5 text-xs",
+        color,
+        textColor,
+        isOverdue && "ring-2 ring-destructive ring-offset-1",
+        isOverlay && "cursor-grabbing shadow-lg"
+      )}
+    >
+      {isOverdue && <AlertCircle className="h-3 w-3 shrink-0" />}
+      <span className="truncate">{deal.deal}</span>
+    </div>
+  );
+}
@@ -1,35 +1,160 @@
 "use client";
 
 import type { RowSelectionState } from "@tanstack/react-table";
-import { useState, useMemo, useCallback, useEffect } from "react";
-import { StatusChips } from "./status-chips";
+import type React from "react";
+import {
+  Fragment,
+  useState,
+  useMemo,
+  useCallback,
+  useEffect,
+  useRef,
+} from "react";
+import { createPortal } from "react-dom";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { ChevronDown, ChevronRight, Printer } from "lucide-react";
+import {
+  closestCenter,
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+  type Modifier,
+} from "@dnd-kit/core";
+import {
+  arrayMove,
+  horizontalListSortingStrategy,
+  SortableContext,
+  sortableKeyboardCoordinates,
+} from "@dnd-kit/sortable";
+import { Button } from "@/components/ui/button";
+import { getStageColors, StatusChips } from "./status-chips";
 import { TotalsBar } from "./totals-bar";
 import { AccessibilityAnnouncer } from "./accessibility-announcer";
 import { TableToolbar } from "./table-toolbar";
 import { BulkActionsToolbar } from "./bulk-actions-toolbar";
 import { ExpandableRow } from "./expandable-row";
 import { RowContextMenu } from "./row-context-menu";
-import { ResizableHeader } from "./resizable-header";
+import {
+  COLUMN_MAX_WIDTH,
+  COLUMN_MIN_WIDTH,
+  measureContentWidth,
+  ResizableHeader,
+} from "./resizable-header";
+import { ColumnFilterPopover } from "./column-filter-popover";
 import { ColumnManager } from "./column-manager";
+import { SavedViewsMenu } from "./saved-views-menu";
+import { GroupByMenu } from "./group-by-menu";
+import { LayoutSwitcher, type DealsLayout } from "./layout-switcher";
+import { BOARD_LANE_SIZE, DealsBoard } from "./deals-board";
+import { DealsCalendar } from "./deals-calendar";
 import { KeyboardNavigation } from "./keyboard-navigation";
+import { UndoShortcuts } from "./undo-shortcuts";
+import { DealsPagination } from "./deals-pagination";
 import { StageSelector } from "./cell-editors/stage-selector";
 import { OwnerSelector } from "./cell-editors/owner-selector";
 import { InlineEditor } from "./cell-editors/inline-editor";
 import { ContactList } from "./cell-editors/contact-list";
-
-// Mock data type
-type Deal = {
-  id: string;
-  deal: string;
-  activitiesTimeline: string;
-  stage: string;
-  dealValue: number;
-  contacts: string;
-  owner: string;
-  accounts: string;
-  expectedClose: string;
-  forecastValue: number;
-};
+import { ForecastEditor } from "./cell-editors/forecast-editor";
+import { ForecastSettings } from "./forecast-settings";
+import { ExportMenu, type ExportOptions } from "./export-menu";
+import { ImportDialog } from "./import-dialog";
+import { NewDealSheet } from "./new-deal-sheet";
+import { useDeals } from "@/hooks/use-deals";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useStageProbabilities } from "@/hooks/use-stage-probabilities";
+import type { AuditSource } from "@/lib/audit";
+import { getCurrentUserId } from "@/lib/current-user";
+import {
+  decodeTableState,
+  DEFAULT_TABLE_URL_STATE,
+  encodeTableState,
+  mergeTableState,
+  type TableUrlState,
+} from "@/lib/table-url-state";
+import {
+  canEditView,
+  getViewUrl,
+  VIEW_PARAM,
+  type SavedView,
+  type ViewScope,
+  type ViewState,
+} from "@/lib/views";
+import {
+  createDealCommand,
+  deleteDealsCommand,
+  updateDealsCommand,
+  type DealMutations,
+  type UndoableCommand,
+} from "@/lib/deal-commands";
+import { fetchAllDeals } from "@/lib/deals-api";
+import {
+  archiveChanges,
+  dealInputSchema,
+  formatDealField,
+  formatMoney,
+  formatTotal,
+  isStage,
+  parseDealField,
+  type Deal,
+  type DealField,
+  type DealInput,
+  type DealPatch,
+  type Stage,
+} from "@/lib/deals";
+import {
+  downloadFile,
+  getExportFileName,
+  isExportableColumn,
+  toCsv,
+} from "@/lib/deals-export";
+import { toXlsx, XLSX_MIME_TYPE } from "@/lib/deals-xlsx";
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_PAGE_SIZE,
+  filterByArchive,
+  filterDeals,
+  MAX_PAGE_SIZE,
+  sortDeals,
+  summarizeDeals,
+  upgradeLegacyFilters,
+  type DealsQuery,
+  type DealsSummary,
+  type FilterState,
+  type SortState,
+} from "@/lib/deals-query";
+import {
+  createFilterCondition,
+  createFilterGroup,
+  FILTER_FIELDS,
+  getColumnFilter,
+  getColumnFilterKind,
+  setColumnFilter,
+  type FilterField,
+  type FilterValue,
+} from "@/lib/deal-filters";
+import {
+  getCalendarDays,
+  getToday,
+  type CalendarPeriod,
+} from "@/lib/calendar-dates";
+import { weightedForecast, type StageProbabilities } from "@/lib/forecast";
+import { TABLE_UI_STORAGE_KEY } from "@/lib/table-ui-storage";
+import {
+  formatGroupKey,
+  GROUP_FIELDS,
+  layoutGroups,
+  type GroupField,
+  type GroupHeader,
+} from "@/lib/deal-groups";
 
 // Template type
 type Template = {
@@ -45,6 +170,83 @@ interface ColumnConfig {
   visible: boolean;
   locked?: boolean;
   width?: number;
+  // Sticks to this edge of the table while the rest scrolls sideways
+  pinned?: PinSide;
+}
+
+type PinSide = "left" | "right";
+
+interface ColumnPin {
+  side: PinSide;
+  // Distance from the table edge, i.e. the widths of the pinned columns
+  // between this one and the edge
+  offset: number;
+  // Innermost pinned column on its side, which draws the separator shadow
+  isEdge: boolean;
+}
+
+// Selection and expand buttons stay at the very front: they can't be pinned,
+// moved or auto-sized on their own, but stick along with any columns pinned
+// to the left
+const UTILITY_COLUMNS = ["select", "expand"];
+
+// Locked columns (selection, expand, deal name) keep their place in the row
+function isMovableColumn(column: ColumnConfig): boolean {
+  return !column.locked && !UTILITY_COLUMNS.includes(column.id);
+}
+
+// Header drags only ever move sideways
+const restrictToHorizontalAxis: Modifier = ({ transform }) => ({
+  ...transform,
+  y: 0,
+});
+
+const PIN_SHADOWS: Record<PinSide, string> = {
+  left: "4px 0 6px -4px rgba(0, 0, 0, 0.2)",
+  right: "-4px 0 6px -4px rgba(0, 0, 0, 0.2)",
+};
+
+function getPinSide(
+  column: ColumnConfig,
+  columns: ColumnConfig[]
+): PinSide | undefined {
+  if (UTILITY_COLUMNS.includes(column.id)) {
+    return columns.some((col) => col.pinned === "left") ? "left" : undefined;
+  }
+  return column.pinned;
+}
+
+// Left-pinned columns first, then the scrolling ones, then right-pinned,
+// each keeping its configured order
+function orderByPin(columns: ColumnConfig[]): ColumnConfig[] {
+  const sides = columns.map((col) => getPinSide(col, columns));
+  return [
+    ...columns.filter((_, i) => sides[i] === "left"),
+    ...columns.filter((_, i) => sides[i] === undefined),
+    ...columns.filter((_, i) => sides[i] === "right"),
+  ];
+}
+
+// Sticky positions for the pinned columns of an already ordered list
+function getColumnPins(
+  columns: ColumnConfig[],
+  widthOf: (column: ColumnConfig) => number
+): Map<string, ColumnPin> {
+  const pins = new Map<string, ColumnPin>();
+  const left = columns.filter((col) => getPinSide(col, columns) === "left");
+  const right = columns.filter((col) => getPinSide(col, columns) === "right");
+
+  let offset = 0;
+  left.forEach((col, i) => {
+    pins.set(col.id, { side: "left", offset, isEdge: i === left.length - 1 });
+    offset += widthOf(col);
+  });
+  offset = 0;
+  [...right].reverse().forEach((col, i) => {
+    pins.set(col.id, { side: "right", offset, isEdge: i === right.length - 1 });
+    offset += widthOf(col);
+  });
+  return pins;
 }
 
 // Fixed column widths - define once and use everywhere
@@ -60,70 +262,6 @@ const DEFAULT_COLUMN_WIDTHS = {
   templates: 60,
 } as const;
 
-// Mock data
-const mockData: Deal[] = [
-  {
-    id: "1",
-    deal: "Enterprise Software License",
-    activitiesTimeline: "",
-    stage: "Proposal",
-    dealValue: 125000,
-    contacts: "John Smith, Mary Johnson",
-    owner: "Alex Chen",
-    accounts: "TechCorp Inc. - Enterprise",
-    expectedClose: "2024-03-15",
-    forecastValue: 112500,
-  },
-  {
-    id: "2",
-    deal: "Cloud Migration Project",
-    activitiesTimeline: "",
-    stage: "Negotiation",
-    dealValue: 85000,
-    contacts: "Sarah Johnson, Mike Davis, Lisa Wong",
-    owner: "Sam Wilson",
-    accounts: "DataFlow Systems - Mid-Market",
-    expectedClose: "2024-02-28",
-    forecastValue: 76500,
-  },
-  {
-    id: "3",
-    deal: "Marketing Automation Setup",
-    activitiesTimeline: "",
-    stage: "Proposal",
-    dealValue: 45000,
-    contacts: "Mike Davis, Jennifer Lee",
-    owner: "Emma Brown",
-    accounts: "GrowthCo - Small Business",
-    expectedClose: "2024-02-15",
-    forecastValue: 40500,
-  },
-  {
-    id: "4",
-    deal: "Security Audit & Compliance",
-    activitiesTimeline: "",
-    stage: "Closed Won",
-    dealValue: 95000,
-    contacts: "Lisa Chen, Robert Kim, David Park",
-    owner: "James Liu",
-    accounts: "SecureBank - Financial Services",
-    expectedClose: "2024-01-30",
-    forecastValue: 95000,
-  },
-  {
-    id: "5",
-    deal: "Custom Dashboard Development",
-    activitiesTimeline: "",
-    stage: "Discovery",
-    dealValue: 65000,
-    contacts: "Tom Wilson, Anna Martinez",
-    owner: "Chris Taylor",
-    accounts: "Analytics Pro - Technology",
-    expectedClose: "2024-03-30",
-    forecastValue: 58500,
-  },
-];
-
 // Available templates
 const availableTemplates: Template[] = [
   {
@@ -168,18 +306,6 @@ const availableTemplates: Template[] = [
   },
 ];
 
-interface FilterState {
-  search: string;
-  stage: string[];
-  owner: string[];
-  dealValueRange: [number, number];
-}
-
-interface SortState {
-  column: string;
-  direction: "asc" | "desc";
-}
-
 type UIState = {
   rowSelection: Record<string, boolean>;
   columnConfig: ColumnConfig[];
@@ -189,10 +315,18 @@ type UIState = {
   filters: FilterState;
   sorts: SortState[];
   columnWidths: Record<string, number>;
-  tableData?: Deal[];
+  groupBy: GroupField[];
+  // Ids of collapsed row groups (see getGroupId)
+  collapsedGroups: string[];
+  layout: DealsLayout;
 };
 
-export function DealsTable() {
+interface DealsTableProps {
+  // Lists archived deals, with restore and permanent delete, instead of active ones
+  archived?: boolean;
+}
+
+export function DealsTable({ archived = false }: DealsTableProps) {
   const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
   // Removed unused state: editingHeader, setEditingHeader
   const [selectedTemplates] = useState<string[]>([]);
@@ -207,8 +341,8 @@ export function DealsTable() {
     accounts: "Accounts",
     expectedClose: "Expected Close",
     forecastValue: "Forecast Value",
+    forecastOverride: "Forecast Override",
   });
-  const [tableData, setTableData] = useState<Deal[]>(mockData);
 
   // First, define the default column configuration
   const defaultColumnConfig: ColumnConfig[] = [
@@ -304,21 +438,22 @@ export function DealsTable() {
       headerValues: {},
       selectedTemplates: [],
       expandedRows: [],
-      filters: {
-        search: "",
-        stage: [],
-        owner: [],
-        dealValueRange: [0, 200000],
-      },
+      filters: DEFAULT_FILTERS,
       sorts: [],
       columnWidths: {},
+      groupBy: [],
+      collapsedGroups: [],
+      layout: "table",
     };
 
     if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("deals-table-ui-state");
+      const saved = localStorage.getItem(TABLE_UI_STORAGE_KEY);
       if (saved) {
         try {
           const parsed = JSON.parse(saved);
+          // Deals used to be cached here too; the API is now the source of truth
+          delete parsed.tableData;
+          parsed.filters = upgradeLegacyFilters(parsed.filters);
           // Ensure all required properties exist in the saved state
           return { ...defaultState, ...parsed };
         } catch {
@@ -341,15 +476,145 @@ export function DealsTable() {
     }
   }, [uiState.columnConfig]);
 
-  const [filters, setFilters] = useState<FilterState>({
-    search: "",
-    stage: [],
-    owner: [],
-    dealValueRange: [0, 200000],
-  });
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // A deep link wins over the state remembered in localStorage
+  const [initialUrlState] = useState(() =>
+    decodeTableState(new URLSearchParams(searchParams.toString()))
+  );
+
+  const [filters, setFilters] = useState<FilterState>(
+    initialUrlState?.filters || uiState.filters || DEFAULT_FILTERS
+  );
+
+  const [sorts, setSorts] = useState<SortState[]>(
+    initialUrlState?.sorts || uiState.sorts || []
+  );
+  const [page, setPage] = useState(initialUrlState?.page ?? 1);
+  const [pageSize, setPageSize] = useState(
+    initialUrlState?.pageSize ?? DEFAULT_PAGE_SIZE
+  );
+  const [groupBy, setGroupBy] = useState<GroupField[]>(uiState.groupBy);
+  const [layout, setLayout] = useState<DealsLayout>(uiState.layout);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(
+    () => new Set(uiState.collapsedGroups)
+  );
+
+  const [calendarPeriod, setCalendarPeriod] = useState<CalendarPeriod>(
+    () => ({ mode: "month", anchor: getToday() })
+  );
+
+  // The calendar only lists the deals closing in the days it shows, and
+  // loads them again when it moves to another period
+  const viewFilters = useMemo<FilterState>(() => {
+    if (layout !== "calendar") return filters;
+    const days = getCalendarDays(calendarPeriod.anchor, calendarPeriod.mode);
+    return {
+      ...filters,
+      where: createFilterGroup("and", [
+        filters.where,
+        createFilterCondition("expectedClose", "between", [
+          days[0],
+          days[days.length - 1],
+        ]),
+      ]),
+    };
+  }, [filters, layout, calendarPeriod]);
+
+  const dealsQuery = useMemo<DealsQuery>(
+    () =>
+      // The board and calendar show their deals all at once, not by page
+      layout === "table"
+        ? { archived, filters, sorts, page, pageSize, groupBy }
+        : {
+            archived,
+            filters: viewFilters,
+            sorts,
+            page: 1,
+            pageSize: MAX_PAGE_SIZE,
+            // Every lane gets its own first cards; lane totals come from
+            // the server's per-stage subtotals
+            groupBy: layout === "board" ? ["stage"] : [],
+            groupLimit: layout === "board" ? BOARD_LANE_SIZE : undefined,
+          },
+    [archived, filters, viewFilters, sorts, page, pageSize, groupBy, layout]
+  );
 
-  const [sorts, setSorts] = useState<SortState[]>([]);
-  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const {
+    deals: tableData,
+    total: matchingDealCount,
+    summary,
+    facets,
+    groups,
+    isLoading,
+    error: dealsError,
+    refresh: refreshDeals,
+    createDeal,
+    upsertDeals,
+    updateDeals,
+    deleteDeals,
+    importDeals,
+  } = useDeals(dealsQuery);
+
+  const {
+    probabilities,
+    error: probabilitiesError,
+    saveProbabilities,
+  } = useStageProbabilities();
+
+  const handleSaveProbabilities = useCallback(
+    async (next: StageProbabilities) => {
+      const saved = await saveProbabilities(next);
+      if (saved) {
+        refreshDeals();
+        setAnnouncementMessage("Forecasts recalculated");
+      }
+      return saved;
+    },
+    [saveProbabilities, refreshDeals]
+  );
+
+  const mutations = useMemo<DealMutations>(
+    () => ({ createDeal, upsertDeals, updateDeals, deleteDeals }),
+    [createDeal, upsertDeals, updateDeals, deleteDeals]
+  );
+  const {
+    run: runCommand,
+    undo: undoCommand,
+    redo: redoCommand,
+  } = useUndoHistory();
+
+  // Destructive changes get a toast with a one-click way back
+  const runWithUndoToast = useCallback(
+    async (command: UndoableCommand, message: string) => {
+      if (!(await runCommand(command))) return;
+      toast(message, {
+        action: {
+          label: "Undo",
+          onClick: () => {
+            undoCommand(command).then((undone) => {
+              if (undone) setAnnouncementMessage(`Undid ${undone.label}`);
+            });
+          },
+        },
+      });
+    },
+    [runCommand, undoCommand]
+  );
+
+  // Any change to what matches invalidates the current page number, unless
+  // the page came along with it from the URL
+  const pageResetKey = JSON.stringify([filters, sorts]);
+  const pageResetKeyRef = useRef(pageResetKey);
+  useEffect(() => {
+    if (pageResetKeyRef.current === pageResetKey) return;
+    pageResetKeyRef.current = pageResetKey;
+    setPage(1);
+  }, [pageResetKey]);
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(
+    () => new Set(initialUrlState?.expandedRows)
+  );
 
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({
     select: DEFAULT_COLUMN_WIDTHS.select,
@@ -363,12 +628,13 @@ export function DealsTable() {
     ...Object.fromEntries(
       availableTemplates.map((t) => [t.id, DEFAULT_COLUMN_WIDTHS.template])
     ),
+    ...uiState.columnWidths,
   });
 
   const [focusedCell, setFocusedCell] = useState<{
     row: number;
     col: number;
-  } | null>(null);
+  } | null>(initialUrlState?.focusedCell ?? null);
 
   const [isNavigating, setIsNavigating] = useState(false);
   const [announcementMessage, setAnnouncementMessage] = useState("");
@@ -378,19 +644,19 @@ export function DealsTable() {
     setIsMounted(true);
   }, []);
 
+  useEffect(() => {
+    if (dealsError) {
+      setAnnouncementMessage(dealsError);
+    }
+  }, [dealsError]);
+
   const saveUIState = useCallback((newState: Partial<UIState>) => {
     setUiState((prev) => {
       const updatedState: UIState = {
         ...prev,
         ...newState,
         columnConfig: newState.columnConfig || prev.columnConfig || [],
-        filters: newState.filters ||
-          prev.filters || {
-            search: "",
-            stage: [],
-            owner: [],
-            dealValueRange: [0, 200000],
-          },
+        filters: newState.filters || prev.filters || DEFAULT_FILTERS,
         sorts: newState.sorts || prev.sorts || [],
         rowSelection: newState.rowSelection || prev.rowSelection || {},
         headerValues: newState.headerValues || prev.headerValues || {},
@@ -398,11 +664,15 @@ export function DealsTable() {
           newState.selectedTemplates || prev.selectedTemplates || [],
         expandedRows: newState.expandedRows || prev.expandedRows || [],
         columnWidths: newState.columnWidths || prev.columnWidths || {},
+        groupBy: newState.groupBy || prev.groupBy || [],
+        collapsedGroups:
+          newState.collapsedGroups || prev.collapsedGroups || [],
+        layout: newState.layout || prev.layout || "table",
       };
 
       if (typeof window !== "undefined") {
         localStorage.setItem(
-          "deals-table-ui-state",
+          TABLE_UI_STORAGE_KEY,
           JSON.stringify(updatedState)
         );
       }
@@ -428,68 +698,289 @@ export function DealsTable() {
     [columnWidths, saveUIState]
   );
 
-  const filteredData = useMemo(() => {
-    return tableData.filter((deal) => {
-      // Search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        const searchableFields = [
-          deal.deal,
-          deal.owner,
-          deal.accounts,
-          deal.contacts,
-        ];
-        if (
-          !searchableFields.some((field) =>
-            field.toLowerCase().includes(searchLower)
-          )
-        ) {
-          return false;
-        }
-      }
+  const handleFiltersChange = useCallback(
+    (newFilters: FilterState) => {
+      setFilters(newFilters);
+      saveUIState({ filters: newFilters });
+    },
+    [saveUIState]
+  );
 
-      // Stage filter
-      if (filters.stage.length > 0 && !filters.stage.includes(deal.stage)) {
-        return false;
-      }
+  // Header whose filter popover is open
+  const [openFilterColumn, setOpenFilterColumn] = useState<string | null>(
+    null
+  );
 
-      // Owner filter
-      if (filters.owner.length > 0 && !filters.owner.includes(deal.owner)) {
-        return false;
-      }
+  const handleColumnFilterChange = useCallback(
+    (field: FilterField, value: FilterValue | null) => {
+      handleFiltersChange({
+        ...filters,
+        where: setColumnFilter(filters.where, field, value),
+      });
+      setAnnouncementMessage(
+        value === null
+          ? `Cleared ${FILTER_FIELDS[field].label} filter`
+          : `Filtered by ${FILTER_FIELDS[field].label}`
+      );
+    },
+    [filters, handleFiltersChange]
+  );
 
-      // Deal value range filter
-      if (
-        deal.dealValue < filters.dealValueRange[0] ||
-        deal.dealValue > filters.dealValueRange[1]
-      ) {
-        return false;
-      }
+  const renderColumnFilter = (columnId: string) => {
+    if (!getColumnFilterKind(columnId)) return undefined;
+    const field = columnId as FilterField;
+    return (
+      <ColumnFilterPopover
+        field={field}
+        value={getColumnFilter(filters.where, field)?.value}
+        counts={facets[field]}
+        open={openFilterColumn === columnId}
+        onOpenChange={(open) => setOpenFilterColumn(open ? columnId : null)}
+        onChange={(value) => handleColumnFilterChange(field, value)}
+      />
+    );
+  };
 
-      return true;
-    });
-  }, [tableData, filters]);
+  const {
+    views,
+    defaultViewId,
+    isLoading: viewsLoading,
+    error: viewsError,
+    openView,
+    createView,
+    updateView,
+    deleteView,
+    setDefaultView,
+  } = useSavedViews();
+  const [currentView, setCurrentView] = useState<SavedView | null>(null);
+
+  const viewState = useMemo<ViewState>(
+    () => ({ columnConfig, filters, sorts, columnWidths }),
+    [columnConfig, filters, sorts, columnWidths]
+  );
+  const isViewModified =
+    currentView !== null &&
+    JSON.stringify(currentView.state) !== JSON.stringify(viewState);
+
+  const applyView = useCallback(
+    (view: SavedView) => {
+      const { state } = view;
+      setColumnConfig(state.columnConfig);
+      setFilters(state.filters);
+      setSorts(state.sorts);
+      setColumnWidths(state.columnWidths);
+      saveUIState(state);
+      setCurrentView(view);
+      setAnnouncementMessage(`Switched to view ${view.name}`);
+    },
+    [saveUIState]
+  );
 
-  const sortedData = useMemo(() => {
-    if (sorts.length === 0) return filteredData;
+  // Once views have loaded, open the view linked in the URL, or else the
+  // user's default view unless the URL already carries table state
+  const initialViewApplied = useRef(false);
+  useEffect(() => {
+    if (viewsLoading || initialViewApplied.current) return;
+    initialViewApplied.current = true;
 
-    return [...filteredData].sort((a, b) => {
-      for (const sort of sorts) {
-        let aVal = a[sort.column as keyof Deal];
-        let bVal = b[sort.column as keyof Deal];
+    const linkedViewId = new URLSearchParams(window.location.search).get(
+      VIEW_PARAM
+    );
+    if (linkedViewId) {
+      openView(linkedViewId).then((view) => {
+        if (view) applyView(view);
+      });
+      return;
+    }
+    const defaultView = views.find((view) => view.id === defaultViewId);
+    if (defaultView && !initialUrlState) applyView(defaultView);
+  }, [viewsLoading, views, defaultViewId, initialUrlState, openView, applyView]);
 
-        // Handle different data types
-        if (typeof aVal === "string" && typeof bVal === "string") {
-          aVal = aVal.toLowerCase();
-          bVal = bVal.toLowerCase();
-        }
+  useEffect(() => {
+    if (viewsError) {
+      setAnnouncementMessage(viewsError);
+    }
+  }, [viewsError]);
+
+  const handleSaveView = useCallback(
+    async (name: string, scope: ViewScope) => {
+      const view = await createView({ name, scope, state: viewState });
+      if (!view) return;
+      setCurrentView(view);
+      toast(`Saved view "${view.name}"`);
+    },
+    [createView, viewState]
+  );
 
-        if (aVal < bVal) return sort.direction === "asc" ? -1 : 1;
-        if (aVal > bVal) return sort.direction === "asc" ? 1 : -1;
-      }
-      return 0;
+  const handleUpdateView = useCallback(
+    async (view: SavedView) => {
+      const updated = await updateView(view.id, { state: viewState });
+      if (!updated) return;
+      setCurrentView(updated);
+      toast(`Updated view "${updated.name}"`);
+    },
+    [updateView, viewState]
+  );
+
+  const handleDeleteView = useCallback(
+    async (view: SavedView) => {
+      if (!(await deleteView(view.id))) return;
+      setCurrentView(null);
+      toast(`Deleted view "${view.name}"`);
+    },
+    [deleteView]
+  );
+
+  const handleShareView = useCallback((view: SavedView) => {
+    const url = getViewUrl(view, window.location.href);
+    // Clipboard access can be missing or denied outside secure contexts
+    Promise.resolve()
+      .then(() => navigator.clipboard.writeText(url))
+      .then(
+        () => toast(`Copied link to "${view.name}"`),
+        () => toast.error("Couldn't copy the link")
+      );
+  }, []);
+
+  // Keep the URL in step with the table. Filter and sort changes add a
+  // history entry so back/forward steps through them; paging, expanding rows,
+  // moving focus and further keystrokes in the search box replace it.
+  const urlState = useMemo<TableUrlState>(
+    () => ({
+      filters,
+      sorts,
+      page,
+      pageSize,
+      expandedRows: Array.from(expandedRows),
+      focusedCell,
+    }),
+    [filters, sorts, page, pageSize, expandedRows, focusedCell]
+  );
+  // The printable report of the deals matching the current view
+  const reportUrl = useMemo(() => {
+    const params = encodeTableState({
+      ...DEFAULT_TABLE_URL_STATE,
+      filters,
+      sorts,
     });
-  }, [filteredData, sorts]);
+    return params.toString() ? `/report?${params}` : "/report";
+  }, [filters, sorts]);
+
+  const currentSearchRef = useRef(searchParams.toString());
+  currentSearchRef.current = searchParams.toString();
+  const writtenSearchRef = useRef(searchParams.toString());
+  const lastUrlStateRef = useRef(urlState);
+  const lastChangeWasSearchRef = useRef(false);
+
+  useEffect(() => {
+    const previous = lastUrlStateRef.current;
+    lastUrlStateRef.current = urlState;
+
+    const next = mergeTableState(
+      new URLSearchParams(currentSearchRef.current),
+      urlState
+    ).toString();
+    if (next === currentSearchRef.current) return;
+
+    const searchChanged = previous.filters.search !== urlState.filters.search;
+    const filtersChanged =
+      JSON.stringify([{ ...previous.filters, search: "" }, previous.sorts]) !==
+      JSON.stringify([{ ...urlState.filters, search: "" }, urlState.sorts]);
+    const addEntry =
+      filtersChanged || (searchChanged && !lastChangeWasSearchRef.current);
+    if (searchChanged || filtersChanged) {
+      lastChangeWasSearchRef.current = searchChanged && !filtersChanged;
+    }
+
+    writtenSearchRef.current = next;
+    const url = next ? `${pathname}?${next}` : pathname;
+    if (addEntry) {
+      router.push(url, { scroll: false });
+    } else {
+      router.replace(url, { scroll: false });
+    }
+  }, [urlState, pathname, router]);
+
+  // Back/forward: the URL changed without us writing it, so restore from it
+  useEffect(() => {
+    const search = searchParams.toString();
+    if (search === writtenSearchRef.current) return;
+    writtenSearchRef.current = search;
+
+    const restored =
+      decodeTableState(new URLSearchParams(search)) ??
+      DEFAULT_TABLE_URL_STATE;
+    pageResetKeyRef.current = JSON.stringify([
+      restored.filters,
+      restored.sorts,
+    ]);
+    lastUrlStateRef.current = restored;
+    lastChangeWasSearchRef.current = false;
+    setFilters(restored.filters);
+    setSorts(restored.sorts);
+    setPage(restored.page);
+    setPageSize(restored.pageSize);
+    setExpandedRows(new Set(restored.expandedRows));
+    setFocusedCell(restored.focusedCell);
+  }, [searchParams]);
+
+  // The server already filtered and sorted this page. Re-applying the same
+  // rules locally keeps optimistic edits in place until the next refetch.
+  const filteredData = useMemo(
+    () => filterDeals(filterByArchive(tableData, archived), filters),
+    [tableData, archived, filters]
+  );
+
+  const sortedData = useMemo(
+    () => sortDeals(filteredData, sorts, groupBy),
+    [filteredData, sorts, groupBy]
+  );
+
+  const groupLayout = useMemo(
+    () => layoutGroups(sortedData, groupBy, groups, collapsedGroups),
+    [sortedData, groupBy, groups, collapsedGroups]
+  );
+
+  const handleGroupByChange = useCallback(
+    (newGroupBy: GroupField[]) => {
+      setGroupBy(newGroupBy);
+      setPage(1);
+      saveUIState({ groupBy: newGroupBy });
+      setAnnouncementMessage(
+        newGroupBy.length > 0
+          ? `Grouped by ${newGroupBy
+              .map((field) => GROUP_FIELDS[field].toLowerCase())
+              .join(" and ")}`
+          : "Removed grouping"
+      );
+    },
+    [saveUIState]
+  );
+
+  const handleLayoutChange = useCallback(
+    (newLayout: DealsLayout) => {
+      setLayout(newLayout);
+      saveUIState({ layout: newLayout });
+      setAnnouncementMessage(`Showing deals as a ${newLayout}`);
+    },
+    [saveUIState]
+  );
+
+  const toggleGroup = useCallback(
+    (groupId: string) => {
+      setCollapsedGroups((prev) => {
+        const next = new Set(prev);
+        if (next.has(groupId)) {
+          next.delete(groupId);
+        } else {
+          next.add(groupId);
+        }
+        saveUIState({ collapsedGroups: Array.from(next) });
+        return next;
+      });
+    },
+    [saveUIState]
+  );
 
   const handleSort = useCallback(
     (column: string) => {
@@ -537,11 +1028,22 @@ export function DealsTable() {
       const selectedRowIds = Object.keys(rowSelection).filter(
         (id) => rowSelection[id]
       );
+      const selectedDeals = tableData.filter((deal) => rowSelection[deal.id]);
 
       switch (action) {
         case "delete":
-          setTableData((prev) =>
-            prev.filter((deal) => !selectedRowIds.includes(deal.id))
+          runWithUndoToast(
+            deleteDealsCommand(
+              mutations,
+              selectedDeals,
+              `delete of ${selectedDeals.length} deal${
+                selectedDeals.length !== 1 ? "s" : ""
+              }`,
+              "bulk-action"
+            ),
+            `Deleted ${selectedDeals.length} deal${
+              selectedDeals.length !== 1 ? "s" : ""
+            }`
           );
           setRowSelection({});
           setAnnouncementMessage(
@@ -551,16 +1053,30 @@ export function DealsTable() {
           );
           break;
         case "archive":
-          setAnnouncementMessage(
-            `Archived ${selectedRowIds.length} deal${
-              selectedRowIds.length !== 1 ? "s" : ""
-            }`
+        case "restore": {
+          const archiving = action === "archive";
+          const message = `${archiving ? "Archived" : "Restored"} ${
+            selectedDeals.length
+          } deal${selectedDeals.length !== 1 ? "s" : ""}`;
+          runWithUndoToast(
+            updateDealsCommand(
+              mutations,
+              selectedDeals,
+              archiveChanges(archiving),
+              `${action} of ${selectedDeals.length} deal${
+                selectedDeals.length !== 1 ? "s" : ""
+              }`,
+              "bulk-action"
+            ),
+            message
           );
-          console.log("Archiving deals:", selectedRowIds);
+          setRowSelection({});
+          setAnnouncementMessage(message);
           break;
+        }
         case "changeStage":
           if (value) {
-            const stageMap: Record<string, string> = {
+            const stageMap: Record<string, Stage> = {
               discovery: "Discovery",
               proposal: "Proposal",
               negotiation: "Negotiation",
@@ -571,12 +1087,20 @@ export function DealsTable() {
               typeof value === "string"
                 ? stageMap[value] || value
                 : String(value);
-            setTableData((prev) =>
-              prev.map((deal) =>
-                selectedRowIds.includes(deal.id)
-                  ? { ...deal, stage: stageValue }
-                  : deal
-              )
+            if (!isStage(stageValue)) break;
+            runWithUndoToast(
+              updateDealsCommand(
+                mutations,
+                selectedDeals,
+                { stage: stageValue },
+                `stage change on ${selectedDeals.length} deal${
+                  selectedDeals.length !== 1 ? "s" : ""
+                }`,
+                "bulk-action"
+              ),
+              `Changed ${selectedDeals.length} deal${
+                selectedDeals.length !== 1 ? "s" : ""
+              } to ${stageValue}`
             );
             setAnnouncementMessage(
               `Changed ${selectedRowIds.length} deal${
@@ -598,12 +1122,19 @@ export function DealsTable() {
               typeof value === "string"
                 ? ownerMap[value] || value
                 : String(value);
-            setTableData((prev) =>
-              prev.map((deal) =>
-                selectedRowIds.includes(deal.id)
-                  ? { ...deal, owner: ownerValue }
-                  : deal
-              )
+            runWithUndoToast(
+              updateDealsCommand(
+                mutations,
+                selectedDeals,
+                { owner: ownerValue },
+                `owner change on ${selectedDeals.length} deal${
+                  selectedDeals.length !== 1 ? "s" : ""
+                }`,
+                "bulk-action"
+              ),
+              `Assigned ${selectedDeals.length} deal${
+                selectedDeals.length !== 1 ? "s" : ""
+              } to ${ownerValue}`
             );
             setAnnouncementMessage(
               `Assigned ${selectedRowIds.length} deal${
@@ -622,7 +1153,7 @@ export function DealsTable() {
           break;
       }
     },
-    [rowSelection]
+    [rowSelection, tableData, mutations, runWithUndoToast]
   );
 
   const clearSelection = useCallback(() => {
@@ -632,16 +1163,33 @@ export function DealsTable() {
 
   const updateCellValue = (
     rowId: string,
-    columnId: string,
-    value: string | number
+    changes: DealPatch,
+    source: AuditSource = "inline-edit"
   ) => {
-    setTableData((prev) => {
-      const updatedData = prev.map((row) =>
-        row.id === rowId ? { ...row, [columnId]: value } : row
-      );
-      saveUIState({ ...uiState, tableData: updatedData });
-      return updatedData;
-    });
+    const deal = tableData.find((row) => row.id === rowId);
+    if (!deal) return;
+    const fields = Object.keys(changes)
+      .map((field) => headerValues[field] || field)
+      .join(", ");
+    runCommand(
+      updateDealsCommand(
+        mutations,
+        [deal],
+        changes,
+        `edit of ${fields} on ${deal.deal}`,
+        source
+      )
+    );
+  };
+
+  // Text typed into a cell is parsed into the field's type before saving
+  const updateCellText = (deal: Deal, columnId: string, text: string) => {
+    const result = parseDealField(deal, columnId, text);
+    if ("error" in result) {
+      setAnnouncementMessage(result.error);
+      return;
+    }
+    updateCellValue(deal.id, result.patch);
   };
 
   // Removed unused function: handleHeaderEdit
@@ -671,6 +1219,10 @@ export function DealsTable() {
     return width;
   }, [columnConfig, selectedTemplates, columnWidths]);
 
+  const tableRef = useRef<HTMLTableElement>(null);
+  // Group header whose toggle has keyboard focus
+  const [focusedGroupId, setFocusedGroupId] = useState<string | null>(null);
+
   const handleKeyboardNavigation = useCallback(
     (direction: "up" | "down" | "left" | "right") => {
       if (!focusedCell) {
@@ -788,11 +1340,55 @@ export function DealsTable() {
   );
 
   const handleEnterEdit = useCallback(() => {
+    if (focusedGroupId) {
+      toggleGroup(focusedGroupId);
+      return;
+    }
     if (focusedCell) {
       // Trigger edit mode for the focused cell
       setIsNavigating(false);
     }
-  }, [focusedCell]);
+  }, [focusedCell, focusedGroupId, toggleGroup]);
+
+  // Moves keyboard focus to the next or previous group header on screen.
+  // From a cell, "previous" goes to the header of the group it's in.
+  const handleJumpGroup = useCallback(
+    (direction: "previous" | "next") => {
+      const headers: Array<{ header: GroupHeader; row: number }> = [];
+      sortedData.forEach((deal, row) => {
+        groupLayout.headersBefore
+          .get(deal.id)
+          ?.forEach((header) => headers.push({ header, row }));
+      });
+      if (headers.length === 0) return;
+
+      let current = headers.findIndex(
+        ({ header }) => header.id === focusedGroupId
+      );
+      if (current === -1) {
+        const row = focusedCell?.row ?? -1;
+        const before = headers.filter((entry) => entry.row <= row).length;
+        current = direction === "next" ? before - 1 : before;
+      }
+      const target =
+        headers[direction === "next" ? current + 1 : current - 1];
+      if (!target) return;
+
+      setFocusedCell({ row: target.row, col: focusedCell?.col ?? 0 });
+      const button = tableRef.current?.querySelector<HTMLElement>(
+        `[data-group-id="${CSS.escape(target.header.id)}"]`
+      );
+      button?.focus();
+      button?.scrollIntoView({ block: "nearest" });
+      const { field, key, summary } = target.header;
+      setAnnouncementMessage(
+        `${GROUP_FIELDS[field]} ${formatGroupKey(field, key)}, ${
+          summary.count
+        } deals${target.header.collapsed ? ", collapsed" : ""}`
+      );
+    },
+    [sortedData, groupLayout, focusedGroupId, focusedCell]
+  );
 
   const handleEscapeEdit = useCallback(() => {
     setIsNavigating(true);
@@ -841,13 +1437,18 @@ export function DealsTable() {
         case "duplicate": {
           const originalDeal = tableData.find((deal) => deal.id === dealId);
           if (originalDeal) {
-            const newDeal: Deal = {
-              ...originalDeal,
-              id: `${dealId}-copy-${Date.now()}`,
-              deal: `${originalDeal.deal} (Copy)`,
-            };
-            setTableData((prev) => [...prev, newDeal]);
-            setAnnouncementMessage("Deal duplicated successfully");
+            runCommand(
+              createDealCommand(
+                mutations,
+                {
+                  ...dealInputSchema.parse(originalDeal),
+                  deal: `${originalDeal.deal} (Copy)`,
+                },
+                `duplicate of ${originalDeal.deal}`,
+                "row-action",
+                () => setAnnouncementMessage("Deal duplicated successfully")
+              )
+            );
           }
           break;
         }
@@ -864,9 +1465,15 @@ export function DealsTable() {
               typeof value === "string"
                 ? ownerMap[value] || value
                 : String(value);
-            setTableData((prev) =>
-              prev.map((deal) =>
-                deal.id === dealId ? { ...deal, owner: ownerValue } : deal
+            const deal = tableData.find((row) => row.id === dealId);
+            if (!deal) break;
+            runCommand(
+              updateDealsCommand(
+                mutations,
+                [deal],
+                { owner: ownerValue },
+                `owner change on ${deal.deal}`,
+                "row-action"
               )
             );
             setAnnouncementMessage(`Deal owner changed to ${ownerValue}`);
@@ -874,7 +1481,7 @@ export function DealsTable() {
           break;
         case "changeStage":
           if (value) {
-            const stageMap: Record<string, string> = {
+            const stageMap: Record<string, Stage> = {
               discovery: "Discovery",
               proposal: "Proposal",
               negotiation: "Negotiation",
@@ -885,9 +1492,15 @@ export function DealsTable() {
               typeof value === "string"
                 ? stageMap[value] || value
                 : String(value);
-            setTableData((prev) =>
-              prev.map((deal) =>
-                deal.id === dealId ? { ...deal, stage: stageValue } : deal
+            const deal = tableData.find((row) => row.id === dealId);
+            if (!isStage(stageValue) || !deal) break;
+            runCommand(
+              updateDealsCommand(
+                mutations,
+                [deal],
+                { stage: stageValue },
+                `stage change on ${deal.deal}`,
+                "row-action"
               )
             );
             setAnnouncementMessage(`Deal stage changed to ${stageValue}`);
@@ -906,16 +1519,310 @@ export function DealsTable() {
           console.log("Schedule meeting for deal:", dealId);
           break;
         case "archive":
-          setAnnouncementMessage("Deal archived");
-          console.log("Archive deal:", dealId);
+        case "restore": {
+          const deal = tableData.find((row) => row.id === dealId);
+          if (!deal) break;
+          const archiving = action === "archive";
+          runWithUndoToast(
+            updateDealsCommand(
+              mutations,
+              [deal],
+              archiveChanges(archiving),
+              `${action} of ${deal.deal}`,
+              "row-action"
+            ),
+            `${archiving ? "Archived" : "Restored"} ${deal.deal}`
+          );
+          setAnnouncementMessage(archiving ? "Deal archived" : "Deal restored");
           break;
-        case "delete":
-          setTableData((prev) => prev.filter((deal) => deal.id !== dealId));
+        }
+        case "delete": {
+          const deal = tableData.find((row) => row.id === dealId);
+          if (!deal) break;
+          runWithUndoToast(
+            deleteDealsCommand(
+              mutations,
+              [deal],
+              `delete of ${deal.deal}`,
+              "row-action"
+            ),
+            `Deleted ${deal.deal}`
+          );
           setAnnouncementMessage("Deal deleted");
           break;
+        }
+      }
+    },
+    [tableData, mutations, runCommand, runWithUndoToast]
+  );
+
+  const handleUndo = useCallback(async () => {
+    const command = await undoCommand();
+    setAnnouncementMessage(
+      command ? `Undid ${command.label}` : "Nothing to undo"
+    );
+  }, [undoCommand]);
+
+  const handleRedo = useCallback(async () => {
+    const command = await redoCommand();
+    setAnnouncementMessage(
+      command ? `Redid ${command.label}` : "Nothing to redo"
+    );
+  }, [redoCommand]);
+
+  const visibleColumns = useMemo(() => {
+    // Always return the same columns, but control visibility with CSS
+    return orderByPin(columnConfig.filter((col) => col.visible));
+  }, [columnConfig]);
+
+  // New deals go in at the top, so show the first page to reveal them
+  const handleCreateDeal = useCallback(
+    async (input: DealInput) => {
+      const created = await runCommand(
+        createDealCommand(
+          mutations,
+          input,
+          `creation of ${input.deal}`,
+          "new-deal",
+          (deal) => setAnnouncementMessage(`Created deal ${deal.deal}`)
+        )
+      );
+      if (created) setPage(1);
+      return created;
+    },
+    [mutations, runCommand]
+  );
+
+  // Writes every deal matching the view (not just the loaded page), or just
+  // the selected ones, with the columns as they're shown
+  const handleExport = useCallback(
+    async ({ format, scope, numbers }: ExportOptions) => {
+      let deals: Deal[];
+      let totals: DealsSummary;
+      try {
+        if (scope === "selected") {
+          deals = sortedData.filter((deal) => rowSelection[deal.id]);
+          totals = summarizeDeals(deals);
+        } else {
+          ({ deals, summary: totals } = await fetchAllDeals({
+            archived,
+            filters: viewFilters,
+            sorts,
+            groupBy: layout === "table" ? groupBy : [],
+          }));
+        }
+      } catch (err) {
+        toast.error(
+          err instanceof Error
+            ? err.message
+            : "Couldn't load the deals to export"
+        );
+        return;
+      }
+      const columns = visibleColumns
+        .filter((col) => isExportableColumn(col.id))
+        .map((col) => ({
+          field: col.id as DealField,
+          header: headerValues[col.id] || col.label,
+        }));
+      try {
+        if (format === "xlsx") {
+          downloadFile(
+            await toXlsx(
+              deals,
+              columns,
+              totals,
+              (stage) => getStageColors(stage).fill
+            ),
+            getExportFileName("xlsx"),
+            XLSX_MIME_TYPE
+          );
+        } else {
+          downloadFile(
+            toCsv(deals, columns, numbers),
+            getExportFileName("csv"),
+            "text/csv;charset=utf-8"
+          );
+        }
+      } catch {
+        toast.error("Couldn't create the export file");
+        return;
+      }
+      setAnnouncementMessage(
+        `Exported ${deals.length} deal${deals.length !== 1 ? "s" : ""}`
+      );
+    },
+    [
+      sortedData,
+      rowSelection,
+      visibleColumns,
+      headerValues,
+      archived,
+      viewFilters,
+      sorts,
+      groupBy,
+      layout,
+    ]
+  );
+
+  const columnPins = useMemo(
+    () =>
+      getColumnPins(
+        visibleColumns,
+        (col) =>
+          columnWidths[col.id] || col.width || DEFAULT_COLUMN_WIDTHS.template
+      ),
+    [visibleColumns, columnWidths]
+  );
+
+  // Whether content is scrolled out of view past each edge; the pinned
+  // columns only cast a shadow over content that is actually behind them
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [scrolledPast, setScrolledPast] = useState<Record<PinSide, boolean>>({
+    left: false,
+    right: false,
+  });
+
+  const updateScrolledPast = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const left = container.scrollLeft > 0;
+    const right =
+      container.scrollLeft + container.clientWidth < container.scrollWidth - 1;
+    setScrolledPast((prev) =>
+      prev.left === left && prev.right === right ? prev : { left, right }
+    );
+  }, []);
+
+  useEffect(() => {
+    updateScrolledPast();
+    window.addEventListener("resize", updateScrolledPast);
+    return () => window.removeEventListener("resize", updateScrolledPast);
+  }, [updateScrolledPast, totalTableWidth]);
+
+  const getPinStyle = (columnId: string): React.CSSProperties | undefined => {
+    const pin = columnPins.get(columnId);
+    if (!pin) return undefined;
+    return {
+      position: "sticky",
+      [pin.side]: pin.offset,
+      zIndex: 1,
+      boxShadow:
+        pin.isEdge && scrolledPast[pin.side] ? PIN_SHADOWS[pin.side] : undefined,
+    };
+  };
+
+  const handleColumnsChange = useCallback(
+    (newColumns: ColumnConfig[]) => {
+      setColumnConfig(newColumns);
+      saveUIState({ columnConfig: newColumns });
+    },
+    [saveUIState]
+  );
+
+  // Moves a column to where another one is, shifting the columns in between.
+  // Only movable columns within the same pinned (or scrolling) section can
+  // trade places; returns whether the column moved.
+  const moveColumn = useCallback(
+    (columnId: string, targetId: string): boolean => {
+      const from = columnConfig.findIndex((col) => col.id === columnId);
+      const to = columnConfig.findIndex((col) => col.id === targetId);
+      if (
+        from === -1 ||
+        to === -1 ||
+        from === to ||
+        !isMovableColumn(columnConfig[from]) ||
+        !isMovableColumn(columnConfig[to]) ||
+        columnPins.get(columnId)?.side !== columnPins.get(targetId)?.side
+      ) {
+        return false;
+      }
+      handleColumnsChange(arrayMove(columnConfig, from, to));
+      return true;
+    },
+    [columnConfig, columnPins, handleColumnsChange]
+  );
+
+  const sensors = useSensors(
+    // A short drag threshold keeps plain clicks on a header sorting
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [dragOverColumn, setDragOverColumn] = useState<string | null>(null);
+
+  const handleHeaderDragStart = useCallback((event: DragStartEvent) => {
+    setDraggedColumn(String(event.active.id));
+  }, []);
+
+  const handleHeaderDragOver = useCallback((event: DragOverEvent) => {
+    setDragOverColumn(event.over ? String(event.over.id) : null);
+  }, []);
+
+  const handleHeaderDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setDraggedColumn(null);
+      setDragOverColumn(null);
+      const { active, over } = event;
+      if (!over || active.id === over.id) return;
+      if (moveColumn(String(active.id), String(over.id))) {
+        setAnnouncementMessage(`Moved ${active.id} column`);
       }
     },
-    [tableData]
+    [moveColumn]
+  );
+
+  const handleHeaderDragCancel = useCallback(() => {
+    setDraggedColumn(null);
+    setDragOverColumn(null);
+  }, []);
+
+  // Which edge of the hovered header the dragged column would land on
+  const getDropIndicator = (columnId: string): "left" | "right" | undefined => {
+    if (!draggedColumn || dragOverColumn !== columnId) return undefined;
+    if (draggedColumn === columnId) return undefined;
+    const dragged = visibleColumns.find((col) => col.id === draggedColumn);
+    const target = visibleColumns.find((col) => col.id === columnId);
+    if (
+      !dragged ||
+      !target ||
+      !isMovableColumn(target) ||
+      columnPins.get(dragged.id)?.side !== columnPins.get(target.id)?.side
+    ) {
+      return undefined;
+    }
+    return visibleColumns.indexOf(dragged) < visibleColumns.indexOf(target)
+      ? "right"
+      : "left";
+  };
+
+  // "fit" sizes the column to its widest cell on this page, header included;
+  // "auto" does the same but won't go narrower than the column's default
+  const autoSizeColumn = useCallback(
+    (columnId: string, mode: "auto" | "fit") => {
+      const table = tableRef.current;
+      if (!table || UTILITY_COLUMNS.includes(columnId)) return;
+      const cells = Array.from(
+        table.querySelectorAll(`[data-column-id="${CSS.escape(columnId)}"]`)
+      );
+      const defaultWidth =
+        columnId in DEFAULT_COLUMN_WIDTHS
+          ? DEFAULT_COLUMN_WIDTHS[columnId as keyof typeof DEFAULT_COLUMN_WIDTHS]
+          : DEFAULT_COLUMN_WIDTHS.template;
+      const minWidth =
+        mode === "auto"
+          ? Math.max(COLUMN_MIN_WIDTH, defaultWidth)
+          : COLUMN_MIN_WIDTH;
+      const width = Math.min(
+        COLUMN_MAX_WIDTH,
+        Math.max(minWidth, measureContentWidth(cells))
+      );
+      handleColumnResize(columnId, width);
+      setAnnouncementMessage(`Resized ${columnId} column to fit its content`);
+    },
+    [handleColumnResize]
   );
 
   const handleColumnAction = useCallback(
@@ -936,8 +1843,9 @@ export function DealsTable() {
           }
           break;
         case "filter":
-          setAnnouncementMessage(`Filtering by ${columnId}`);
-          console.log("Filter by column:", columnId);
+          if (getColumnFilterKind(columnId)) {
+            setOpenFilterColumn(columnId);
+          }
           break;
         case "hide":
           setColumnConfig((prev) =>
@@ -947,66 +1855,51 @@ export function DealsTable() {
           );
           setAnnouncementMessage(`Hidden ${columnId} column`);
           break;
-        case "pin":
-          setAnnouncementMessage(`${columnId} column pinned`);
-          console.log("Pin/unpin column:", columnId);
+        case "pin": {
+          const pinned: PinSide | undefined =
+            value === "left" || value === "right" ? value : undefined;
+          handleColumnsChange(
+            columnConfig.map((col) =>
+              col.id === columnId ? { ...col, pinned } : col
+            )
+          );
+          setAnnouncementMessage(
+            pinned
+              ? `Pinned ${columnId} column to the ${pinned}`
+              : `Unpinned ${columnId} column`
+          );
           break;
-        case "move":
-          setAnnouncementMessage(`Moved ${columnId} column ${value}`);
-          console.log("Move column:", columnId, value);
+        }
+        case "move": {
+          if (value !== "left" && value !== "right") break;
+          // Swap places with the next visible column on that side, the same
+          // reorder ColumnManager makes when a column is dragged onto another
+          const index = visibleColumns.findIndex((col) => col.id === columnId);
+          const neighbor =
+            visibleColumns[value === "left" ? index - 1 : index + 1];
+          setAnnouncementMessage(
+            index !== -1 && neighbor && moveColumn(columnId, neighbor.id)
+              ? `Moved ${columnId} column ${value}`
+              : `${columnId} column can't move further ${value}`
+          );
           break;
+        }
         case "resize":
           if (value === "auto" || value === "fit") {
-            setAnnouncementMessage(`Auto-resized ${columnId} column`);
-            console.log("Auto-resize column:", columnId);
+            autoSizeColumn(columnId, value);
           }
           break;
       }
     },
-    []
+    [
+      columnConfig,
+      visibleColumns,
+      handleColumnsChange,
+      moveColumn,
+      autoSizeColumn,
+    ]
   );
 
-  const totals = useMemo(() => {
-    const visible = sortedData.length;
-    const total = tableData.length;
-    const selected = Object.keys(rowSelection).filter(
-      (id) => rowSelection[id]
-    ).length;
-
-    const dealValueSum = sortedData.reduce(
-      (sum, deal) => sum + deal.dealValue,
-      0
-    );
-    const forecastValueSum = sortedData.reduce(
-      (sum, deal) => sum + deal.forecastValue,
-      0
-    );
-
-    const stageBreakdown = sortedData.reduce((acc, deal) => {
-      acc[deal.stage] = (acc[deal.stage] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const ownerBreakdown = sortedData.reduce((acc, deal) => {
-      acc[deal.owner] = (acc[deal.owner] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return {
-      visible,
-      total,
-      selected,
-      dealValueSum,
-      forecastValueSum,
-      stageBreakdown,
-      ownerBreakdown,
-      averageDealValue: visible > 0 ? dealValueSum / visible : 0,
-      conversionRate: stageBreakdown["Closed Won"]
-        ? (stageBreakdown["Closed Won"] / visible) * 100
-        : 0,
-    };
-  }, [sortedData, tableData.length, rowSelection]);
-
   const getDynamicColumns = useCallback((): Array<{
     id: string;
     label: string;
@@ -1037,10 +1930,6 @@ export function DealsTable() {
       );
   }, [selectedTemplates, columnConfig, headerValues, columnWidths]);
 
-  const visibleColumns = useMemo(() => {
-    // Always return the same columns, but control visibility with CSS
-    return columnConfig.filter((col) => col.visible);
-  }, [columnConfig]);
   const dynamicColumns = useMemo(
     () => getDynamicColumns(),
     [getDynamicColumns]
@@ -1051,35 +1940,133 @@ export function DealsTable() {
     return () => setIsMounted(false);
   }, []);
 
+  const renderGroupHeader = (header: GroupHeader) => (
+    <tr key={header.id} className="border-b bg-muted/30">
+      <td
+        colSpan={visibleColumns.length + dynamicColumns.length}
+        className="px-2 py-1.5 text-sm"
+      >
+        {/* Stays in view while the rest of the row scrolls sideways */}
+        <div
+          className="sticky left-0 flex w-max items-center gap-4"
+          style={{ paddingLeft: header.level * 20 }}
+        >
+          <button
+            type="button"
+            data-group-id={header.id}
+            aria-expanded={!header.collapsed}
+            className="flex items-center gap-1 rounded font-medium hover:bg-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            onClick={() => toggleGroup(header.id)}
+            onFocus={() => setFocusedGroupId(header.id)}
+            onBlur={() => setFocusedGroupId(null)}
+          >
+            {header.collapsed ? (
+              <ChevronRight className="h-4 w-4" />
+            ) : (
+              <ChevronDown className="h-4 w-4" />
+            )}
+            <span className="text-muted-foreground">
+              {GROUP_FIELDS[header.field]}:
+            </span>
+            {formatGroupKey(header.field, header.key)}
+          </button>
+          <span className="text-xs text-muted-foreground">
+            {header.summary.count}{" "}
+            {header.summary.count === 1 ? "deal" : "deals"}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            Value {formatTotal(header.summary.dealValue, summary.currency)}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            Forecast {formatTotal(header.summary.forecastValue, summary.currency)}
+          </span>
+        </div>
+      </td>
+    </tr>
+  );
+
   return (
     <div className="space-y-4">
       <AccessibilityAnnouncer message={announcementMessage} />
 
+      <UndoShortcuts onUndo={handleUndo} onRedo={handleRedo} />
+
       <KeyboardNavigation
         onNavigate={handleKeyboardNavigation}
         onEnterEdit={handleEnterEdit}
         onEscapeEdit={handleEscapeEdit}
         onSelectRow={handleSelectRow}
         onSelectAll={handleSelectAll}
+        onJumpGroup={handleJumpGroup}
+        disabled={layout !== "table"}
         isNavigating={isNavigating}
       />
 
       <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold">Deals</h1>
-        <ColumnManager
-          columns={columnConfig}
-          onColumnsChange={(newColumns) => {
-            setColumnConfig(newColumns);
-            saveUIState({
-              columnConfig: newColumns,
-            });
-          }}
-        />
+        <h1 className="text-2xl font-bold">
+          {archived ? "Archived Deals" : "Deals"}
+        </h1>
+        <div className="flex items-center gap-2">
+          <LayoutSwitcher value={layout} onChange={handleLayoutChange} />
+          {layout === "table" && (
+            <GroupByMenu value={groupBy} onChange={handleGroupByChange} />
+          )}
+          {!archived && (
+            <NewDealSheet onCreate={handleCreateDeal} error={dealsError} />
+          )}
+          {!archived && (
+            <ImportDialog onImport={importDeals} error={dealsError} />
+          )}
+          <ExportMenu
+            rowCount={matchingDealCount}
+            selectedCount={
+              sortedData.filter((deal) => rowSelection[deal.id]).length
+            }
+            onExport={handleExport}
+          />
+          {!archived && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={reportUrl}>
+                <Printer className="h-4 w-4 mr-2" />
+                Report
+              </Link>
+            </Button>
+          )}
+          <ForecastSettings
+            probabilities={probabilities}
+            onSave={handleSaveProbabilities}
+          />
+          <SavedViewsMenu
+            views={views}
+            currentView={currentView}
+            defaultViewId={defaultViewId}
+            isModified={isViewModified}
+            canEdit={(view) => canEditView(view, getCurrentUserId())}
+            onSelect={applyView}
+            onSave={handleSaveView}
+            onUpdate={handleUpdateView}
+            onDelete={handleDeleteView}
+            onSetDefault={setDefaultView}
+            onShare={handleShareView}
+          />
+          {layout === "table" && (
+            <ColumnManager
+              columns={columnConfig}
+              onColumnsChange={handleColumnsChange}
+            />
+          )}
+        </div>
       </div>
 
+      {(dealsError || viewsError || probabilitiesError) && (
+        <p className="text-sm text-destructive" role="alert">
+          {dealsError || viewsError || probabilitiesError}
+        </p>
+      )}
+
       <TableToolbar
         filters={filters}
-        onFiltersChange={setFilters}
+        onFiltersChange={handleFiltersChange}
         sorts={sorts}
         onSortsChange={(newSorts) => {
           setSorts(newSorts);
@@ -1087,8 +2074,10 @@ export function DealsTable() {
         }}
       />
 
-      {Object.keys(rowSelection).some((id) => rowSelection[id]) && (
+      {layout === "table" &&
+        Object.keys(rowSelection).some((id) => rowSelection[id]) && (
         <BulkActionsToolbar
+          archived={archived}
           selectedCount={
             Object.keys(rowSelection).filter((id) => rowSelection[id]).length
           }
@@ -1104,225 +2093,342 @@ export function DealsTable() {
         />
       )}
 
-      <div
-        className="rounded-md border"
-        style={{
-          minHeight: "400px", // Adjust based on your needs
-          position: "relative",
-          overflow: "hidden",
-        }}
-      >
-        <div className="overflow-x-auto">
-          <table
-            className="w-full"
-            style={{
-              minWidth: totalTableWidth,
-              visibility: isMounted ? "visible" : "hidden",
-              tableLayout: "fixed"
-            }}
+      {layout === "board" ? (
+        <DealsBoard
+          deals={sortedData}
+          stageTotals={groups}
+          currency={summary.currency}
+          onStageChange={(deal, stage) =>
+            updateCellValue(deal.id, { stage }, "board")
+          }
+        />
+      ) : layout === "calendar" ? (
+        <DealsCalendar
+          deals={sortedData}
+          period={calendarPeriod}
+          onPeriodChange={setCalendarPeriod}
+          isTruncated={matchingDealCount > sortedData.length}
+          onReschedule={(deal, expectedClose) =>
+            updateCellValue(deal.id, { expectedClose }, "calendar")
+          }
+        />
+      ) : (
+        <>
+        <div
+          className="rounded-md border"
+          style={{
+            minHeight: "400px", // Adjust based on your needs
+            position: "relative",
+            overflow: "hidden",
+          }}
+        >
+          <div
+            ref={scrollContainerRef}
+            className="overflow-x-auto"
+            onScroll={updateScrolledPast}
           >
-            <colgroup>
-              {visibleColumns.map(col => (
-                <col 
-                  key={col.id}
-                  style={{
-                    width: columnWidths[col.id] || col.width || '150px',
-                    minWidth: columnWidths[col.id] || col.width || '150px',
-                    maxWidth: columnWidths[col.id] || col.width || '150px'
-                  }}
-                />
-              ))}
-              {dynamicColumns.map(col => (
-                <col 
-                  key={col.id}
-                  style={{
-                    width: col.width,
-                    minWidth: col.width,
-                    maxWidth: col.width
-                  }}
-                />
-              ))}
-            </colgroup>
-            <thead>
-              <tr className="border-b bg-muted/50">
-                {visibleColumns.map((col) => (
-                  <ResizableHeader
+            <table
+              ref={tableRef}
+              className="w-full"
+              style={{
+                minWidth: totalTableWidth,
+                visibility: isMounted ? "visible" : "hidden",
+                tableLayout: "fixed"
+              }}
+            >
+              <colgroup>
+                {visibleColumns.map(col => (
+                  <col 
                     key={col.id}
-                    columnId={col.id}
-                    columnLabel={col.label}
-                    width={
-                      columnWidths[col.id] ||
-                      col.width ||
-                      DEFAULT_COLUMN_WIDTHS.template
-                    }
-                    onResize={(width) => handleColumnResize(col.id, width)}
-                    onSort={() => handleSort(col.id)}
-                    sortDirection={
-                      sorts.find((s) => s.column === col.id)?.direction
-                    }
-                    onAction={handleColumnAction}
+                    style={{
+                      width: columnWidths[col.id] || col.width || '150px',
+                      minWidth: columnWidths[col.id] || col.width || '150px',
+                      maxWidth: columnWidths[col.id] || col.width || '150px'
+                    }}
                   />
                 ))}
-                {dynamicColumns.map((col) => (
-                  <ResizableHeader
+                {dynamicColumns.map(col => (
+                  <col 
                     key={col.id}
-                    columnId={col.id}
-                    columnLabel={col.label}
-                    width={col.width}
-                    onResize={(width) => handleColumnResize(col.id, width)}
-                    onSort={() => handleSort(col.id)}
-                    sortDirection={
-                      sorts.find((s) => s.column === col.id)?.direction
-                    }
-                    onAction={handleColumnAction}
+                    style={{
+                      width: col.width,
+                      minWidth: col.width,
+                      maxWidth: col.width
+                    }}
                   />
                 ))}
-              </tr>
-            </thead>
-            <tbody>
-              {sortedData.map((deal) => (
-                <RowContextMenu
-                  key={deal.id}
-                  deal={deal}
-                  onAction={handleRowAction}
-                >
-                  <tr className="border-b hover:bg-muted/50">
-                    {visibleColumns.map((col) => (
-                      <td
+              </colgroup>
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                modifiers={[restrictToHorizontalAxis]}
+                onDragStart={handleHeaderDragStart}
+                onDragOver={handleHeaderDragOver}
+                onDragEnd={handleHeaderDragEnd}
+                onDragCancel={handleHeaderDragCancel}
+              >
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <SortableContext
+                      items={visibleColumns
+                        .filter(isMovableColumn)
+                        .map((col) => col.id)}
+                      strategy={horizontalListSortingStrategy}
+                    >
+                      {visibleColumns.map((col) => (
+                        <ResizableHeader
+                          key={col.id}
+                          columnId={col.id}
+                          columnLabel={col.label}
+                          width={
+                            columnWidths[col.id] ||
+                            col.width ||
+                            DEFAULT_COLUMN_WIDTHS.template
+                          }
+                          onResize={(width) => handleColumnResize(col.id, width)}
+                          onSort={() => handleSort(col.id)}
+                          sortDirection={
+                            sorts.find((s) => s.column === col.id)?.direction
+                          }
+                          onAction={handleColumnAction}
+                          canHide={!col.locked}
+                          canPin={!UTILITY_COLUMNS.includes(col.id)}
+                          isPinned={Boolean(col.pinned)}
+                          className={columnPins.has(col.id) ? "bg-muted" : undefined}
+                          style={getPinStyle(col.id)}
+                          filter={renderColumnFilter(col.id)}
+                          onAutoSize={
+                            UTILITY_COLUMNS.includes(col.id)
+                              ? undefined
+                              : () => autoSizeColumn(col.id, "fit")
+                          }
+                          draggable={isMovableColumn(col)}
+                          dropIndicator={getDropIndicator(col.id)}
+                        />
+                      ))}
+                    </SortableContext>
+                    {dynamicColumns.map((col) => (
+                      <ResizableHeader
                         key={col.id}
-                        className="px-2 py-2 text-sm"
-                        style={{ width: columnWidths[col.id] || col.width }}
-                      >
-                        {col.id === "select" && (
-                          <input
-                            type="checkbox"
-                            checked={!!rowSelection[deal.id]}
-                            onChange={(e) => {
-                              setRowSelection((prev) => ({
-                                ...prev,
-                                [deal.id]: e.target.checked,
-                              }));
-                              saveUIState({
-                                ...uiState,
-                                rowSelection: {
-                                  ...uiState.rowSelection,
-                                  [deal.id]: e.target.checked,
-                                },
-                              });
-                            }}
-                          />
-                        )}
-                        {col.id === "expand" && (
-                          <button
-                            onClick={() => toggleRowExpansion(deal.id)}
-                            className="p-1 hover:bg-muted rounded"
-                          >
-                            {expandedRows.has(deal.id) ? "−" : "+"}
-                          </button>
-                        )}
-                        {col.id === "deal" && (
-                          <InlineEditor
-                            value={deal.deal}
-                            onChange={(value) =>
-                              updateCellValue(deal.id, "deal", value)
-                            }
-                          />
-                        )}
-                        {col.id === "stage" && (
-                          <StageSelector
-                            value={deal.stage}
-                            onChange={(value) =>
-                              updateCellValue(deal.id, "stage", value)
-                            }
-                          />
-                        )}
-                        {col.id === "dealValue" && (
-                          <InlineEditor
-                            value={`$${deal.dealValue.toLocaleString()}`}
-                            onChange={(value) => {
-                              const stringValue = String(value);
-                              const numValue = Number.parseInt(
-                                stringValue.replace(/[$,]/g, "")
-                              );
-                              updateCellValue(deal.id, "dealValue", numValue);
-                            }}
-                          />
-                        )}
-                        {col.id === "owner" && (
-                          <OwnerSelector
-                            value={deal.owner}
-                            onChange={(value) =>
-                              updateCellValue(deal.id, "owner", value)
-                            }
-                          />
-                        )}
-                        {col.id === "expectedClose" && (
-                          <InlineEditor
-                            value={deal.expectedClose}
-                            onChange={(value) =>
-                              updateCellValue(deal.id, "expectedClose", value)
-                            }
-                          />
-                        )}
-                        {col.id === "contacts" && (
-                          <ContactList
-                            value={deal.contacts}
-                            onChange={(newContacts: string) =>
-                              updateCellValue(deal.id, "contacts", newContacts)
-                            }
-                          />
-                        )}
-                      </td>
+                        columnId={col.id}
+                        columnLabel={col.label}
+                        width={col.width}
+                        onResize={(width) => handleColumnResize(col.id, width)}
+                        onSort={() => handleSort(col.id)}
+                        sortDirection={
+                          sorts.find((s) => s.column === col.id)?.direction
+                        }
+                        onAction={handleColumnAction}
+                        filter={renderColumnFilter(col.id)}
+                        onAutoSize={() => autoSizeColumn(col.id, "fit")}
+                      />
                     ))}
-                    {dynamicColumns.map((col) => {
-                      const value = deal[col.id as keyof Deal];
-                      return (
-                        <td
-                          key={col.id}
-                          className="px-2 py-2 text-sm"
-                          style={{ width: col.width }}
-                        >
-                          {col.id === "stage" ? (
-                            <StatusChips status={String(value)} />
-                          ) : (
-                            <InlineEditor
-                              value={String(value || "")}
-                              onChange={(newValue: string | number) =>
-                                updateCellValue(
-                                  deal.id,
-                                  col.id,
-                                  String(newValue)
-                                )
-                              }
-                            />
-                          )}
-                        </td>
-                      );
-                    })}
                   </tr>
-                  {expandedRows.has(deal.id) && (
-                    <tr>
-                      <td
-                        colSpan={visibleColumns.length + dynamicColumns.length}
-                        className="p-0"
-                      >
-                        <ExpandableRow
-                          deal={deal}
-                          isExpanded={expandedRows.has(deal.id)}
-                          onToggle={() => toggleRowExpansion(deal.id)}
-                        />
-                      </td>
-                    </tr>
+                </thead>
+                {isMounted &&
+                  createPortal(
+                    <DragOverlay>
+                      {draggedColumn && (
+                        <div className="rounded-md border bg-background px-3 py-2 text-sm font-medium shadow-lg">
+                          {visibleColumns.find((col) => col.id === draggedColumn)?.label}
+                        </div>
+                      )}
+                    </DragOverlay>,
+                    document.body
                   )}
-                </RowContextMenu>
-              ))}
-            </tbody>
-          </table>
+              </DndContext>
+              <tbody>
+                {isLoading && sortedData.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={visibleColumns.length + dynamicColumns.length}
+                      className="px-2 py-8 text-center text-sm text-muted-foreground"
+                    >
+                      Loading deals...
+                    </td>
+                  </tr>
+                )}
+                {sortedData.map((deal) => (
+                  <Fragment key={deal.id}>
+                    {groupLayout.headersBefore
+                      .get(deal.id)
+                      ?.map(renderGroupHeader)}
+                    {!groupLayout.hidden.has(deal.id) && (
+                      <RowContextMenu deal={deal} onAction={handleRowAction}>
+                        <tr className="group border-b hover:bg-muted/50">
+                          {visibleColumns.map((col) => (
+                            <td
+                              key={col.id}
+                              data-column-id={col.id}
+                              className={
+                                columnPins.has(col.id)
+                                  ? "px-2 py-2 text-sm bg-background group-hover:bg-muted"
+                                  : "px-2 py-2 text-sm"
+                              }
+                              style={{
+                                width: columnWidths[col.id] || col.width,
+                                ...getPinStyle(col.id),
+                              }}
+                            >
+                              {col.id === "select" && (
+                                <input
+                                  type="checkbox"
+                                  checked={!!rowSelection[deal.id]}
+                                  onChange={(e) => {
+                                    setRowSelection((prev) => ({
+                                      ...prev,
+                                      [deal.id]: e.target.checked,
+                                    }));
+                                    saveUIState({
+                                      ...uiState,
+                                      rowSelection: {
+                                        ...uiState.rowSelection,
+                                        [deal.id]: e.target.checked,
+                                      },
+                                    });
+                                  }}
+                                />
+                              )}
+                              {col.id === "expand" && (
+                                <button
+                                  onClick={() => toggleRowExpansion(deal.id)}
+                                  className="p-1 hover:bg-muted rounded"
+                                >
+                                  {expandedRows.has(deal.id) ? "−" : "+"}
+                                </button>
+                              )}
+                              {col.id === "deal" && (
+                                <InlineEditor
+                                  value={deal.deal}
+                                  onChange={(value) =>
+                                    updateCellText(deal, "deal", String(value))
+                                  }
+                                />
+                              )}
+                              {col.id === "stage" && (
+                                <StageSelector
+                                  value={deal.stage}
+                                  onChange={(value) =>
+                                    updateCellValue(deal.id, { stage: value })
+                                  }
+                                />
+                              )}
+                              {col.id === "dealValue" && (
+                                <InlineEditor
+                                  value={formatMoney(deal.dealValue)}
+                                  onChange={(value) =>
+                                    updateCellText(deal, "dealValue", String(value))
+                                  }
+                                />
+                              )}
+                              {col.id === "forecastValue" && (
+                                <ForecastEditor
+                                  deal={deal}
+                                  probability={probabilities[deal.stage]}
+                                  onChange={(text) =>
+                                    updateCellText(deal, "forecastValue", text)
+                                  }
+                                  onReset={() =>
+                                    updateCellValue(deal.id, {
+                                      forecastOverride: false,
+                                      forecastValue: weightedForecast(
+                                        deal,
+                                        probabilities
+                                      ),
+                                    })
+                                  }
+                                />
+                              )}
+                              {col.id === "owner" && (
+                                <OwnerSelector
+                                  value={deal.owner}
+                                  onChange={(value) =>
+                                    updateCellValue(deal.id, { owner: value })
+                                  }
+                                />
+                              )}
+                              {col.id === "expectedClose" && (
+                                <InlineEditor
+                                  value={deal.expectedClose}
+                                  onChange={(value) =>
+                                    updateCellText(
+                                      deal,
+                                      "expectedClose",
+                                      String(value)
+                                    )
+                                  }
+                                />
+                              )}
+                              {col.id === "contacts" && (
+                                <ContactList
+                                  value={deal.contacts}
+                                  onChange={(newContacts) =>
+                                    updateCellValue(deal.id, {
+                                      contacts: newContacts,
+                                    })
+                                  }
+                                />
+                              )}
+                            </td>
+                          ))}
+                          {dynamicColumns.map((col) => (
+                            <td
+                              key={col.id}
+                              data-column-id={col.id}
+                              className="px-2 py-2 text-sm"
+                              style={{ width: col.width }}
+                            >
+                              {col.id === "stage" ? (
+                                <StatusChips status={deal.stage} />
+                              ) : (
+                                <InlineEditor
+                                  value={formatDealField(deal, col.id)}
+                                  onChange={(newValue: string | number) =>
+                                    updateCellText(deal, col.id, String(newValue))
+                                  }
+                                />
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                        {expandedRows.has(deal.id) && (
+                          <tr>
+                            <td
+                              colSpan={visibleColumns.length + dynamicColumns.length}
+                              className="p-0"
+                            >
+                              <ExpandableRow
+                                deal={deal}
+                                isExpanded={expandedRows.has(deal.id)}
+                                onToggle={() => toggleRowExpansion(deal.id)}
+                              />
+                            </td>
+                          </tr>
+                        )}
+                      </RowContextMenu>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+
+        <DealsPagination
+          page={page}
+          pageSize={pageSize}
+          total={matchingDealCount}
+          onPageChange={setPage}
+          onPageSizeChange={(newPageSize) => {
+            setPageSize(newPageSize);
+            setPage(1);
+          }}
+        />
+        </>
+      )}
 
       <TotalsBar
-        data={tableData}
+        summary={summary}
         selectedData={
           Object.keys(rowSelection).length > 0
             ? tableData.filter((deal) => rowSelection[deal.id])
@@ -3,21 +3,10 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { ChevronDown, ChevronRight, Calendar, DollarSign, Users, Building } from "lucide-react"
+import { ChevronDown, ChevronRight, Calendar, DollarSign, Users, Building, Archive } from "lucide-react"
 import { RowContextMenu } from "./row-context-menu"
-
-interface Deal {
-  id: string
-  deal: string
-  activitiesTimeline: string
-  stage: string
-  dealValue: number
-  contacts: string
-  owner: string
-  accounts: string
-  expectedClose: string
-  forecastValue: number
-}
+import { DealHistory } from "./deal-history"
+import { formatContacts, formatMoney, type Deal } from "@/lib/deals"
 
 interface ExpandableRowProps {
   deal: Deal
@@ -49,7 +38,7 @@ export function ExpandableRow({
   isSelected = false,
   onSelect,
 }: ExpandableRowProps) {
-  const [activeTab, setActiveTab] = useState<"activities" | "sub-deals" | "details">("activities")
+  const [activeTab, setActiveTab] = useState<"activities" | "sub-deals" | "details" | "history">("activities")
 
   const handleRowAction = (action: string, dealId: string, value?: string) => {
     if (onRowAction) {
@@ -87,11 +76,11 @@ export function ExpandableRow({
                 <Badge variant="secondary" className="text-xs">
                   {deal.stage}
                 </Badge>
-                <span className="text-sm text-muted-foreground">${deal.dealValue.toLocaleString()}</span>
+                <span className="text-sm text-muted-foreground">{formatMoney(deal.dealValue)}</span>
               </div>
               <div className="flex items-center gap-2 text-xs text-muted-foreground">
                 <Users className="h-3 w-3" />
-                <span>{deal.contacts.split(", ").length} contacts</span>
+                <span>{deal.contacts.length} contacts</span>
                 <Calendar className="h-3 w-3 ml-2" />
                 <span>{deal.expectedClose}</span>
               </div>
@@ -131,6 +120,14 @@ export function ExpandableRow({
                   >
                     Details
                   </Button>
+                  <Button
+                    variant={activeTab === "history" ? "default" : "ghost"}
+                    size="sm"
+                    className="h-8 px-3 rounded-b-none"
+                    onClick={() => setActiveTab("history")}
+                  >
+                    History
+                  </Button>
                 </div>
 
                 {/* Tab Content */}
@@ -200,14 +197,17 @@ export function ExpandableRow({
                           <Users className="h-4 w-4 text-muted-foreground" />
                           <span className="text-sm font-medium">Contacts</span>
                         </div>
-                        <p className="text-sm text-muted-foreground pl-6">{deal.contacts}</p>
+                        <p className="text-sm text-muted-foreground pl-6">{formatContacts(deal.contacts)}</p>
                       </div>
                       <div className="space-y-2">
                         <div className="flex items-center gap-2">
                           <DollarSign className="h-4 w-4 text-muted-foreground" />
                           <span className="text-sm font-medium">Forecast Value</span>
                         </div>
-                        <p className="text-sm text-muted-foreground pl-6">${deal.forecastValue.toLocaleString()}</p>
+                        <p className="text-sm text-muted-foreground pl-6">
+                          {formatMoney(deal.forecastValue)}
+                          {deal.forecastOverride && <span className="ml-2 text-xs text-amber-600">(set by hand)</span>}
+                        </p>
                       </div>
                       <div className="space-y-2">
                         <div className="flex items-center gap-2">
@@ -216,9 +216,27 @@ export function ExpandableRow({
                         </div>
                         <p className="text-sm text-muted-foreground pl-6">{deal.expectedClose}</p>
                       </div>
+                      {deal.archivedAt && (
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-2">
+                            <Archive className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm font-medium">Archived</span>
+                          </div>
+                          <p className="text-sm text-muted-foreground pl-6">
+                            {new Date(deal.archivedAt).toLocaleString()}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
+
+                {activeTab === "history" && (
+                  <div className="space-y-3">
+                    <h4 className="font-medium text-sm">Change History</h4>
+                    <DealHistory deal={deal} />
+                  </div>
+                )}
               </div>
             </div>
           </td>
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileSpreadsheet } from "lucide-react";
+import type { ExportFormat, NumberFormat } from "@/lib/deals-export";
+
+export type ExportScope = "view" | "selected";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  // CSV only; spreadsheets always get numeric cells
+  numbers: NumberFormat;
+}
+
+interface ExportMenuProps {
+  // Deals matching the current view's filters, across every page
+  rowCount: number;
+  selectedCount: number;
+  onExport: (options: ExportOptions) => void;
+}
+
+// Keeps the menu open while options are picked
+const keepOpen = (event: Event) => event.preventDefault();
+
+export function ExportMenu({
+  rowCount,
+  selectedCount,
+  onExport,
+}: ExportMenuProps) {
+  const [scope, setScope] = useState<ExportScope>("view");
+  const [numbers, setNumbers] = useState<NumberFormat>("formatted");
+  // Fall back to the whole view once the selection is cleared
+  const effectiveScope = selectedCount > 0 ? scope : "view";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-56" align="end">
+        <DropdownMenuLabel>Rows</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={effectiveScope}
+          onValueChange={(value) => setScope(value as ExportScope)}
+        >
+          <DropdownMenuRadioItem value="view" onSelect={keepOpen}>
+            All {rowCount} in view
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem
+            value="selected"
+            disabled={selectedCount === 0}
+            onSelect={keepOpen}
+          >
+            {selectedCount} selected
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>CSV amounts</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={numbers}
+          onValueChange={(value) => setNumbers(value as NumberFormat)}
+        >
+          <DropdownMenuRadioItem value="formatted" onSelect={keepOpen}>
+            Formatted currency
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="raw" onSelect={keepOpen}>
+            Raw numbers
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onSelect={() =>
+            onExport({ format: "csv", scope: effectiveScope, numbers })
+          }
+        >
+          <Download className="h-4 w-4" />
+          Download CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() =>
+            onExport({ format: "xlsx", scope: effectiveScope, numbers })
+          }
+        >
+          <FileSpreadsheet className="h-4 w-4" />
+          Download Excel
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
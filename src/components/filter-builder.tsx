@@ -0,0 +1,421 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import {
+  createFilterCondition,
+  createFilterGroup,
+  FILTER_FIELDS,
+  FILTER_OPERATORS,
+  getFieldOptions,
+  getOperandKind,
+  getOperators,
+  type FilterCondition,
+  type FilterField,
+  type FilterGroup,
+  type FilterNode,
+  type FilterOperator,
+  type FilterValue,
+} from "@/lib/deal-filters";
+
+// Groups can nest this many levels below the top-level group
+const MAX_GROUP_DEPTH = 2;
+
+interface FilterBuilderProps {
+  value: FilterGroup;
+  onChange: (group: FilterGroup) => void;
+}
+
+export function FilterBuilder({ value, onChange }: FilterBuilderProps) {
+  return <FilterGroupEditor group={value} depth={0} onChange={onChange} />;
+}
+
+// Text input that only reports its value on blur or Enter, so typing a
+// value doesn't refilter (and re-query) on every keystroke
+function CommitInput({
+  value,
+  onCommit,
+  ...props
+}: Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: string;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <Input
+      {...props}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onCommit(draft);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" && draft !== value) onCommit(draft);
+      }}
+    />
+  );
+}
+
+function FilterGroupEditor({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: FilterGroup;
+  depth: number;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateChild = (index: number, child: FilterNode) => {
+    onChange({
+      ...group,
+      children: group.children.map((existing, i) =>
+        i === index ? child : existing
+      ),
+    });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({
+      ...group,
+      children: group.children.filter((_, i) => i !== index),
+    });
+  };
+
+  const addCondition = () => {
+    onChange({
+      ...group,
+      children: [...group.children, createFilterCondition("stage")],
+    });
+  };
+
+  const addGroup = () => {
+    // A nested group usually wants the other combinator, e.g. A and (B or C)
+    const combinator = group.combinator === "and" ? "or" : "and";
+    onChange({
+      ...group,
+      children: [
+        ...group.children,
+        createFilterGroup(combinator, [createFilterCondition("stage")]),
+      ],
+    });
+  };
+
+  return (
+    <div
+      className={
+        depth > 0 ? "flex-1 space-y-2 rounded-md border bg-muted/30 p-2" : "space-y-2"
+      }
+    >
+      {group.children.length === 0 && (
+        <p className="text-sm text-muted-foreground">No filter conditions</p>
+      )}
+
+      {group.children.map((child, index) => (
+        <div key={child.id} className="flex items-start gap-2">
+          <div className="w-16 shrink-0 pt-1.5 text-xs text-muted-foreground">
+            {index === 0 ? (
+              "Where"
+            ) : index === 1 ? (
+              <Select
+                value={group.combinator}
+                onValueChange={(combinator) =>
+                  onChange({
+                    ...group,
+                    combinator: combinator === "or" ? "or" : "and",
+                  })
+                }
+              >
+                <SelectTrigger className="h-7 px-2 text-xs" aria-label="Combine with">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="and">and</SelectItem>
+                  <SelectItem value="or">or</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              group.combinator
+            )}
+          </div>
+          {child.type === "group" ? (
+            <FilterGroupEditor
+              group={child}
+              depth={depth + 1}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <FilterConditionEditor
+              condition={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={addCondition}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={addGroup}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add group
+          </Button>
+        )}
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 px-2 text-xs text-muted-foreground"
+            onClick={onRemove}
+          >
+            Remove group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FilterConditionEditor({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: FilterCondition;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}) {
+  const changeField = (field: FilterField) => {
+    onChange({ ...createFilterCondition(field), id: condition.id });
+  };
+
+  const changeOperator = (operator: FilterOperator) => {
+    // Keep the operand when the new operator takes the same kind of value
+    const keepValue =
+      getOperandKind(operator) === getOperandKind(condition.operator);
+    onChange({
+      ...condition,
+      operator,
+      value: keepValue ? condition.value : undefined,
+    });
+  };
+
+  return (
+    <div className="flex flex-1 flex-wrap items-center gap-2">
+      <Select
+        value={condition.field}
+        onValueChange={(field) => changeField(field as FilterField)}
+      >
+        <SelectTrigger className="h-8 w-36" aria-label="Field">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FILTER_FIELDS) as FilterField[]).map((field) => (
+            <SelectItem key={field} value={field}>
+              {FILTER_FIELDS[field].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={condition.operator}
+        onValueChange={(operator) => changeOperator(operator as FilterOperator)}
+      >
+        <SelectTrigger className="h-8 w-36" aria-label="Operator">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {getOperators(condition.field).map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {FILTER_OPERATORS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <FilterValueInput
+        condition={condition}
+        onChange={(value) => onChange({ ...condition, value })}
+      />
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="ml-auto h-8 w-8 p-0"
+        onClick={onRemove}
+        aria-label="Remove condition"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function FilterValueInput({
+  condition,
+  onChange,
+}: {
+  condition: FilterCondition;
+  onChange: (value: FilterValue | undefined) => void;
+}) {
+  const { field, operator, value } = condition;
+  const type = FILTER_FIELDS[field].type;
+  const options = getFieldOptions(field);
+  const inputType =
+    type === "number" || operator === "withinNextDays"
+      ? "number"
+      : type === "date"
+        ? "date"
+        : "text";
+
+  // Numbers are stored as numbers once they parse; anything else as typed
+  const toOperand = (text: string): string | number =>
+    inputType === "number" && text.trim() !== "" && Number.isFinite(Number(text))
+      ? Number(text)
+      : text;
+
+  switch (getOperandKind(operator)) {
+    case "none":
+      return null;
+
+    case "list": {
+      const selected = Array.isArray(value) ? value.map(String) : [];
+      if (options) {
+        const toggle = (option: string) =>
+          onChange(
+            selected.includes(option)
+              ? selected.filter((item) => item !== option)
+              : [...selected, option]
+          );
+        return (
+          <div className="flex flex-wrap gap-1">
+            {options.map((option) => (
+              <Badge
+                key={option}
+                variant={selected.includes(option) ? "default" : "outline"}
+                className="cursor-pointer text-xs"
+                onClick={() => toggle(option)}
+              >
+                {option}
+              </Badge>
+            ))}
+          </div>
+        );
+      }
+      return (
+        <CommitInput
+          className="h-8 w-48"
+          placeholder="Values, comma separated"
+          value={selected.join(", ")}
+          onCommit={(text) =>
+            onChange(
+              text
+                .split(",")
+                .map((item) => item.trim())
+                .filter(Boolean)
+            )
+          }
+        />
+      );
+    }
+
+    case "range": {
+      const [from, to] = Array.isArray(value) ? value.map(String) : ["", ""];
+      const commit = (nextFrom: string, nextTo: string) => {
+        const bounds = [toOperand(nextFrom), toOperand(nextTo)];
+        onChange(
+          bounds.every((bound) => typeof bound === "number")
+            ? (bounds as [number, number])
+            : [nextFrom, nextTo]
+        );
+      };
+      return (
+        <div className="flex items-center gap-1">
+          <CommitInput
+            type={inputType}
+            className="h-8 w-32"
+            aria-label="From"
+            value={from}
+            onCommit={(text) => commit(text, to)}
+          />
+          <span className="text-xs text-muted-foreground">and</span>
+          <CommitInput
+            type={inputType}
+            className="h-8 w-32"
+            aria-label="To"
+            value={to}
+            onCommit={(text) => commit(from, text)}
+          />
+        </div>
+      );
+    }
+
+    default: {
+      const current = value === undefined ? "" : String(value);
+      if (options && (operator === "is" || operator === "isNot")) {
+        return (
+          <Select value={current} onValueChange={onChange}>
+            <SelectTrigger className="h-8 w-40" aria-label="Value">
+              <SelectValue placeholder="Choose..." />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      return (
+        <div className="flex items-center gap-1">
+          <CommitInput
+            type={inputType}
+            className="h-8 w-40"
+            aria-label="Value"
+            min={operator === "withinNextDays" ? 0 : undefined}
+            value={current}
+            onCommit={(text) => onChange(text === "" ? undefined : toOperand(text))}
+          />
+          {operator === "withinNextDays" && (
+            <span className="text-xs text-muted-foreground">days</span>
+          )}
+        </div>
+      );
+    }
+  }
+}
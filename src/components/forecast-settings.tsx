@@ -0,0 +1,101 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Percent } from "lucide-react";
+import { STAGES, type Stage } from "@/lib/deals";
+import type { StageProbabilities } from "@/lib/forecast";
+import { StatusChip } from "./status-chips";
+
+interface ForecastSettingsProps {
+  probabilities: StageProbabilities;
+  // Resolves to false when the probabilities were rejected
+  onSave: (probabilities: StageProbabilities) => Promise<boolean>;
+}
+
+export function ForecastSettings({
+  probabilities,
+  onSave,
+}: ForecastSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Record<Stage, string>>(() =>
+    toDraft(probabilities)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(toDraft(probabilities));
+  }, [open, probabilities]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const next = Object.fromEntries(
+      STAGES.map((stage) => [stage, Number(draft[stage])])
+    ) as StageProbabilities;
+    const saved = await onSave(next);
+    setIsSaving(false);
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Percent className="h-4 w-4 mr-2" />
+          Forecast
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="end">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <h4 className="text-sm font-medium">Stage probabilities</h4>
+            <p className="text-xs text-muted-foreground">
+              Forecasts are the deal value times its stage&apos;s chance of
+              closing, unless set by hand.
+            </p>
+          </div>
+          {STAGES.map((stage) => (
+            <label
+              key={stage}
+              className="flex items-center justify-between gap-2"
+            >
+              <StatusChip status={stage} variant="outline" />
+              <span className="flex items-center gap-1 text-sm">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  required
+                  className="h-8 w-20 text-right"
+                  aria-label={`${stage} probability`}
+                  value={draft[stage]}
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, [stage]: e.target.value }))
+                  }
+                />
+                %
+              </span>
+            </label>
+          ))}
+          <Button type="submit" size="sm" className="w-full" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save and recalculate"}
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function toDraft(probabilities: StageProbabilities): Record<Stage, string> {
+  return Object.fromEntries(
+    STAGES.map((stage) => [stage, String(probabilities[stage])])
+  ) as Record<Stage, string>;
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Rows } from "lucide-react";
+import {
+  GROUP_FIELDS,
+  MAX_GROUP_LEVELS,
+  type GroupField,
+} from "@/lib/deal-groups";
+
+const NONE = "none";
+
+interface GroupByMenuProps {
+  value: GroupField[];
+  onChange: (groupBy: GroupField[]) => void;
+}
+
+export function GroupByMenu({ value, onChange }: GroupByMenuProps) {
+  const fields = Object.keys(GROUP_FIELDS) as GroupField[];
+
+  const setLevel = (level: number, field: string) => {
+    const next = value.slice(0, level);
+    if (field !== NONE) {
+      next.push(field as GroupField);
+      // Keep the inner level when only the outer one changed
+      const inner = value[level + 1];
+      if (inner && inner !== field) next.push(inner);
+    }
+    onChange(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Rows className="h-4 w-4 mr-2" />
+          {value.length > 0
+            ? `Grouped by ${value.map((field) => GROUP_FIELDS[field]).join(", ")}`
+            : "Group"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <h4 className="text-sm font-medium">Group rows</h4>
+        {Array.from({ length: MAX_GROUP_LEVELS }, (_, level) => {
+          // A level can only be set once the one above it is
+          if (level > value.length) return null;
+          return (
+            <div key={level} className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {level === 0 ? "Group by" : "Then by"}
+              </p>
+              <Select
+                value={value[level] ?? NONE}
+                onValueChange={(field) => setLevel(level, field)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {fields
+                    .filter((field) => !value.slice(0, level).includes(field))
+                    .map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {GROUP_FIELDS[field]}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+}
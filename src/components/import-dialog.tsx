@@ -0,0 +1,391 @@
+"use client";
+
+import type React from "react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatMoney } from "@/lib/deals";
+import {
+  autoMapColumns,
+  getImportTargetLabel,
+  IMPORT_FIELDS,
+  IMPORT_KEYS,
+  IMPORT_MODES,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  REQUIRED_IMPORT_FIELDS,
+  toImportRequest,
+  toImportSheet,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportKey,
+  type ImportMode,
+  type ImportRequest,
+  type ImportResult,
+  type ImportSheet,
+  type ImportTarget,
+} from "@/lib/deals-import";
+import { readXlsxRows } from "@/lib/deals-xlsx";
+
+const IGNORE = "ignore";
+const IMPORT_TARGETS: ImportTarget[] = ["id", ...IMPORT_FIELDS];
+// The preview lists this many rows; the rest are only counted
+const PREVIEW_LIMIT = 200;
+
+type Step = "upload" | "map" | "preview";
+
+interface ImportDialogProps {
+  onImport: (input: ImportRequest) => Promise<ImportResult | null>;
+  // Why the last import failed, if it did
+  error: string | null;
+}
+
+async function readImportFile(file: File): Promise<ImportSheet> {
+  const rows = file.name.toLowerCase().endsWith(".xlsx")
+    ? await readXlsxRows(await file.arrayBuffer())
+    : parseCsv(await file.text());
+  return toImportSheet(rows);
+}
+
+export function ImportDialog({ onImport, error }: ImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [mode, setMode] = useState<ImportMode>("create");
+  const [key, setKey] = useState<ImportKey>("id");
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  const rows = useMemo(
+    () =>
+      sheet && step === "preview"
+        ? validateImportRows(sheet, mapping, mode, key)
+        : [],
+    [sheet, step, mapping, mode, key]
+  );
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+
+  const missingFields =
+    mode === "create"
+      ? REQUIRED_IMPORT_FIELDS.filter((field) => !mapping.includes(field))
+      : [];
+  const isKeyMapped = mode === "create" || mapping.includes(key);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setSheet(null);
+    setMapping([]);
+    setReadError(null);
+    setHasFailed(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const read = await readImportFile(file);
+      if (read.headers.length === 0 || read.rows.length === 0) {
+        setReadError("The file has no rows to import");
+      } else if (read.rows.length > MAX_IMPORT_ROWS) {
+        setReadError(
+          `The file has ${read.rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`
+        );
+      } else {
+        setFileName(file.name);
+        setSheet(read);
+        setMapping(autoMapColumns(read.headers));
+        setStep("map");
+      }
+    } catch {
+      setReadError("The file couldn't be read as CSV or Excel");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Each field takes one column, so picking it moves it off any other
+  const setTarget = (column: number, value: string) => {
+    const target = value === IGNORE ? null : (value as ImportTarget);
+    setMapping((prev) =>
+      prev.map((current, index) => {
+        if (index === column) return target;
+        return target && current === target ? null : current;
+      })
+    );
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const result = await onImport(toImportRequest(rows, mode, key));
+    setIsImporting(false);
+    if (!result) {
+      setHasFailed(true);
+      return;
+    }
+    toast.success(
+      `Imported ${fileName}: ${result.created} created, ${result.updated} updated`
+    );
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import deals</DialogTitle>
+          <DialogDescription>
+            {step === "upload" &&
+              "Choose a CSV or Excel file with a header row."}
+            {step === "map" &&
+              `Match the columns in ${fileName} to deal fields.`}
+            {step === "preview" &&
+              `${validCount} of ${rows.length} rows are ready to import. Rows with errors are skipped.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              aria-label="File to import"
+              disabled={isReading}
+              onChange={handleFile}
+            />
+            {isReading && (
+              <p className="text-sm text-muted-foreground">Reading file...</p>
+            )}
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as ImportMode)}
+              >
+                <SelectTrigger className="h-8 w-72" aria-label="Import mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(IMPORT_MODES) as ImportMode[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {IMPORT_MODES[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {mode === "upsert" && (
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  matched by
+                  <Select
+                    value={key}
+                    onValueChange={(value) => setKey(value as ImportKey)}
+                  >
+                    <SelectTrigger className="h-8 w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(IMPORT_KEYS) as ImportKey[]).map(
+                        (option) => (
+                          <SelectItem key={option} value={option}>
+                            {IMPORT_KEYS[option]}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </label>
+              )}
+            </div>
+
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-muted">
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-3 py-2 font-medium">Column</th>
+                    <th className="px-3 py-2 font-medium">First row</th>
+                    <th className="px-3 py-2 font-medium">Deal field</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.headers.map((header, column) => (
+                    <tr key={column} className="border-t">
+                      <td className="px-3 py-2 font-medium">
+                        {header || `Column ${column + 1}`}
+                      </td>
+                      <td className="max-w-48 truncate px-3 py-2 text-muted-foreground">
+                        {sheet.rows[0]?.cells[column]}
+                      </td>
+                      <td className="px-3 py-1">
+                        <Select
+                          value={mapping[column] ?? IGNORE}
+                          onValueChange={(value) => setTarget(column, value)}
+                        >
+                          <SelectTrigger
+                            className="h-8 w-48"
+                            aria-label={`Field for ${header}`}
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORE}>Don&apos;t import</SelectItem>
+                            {IMPORT_TARGETS.map((target) => (
+                              <SelectItem key={target} value={target}>
+                                {getImportTargetLabel(target)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {missingFields.length > 0 && (
+              <p className="text-sm text-destructive">
+                New deals need a column for{" "}
+                {missingFields.map(getImportTargetLabel).join(", ")}.
+              </p>
+            )}
+            {!isKeyMapped && (
+              <p className="text-sm text-destructive">
+                Map a column to {IMPORT_KEYS[key]} to match existing deals.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="max-h-96 overflow-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted">
+                <tr className="text-left text-muted-foreground">
+                  <th className="px-3 py-2 font-medium">Line</th>
+                  <th className="px-3 py-2 font-medium">Deal</th>
+                  <th className="px-3 py-2 font-medium">Stage</th>
+                  <th className="px-3 py-2 font-medium">Deal Value</th>
+                  <th className="px-3 py-2 font-medium">Expected Close</th>
+                  <th className="px-3 py-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <tr
+                    key={row.line}
+                    className={cn(
+                      "border-t align-top",
+                      row.errors.length > 0 && "bg-destructive/5"
+                    )}
+                  >
+                    <td className="px-3 py-2 tabular-nums">{row.line}</td>
+                    <td className="px-3 py-2">{row.values.deal ?? row.key}</td>
+                    <td className="px-3 py-2">{row.values.stage}</td>
+                    <td className="px-3 py-2 tabular-nums">
+                      {row.values.dealValue && formatMoney(row.values.dealValue)}
+                    </td>
+                    <td className="px-3 py-2">{row.values.expectedClose}</td>
+                    <td className="px-3 py-2">
+                      {row.errors.length === 0 ? (
+                        <Badge variant="secondary">Ready</Badge>
+                      ) : (
+                        <ul className="space-y-1 text-destructive">
+                          {row.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > PREVIEW_LIMIT && (
+              <p className="border-t px-3 py-2 text-sm text-muted-foreground">
+                And {rows.length - PREVIEW_LIMIT} more rows
+              </p>
+            )}
+          </div>
+        )}
+
+        {(readError || (hasFailed && error)) && (
+          <p className="text-sm text-destructive" role="alert">
+            {readError || error}
+          </p>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Choose another file
+              </Button>
+              <Button
+                disabled={missingFields.length > 0 || !isKeyMapped}
+                onClick={() => setStep("preview")}
+              >
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button
+                disabled={validCount === 0 || isImporting}
+                onClick={handleImport}
+              >
+                {isImporting
+                  ? "Importing..."
+                  : `Import ${validCount} ${validCount === 1 ? "row" : "rows"}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
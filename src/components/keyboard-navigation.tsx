@@ -8,6 +8,8 @@ interface KeyboardNavigationProps {
   onEscapeEdit: () => void
   onSelectRow: () => void
   onSelectAll: () => void
+  // Alt+Up/Down jumps to the previous/next group header
+  onJumpGroup?: (direction: "previous" | "next") => void
   disabled?: boolean
   isNavigating?: boolean
 }
@@ -18,6 +20,7 @@ export function KeyboardNavigation({
   onEscapeEdit,
   onSelectRow,
   onSelectAll,
+  onJumpGroup,
   disabled = false,
   isNavigating = false,
 }: KeyboardNavigationProps) {
@@ -36,11 +39,19 @@ export function KeyboardNavigation({
       switch (event.key) {
         case "ArrowUp":
           event.preventDefault()
-          onNavigate("up")
+          if (event.altKey && onJumpGroup) {
+            onJumpGroup("previous")
+          } else {
+            onNavigate("up")
+          }
           break
         case "ArrowDown":
           event.preventDefault()
-          onNavigate("down")
+          if (event.altKey && onJumpGroup) {
+            onJumpGroup("next")
+          } else {
+            onNavigate("down")
+          }
           break
         case "ArrowLeft":
           event.preventDefault()
@@ -72,7 +83,7 @@ export function KeyboardNavigation({
           break
       }
     },
-    [disabled, onNavigate, onEnterEdit, onEscapeEdit, onSelectRow, onSelectAll],
+    [disabled, onNavigate, onEnterEdit, onEscapeEdit, onSelectRow, onSelectAll, onJumpGroup],
   )
 
   useEffect(() => {
@@ -0,0 +1,47 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  CalendarDays,
+  KanbanSquare,
+  Table,
+  type LucideIcon,
+} from "lucide-react";
+
+export type DealsLayout = "table" | "board" | "calendar";
+
+const LAYOUTS: Array<{ id: DealsLayout; label: string; icon: LucideIcon }> = [
+  { id: "table", label: "Table", icon: Table },
+  { id: "board", label: "Board", icon: KanbanSquare },
+  { id: "calendar", label: "Calendar", icon: CalendarDays },
+];
+
+interface LayoutSwitcherProps {
+  value: DealsLayout;
+  onChange: (layout: DealsLayout) => void;
+}
+
+export function LayoutSwitcher({ value, onChange }: LayoutSwitcherProps) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Layout"
+      className="flex items-center rounded-md border p-0.5"
+    >
+      {LAYOUTS.map(({ id, label, icon: Icon }) => (
+        <Button
+          key={id}
+          role="radio"
+          aria-checked={value === id}
+          variant={value === id ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 px-2"
+          onClick={() => onChange(id)}
+        >
+          <Icon className="h-4 w-4 mr-1" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
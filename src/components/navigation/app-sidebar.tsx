@@ -1,23 +1,21 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
 import {
   IconCamera,
   IconChartBar,
   IconCurrencyDollar,
-  IconDashboard,
   IconDatabase,
   IconFileAi,
   IconFileDescription,
   IconFileWord,
-  IconFolder,
   IconHelp,
   IconInnerShadowTop,
-  IconListDetails,
   IconReport,
   IconSearch,
   IconSettings,
-  IconUsers,
 } from "@tabler/icons-react";
 
 // import { NavDocuments } from "@/components/nav-documents";
@@ -32,6 +30,9 @@ import {
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
 } from "@/components/ui/sidebar";
 
 const data = {
@@ -40,33 +41,6 @@ const data = {
     email: "m@example.com",
     avatar: "/avatars/shadcn.jpg",
   },
-  navMain: [
-    {
-      title: "Dashboard",
-      url: "#",
-      icon: IconDashboard,
-    },
-    {
-      title: "Lifecycle",
-      url: "#",
-      icon: IconListDetails,
-    },
-    {
-      title: "Analytics",
-      url: "#",
-      icon: IconChartBar,
-    },
-    {
-      title: "Projects",
-      url: "#",
-      icon: IconFolder,
-    },
-    {
-      title: "Team",
-      url: "#",
-      icon: IconUsers,
-    },
-  ],
   navClouds: [
     {
       title: "Capture",
@@ -76,11 +50,11 @@ const data = {
       items: [
         {
           title: "Active Proposals",
-          url: "#",
+          url: "/",
         },
         {
           title: "Archived",
-          url: "#",
+          url: "/archived",
         },
       ],
     },
@@ -91,11 +65,11 @@ const data = {
       items: [
         {
           title: "Active Proposals",
-          url: "#",
+          url: "/",
         },
         {
           title: "Archived",
-          url: "#",
+          url: "/archived",
         },
       ],
     },
@@ -106,11 +80,11 @@ const data = {
       items: [
         {
           title: "Active Proposals",
-          url: "#",
+          url: "/",
         },
         {
           title: "Archived",
-          url: "#",
+          url: "/archived",
         },
       ],
     },
@@ -151,15 +125,47 @@ const data = {
   ],
 };
 
+const dealViews = [
+  { title: "Active", url: "/" },
+  { title: "Archived", url: "/archived" },
+  { title: "Snapshots", url: "/snapshots" },
+  { title: "Backup", url: "/workspace" },
+];
+
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
+  const pathname = usePathname();
+
   return (
     <Sidebar collapsible="offcanvas" {...props}>
       <SidebarHeader>
         <SidebarMenu>
           <SidebarMenuItem>
-            <SidebarMenuButton tooltip="Deals">
-              <IconCurrencyDollar />
-              <span>Deals</span>
+            <SidebarMenuButton asChild tooltip="Deals">
+              <Link href="/">
+                <IconCurrencyDollar />
+                <span>Deals</span>
+              </Link>
+            </SidebarMenuButton>
+            <SidebarMenuSub>
+              {dealViews.map((view) => (
+                <SidebarMenuSubItem key={view.url}>
+                  <SidebarMenuSubButton asChild isActive={pathname === view.url}>
+                    <Link href={view.url}>{view.title}</Link>
+                  </SidebarMenuSubButton>
+                </SidebarMenuSubItem>
+              ))}
+            </SidebarMenuSub>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              asChild
+              tooltip="Analytics"
+              isActive={pathname === "/analytics"}
+            >
+              <Link href="/analytics">
+                <IconChartBar />
+                <span>Analytics</span>
+              </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
         </SidebarMenu>
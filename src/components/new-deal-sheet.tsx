@@ -0,0 +1,384 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus } from "lucide-react";
+import {
+  contactSchema,
+  CURRENCIES,
+  currencySchema,
+  dealInputSchema,
+  DEFAULT_CURRENCY,
+  isIsoDate,
+  parseMoney,
+  stageSchema,
+  type CurrencyCode,
+  type DealInput,
+} from "@/lib/deals";
+import { StageSelector } from "./cell-editors/stage-selector";
+import { OwnerSelector, OWNERS } from "./cell-editors/owner-selector";
+import { DatePicker } from "./cell-editors/date-picker";
+import { ContactList } from "./cell-editors/contact-list";
+
+// Amounts are typed as text, e.g. "125,000", and parsed on submit
+const amountSchema = z
+  .string()
+  .refine((text) => parseMoney(text) !== null, "Enter an amount of 0 or more");
+
+// What the form edits. The forecast is only asked for when it's set by
+// hand; otherwise the server weights the deal value by stage.
+const dealFormSchema = z
+  .object({
+    deal: z.string().trim().min(1, "Deal name is required"),
+    stage: stageSchema,
+    owner: z.string().min(1, "Pick an owner"),
+    accounts: z.string().trim(),
+    contacts: z.array(contactSchema),
+    expectedClose: z.string().refine(isIsoDate, "Pick the expected close date"),
+    currency: currencySchema,
+    dealValue: amountSchema,
+    forecastOverride: z.boolean(),
+    forecastValue: z.string(),
+    activitiesTimeline: z.string(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.forecastOverride && parseMoney(values.forecastValue) === null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["forecastValue"],
+        message: "Enter an amount of 0 or more",
+      });
+    }
+  });
+
+type DealFormValues = z.infer<typeof dealFormSchema>;
+
+const DEFAULT_VALUES: DealFormValues = {
+  deal: "",
+  stage: "Discovery",
+  owner: OWNERS[0].name,
+  accounts: "",
+  contacts: [],
+  expectedClose: "",
+  currency: DEFAULT_CURRENCY,
+  dealValue: "",
+  forecastOverride: false,
+  forecastValue: "",
+  activitiesTimeline: "",
+};
+
+function toDealInput(values: DealFormValues): DealInput {
+  const { currency, forecastOverride } = values;
+  return dealInputSchema.parse({
+    deal: values.deal,
+    stage: values.stage,
+    owner: values.owner,
+    accounts: values.accounts,
+    contacts: values.contacts,
+    expectedClose: values.expectedClose,
+    activitiesTimeline: values.activitiesTimeline,
+    dealValue: parseMoney(values.dealValue, currency),
+    forecastOverride,
+    forecastValue: forecastOverride
+      ? parseMoney(values.forecastValue, currency)
+      : { amount: 0, currency },
+  });
+}
+
+interface NewDealSheetProps {
+  // Resolves to whether the deal was created
+  onCreate: (input: DealInput) => Promise<boolean>;
+  // Why the last change failed, if it did
+  error: string | null;
+}
+
+export function NewDealSheet({ onCreate, error }: NewDealSheetProps) {
+  const [open, setOpen] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+  const form = useForm<DealFormValues>({
+    resolver: zodResolver(dealFormSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+  const forecastOverride = form.watch("forecastOverride");
+  const currency = form.watch("currency");
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      form.reset(DEFAULT_VALUES);
+      setHasFailed(false);
+    }
+  };
+
+  const handleSubmit = async (values: DealFormValues) => {
+    const created = await onCreate(toDealInput(values));
+    if (!created) {
+      setHasFailed(true);
+      return;
+    }
+    handleOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          New deal
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>New deal</SheetTitle>
+          <SheetDescription>
+            The deal is added at the top of the pipeline.
+          </SheetDescription>
+        </SheetHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4 px-4"
+            noValidate
+          >
+            <FormField
+              control={form.control}
+              name="deal"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Deal</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enterprise license" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="stage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stage</FormLabel>
+                    <FormControl>
+                      <div className="rounded-md border p-1">
+                        <StageSelector
+                          value={field.value}
+                          onChange={field.onChange}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="owner"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Owner</FormLabel>
+                    <FormControl>
+                      <div className="rounded-md border p-1">
+                        <OwnerSelector
+                          value={field.value}
+                          onChange={field.onChange}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="dealValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Deal Value</FormLabel>
+                  <div className="flex gap-2">
+                    <Select
+                      value={currency}
+                      onValueChange={(value) =>
+                        form.setValue("currency", value as CurrencyCode)
+                      }
+                    >
+                      <SelectTrigger className="w-24" aria-label="Currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="0" {...field} />
+                    </FormControl>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="forecastOverride"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked === true)
+                      }
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">
+                    Set the forecast by hand
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+            {forecastOverride ? (
+              <FormField
+                control={form.control}
+                name="forecastValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Forecast Value ({currency})</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The forecast follows the stage probabilities.
+              </p>
+            )}
+
+            <FormField
+              control={form.control}
+              name="expectedClose"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expected Close</FormLabel>
+                  <FormControl>
+                    <div className="rounded-md border">
+                      <DatePicker
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="accounts"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Accounts</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Acme Corp" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contacts"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contacts</FormLabel>
+                  <FormControl>
+                    <div className="rounded-md border p-1">
+                      <ContactList
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="activitiesTimeline"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Activities Timeline</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Notes on calls, meetings and next steps
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {hasFailed && error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+
+            <SheetFooter className="px-0">
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Creating..." : "Create deal"}
+              </Button>
+            </SheetFooter>
+          </form>
+        </Form>
+      </SheetContent>
+    </Sheet>
+  );
+}
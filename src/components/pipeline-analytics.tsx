@@ -0,0 +1,364 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Funnel,
+  FunnelChart,
+  LabelList,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { CategoricalChartState } from "recharts/types/chart/types";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Table } from "lucide-react";
+import { isClosedStage, STAGES } from "@/lib/deals";
+import { DEFAULT_FILTERS, type FilterState } from "@/lib/deals-query";
+import { setColumnFilter, type FilterGroup } from "@/lib/deal-filters";
+import {
+  formatMonth,
+  FUNNEL_STAGES,
+  getMonthRange,
+  type FunnelStep,
+} from "@/lib/deal-analytics";
+import {
+  decodeTableState,
+  DEFAULT_TABLE_URL_STATE,
+  encodeTableState,
+} from "@/lib/table-url-state";
+import { loadStoredFilters, storeFilters } from "@/lib/table-ui-storage";
+import { useDealsAnalytics } from "@/hooks/use-deals-analytics";
+import { TableToolbar } from "./table-toolbar";
+import { getStageColors } from "./status-chips";
+
+const funnelChartConfig = {
+  count: { label: "Deals" },
+} satisfies ChartConfig;
+
+const ownerChartConfig = {
+  value: { label: "Pipeline value", color: "var(--chart-1)" },
+  forecast: { label: "Weighted forecast", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const timelineChartConfig = {
+  value: { label: "Closing value", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const winRateChartConfig = {
+  winRate: { label: "Win rate (%)", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const compactNumber = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+
+// Deals table URL showing the given filters
+function getDealsUrl(filters: FilterState): string {
+  const params = encodeTableState({ ...DEFAULT_TABLE_URL_STATE, filters });
+  return params.toString() ? `/?${params}` : "/";
+}
+
+// e.g. "Proposal: 4 deals (80%)", with the share of the previous step
+function formatFunnelStep(step: FunnelStep): string {
+  const deals = `${step.count} ${step.count === 1 ? "deal" : "deals"}`;
+  return step.conversion === null
+    ? `${step.stage}: ${deals}`
+    : `${step.stage}: ${deals} (${Math.round(step.conversion)}%)`;
+}
+
+// The clicked bar or point's data, from a chart-level click
+function getClickedItem<T>(state: CategoricalChartState | null): T | null {
+  return (state?.activePayload?.[0]?.payload as T | undefined) ?? null;
+}
+
+export function PipelineAnalytics() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Same filters as the deals table: from a link if there is one, or else
+  // whatever the table last used
+  const [filters, setFilters] = useState<FilterState>(
+    () =>
+      decodeTableState(new URLSearchParams(searchParams.toString()))
+        ?.filters ??
+      loadStoredFilters() ??
+      DEFAULT_FILTERS
+  );
+  const { analytics, isLoading, error } = useDealsAnalytics(filters);
+
+  useEffect(() => {
+    const params = encodeTableState({ ...DEFAULT_TABLE_URL_STATE, filters });
+    router.replace(params.toString() ? `?${params}` : "?", { scroll: false });
+    storeFilters(filters);
+  }, [filters, router]);
+
+  // Opens the deals table narrowed down to what was clicked
+  const drillDown = (narrow: (where: FilterGroup) => FilterGroup) => {
+    router.push(getDealsUrl({ ...filters, where: narrow(filters.where) }));
+  };
+
+  const drillIntoMonth = (month: string, closedOnly = false) =>
+    drillDown((where) => {
+      const narrowed = setColumnFilter(
+        where,
+        "expectedClose",
+        getMonthRange(month)
+      );
+      return closedOnly
+        ? setColumnFilter(narrowed, "stage", STAGES.filter(isClosedStage))
+        : narrowed;
+    });
+
+  const totalDeals =
+    analytics?.stages.reduce((sum, stage) => sum + stage.count, 0) ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex-1">
+          <TableToolbar filters={filters} onFiltersChange={setFilters} />
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={getDealsUrl(filters)}>
+            <Table className="h-4 w-4 mr-2" />
+            View {totalDeals} {totalDeals === 1 ? "deal" : "deals"}
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {!analytics ? (
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? "Loading analytics..." : "No analytics to show"}
+        </p>
+      ) : (
+        <div
+          className={`grid gap-4 md:grid-cols-2 ${isLoading ? "opacity-60" : ""}`}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Pipeline funnel</CardTitle>
+              <CardDescription>
+                Deals that reached each stage, and the share of the previous
+                stage&apos;s deals that got there. Lost deals are left out.
+                Click a stage to see its deals.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer
+                config={funnelChartConfig}
+                className="h-64 w-full"
+              >
+                <FunnelChart margin={{ right: 176 }}>
+                  <ChartTooltip
+                    content={<ChartTooltipContent nameKey="stage" />}
+                  />
+                  <Funnel
+                    data={analytics.funnel.map((step) => ({
+                      ...step,
+                      label: formatFunnelStep(step),
+                    }))}
+                    dataKey="count"
+                    nameKey="stage"
+                    lastShapeType="rectangle"
+                    className="cursor-pointer"
+                    onClick={(item) => {
+                      // The step counts deals at this stage or past it
+                      const { stage } = (item as { payload: FunnelStep })
+                        .payload;
+                      const reached = FUNNEL_STAGES.slice(
+                        FUNNEL_STAGES.indexOf(stage)
+                      );
+                      drillDown((where) =>
+                        setColumnFilter(where, "stage", reached)
+                      );
+                    }}
+                  >
+                    {analytics.funnel.map((step) => (
+                      <Cell
+                        key={step.stage}
+                        fill={getStageColors(step.stage).fill}
+                      />
+                    ))}
+                    <LabelList
+                      dataKey="label"
+                      position="right"
+                      className="fill-foreground text-xs"
+                      stroke="none"
+                    />
+                  </Funnel>
+                </FunnelChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Value by owner</CardTitle>
+              <CardDescription>
+                Pipeline and weighted forecast per owner.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={ownerChartConfig} className="h-64 w-full">
+                <BarChart
+                  data={analytics.owners}
+                  onClick={(state) => {
+                    const item = getClickedItem<{ owner: string }>(state);
+                    if (item) {
+                      drillDown((where) =>
+                        setColumnFilter(where, "owner", [item.owner])
+                      );
+                    }
+                  }}
+                >
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="owner" tickLine={false} axisLine={false} />
+                  <YAxis tickFormatter={compactNumber} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar
+                    dataKey="value"
+                    fill="var(--color-value)"
+                    radius={4}
+                    className="cursor-pointer"
+                  />
+                  <Bar
+                    dataKey="forecast"
+                    fill="var(--color-forecast)"
+                    radius={4}
+                    className="cursor-pointer"
+                  />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Close-date timeline</CardTitle>
+              <CardDescription>
+                Deal value by expected close month.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer
+                config={timelineChartConfig}
+                className="h-64 w-full"
+              >
+                <BarChart
+                  data={analytics.months}
+                  onClick={(state) => {
+                    const item = getClickedItem<{ month: string }>(state);
+                    if (item) drillIntoMonth(item.month);
+                  }}
+                >
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="month"
+                    tickFormatter={formatMonth}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis tickFormatter={compactNumber} width={48} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(month) => formatMonth(String(month))}
+                      />
+                    }
+                  />
+                  <Bar
+                    dataKey="value"
+                    fill="var(--color-value)"
+                    radius={4}
+                    className="cursor-pointer"
+                  />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Win rate over time</CardTitle>
+              <CardDescription>
+                Share of closed deals that were won, by close month.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer
+                config={winRateChartConfig}
+                className="h-64 w-full"
+              >
+                <LineChart
+                  data={analytics.months}
+                  onClick={(state) => {
+                    const item = getClickedItem<{ month: string }>(state);
+                    if (item) drillIntoMonth(item.month, true);
+                  }}
+                >
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="month"
+                    tickFormatter={formatMonth}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    domain={[0, 100]}
+                    tickFormatter={(value) => `${value}%`}
+                    width={48}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(month) => formatMonth(String(month))}
+                      />
+                    }
+                  />
+                  {/* Months without closed deals leave a gap */}
+                  <Line
+                    dataKey="winRate"
+                    stroke="var(--color-winRate)"
+                    strokeWidth={2}
+                    dot={{ r: 4 }}
+                    className="cursor-pointer"
+                  />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Printer } from "lucide-react";
+import { formatDealField, formatTotal } from "@/lib/deals";
+import { DEFAULT_FILTERS, hasActiveFilters } from "@/lib/deals-query";
+import { describeFilterGroup } from "@/lib/deal-filters";
+import { analyzeDeals } from "@/lib/deal-analytics";
+import { isExportableColumn, type ExportColumn } from "@/lib/deals-export";
+import {
+  decodeTableState,
+  DEFAULT_TABLE_URL_STATE,
+  encodeTableState,
+} from "@/lib/table-url-state";
+import {
+  loadStoredColumns,
+  loadStoredFilters,
+  loadStoredSorts,
+} from "@/lib/table-ui-storage";
+import { useDealsReport } from "@/hooks/use-deals-report";
+import { StatusChip } from "./status-chips";
+import { TotalsBar } from "./totals-bar";
+
+// The table's default columns, for browsers that haven't customized them
+const DEFAULT_REPORT_COLUMNS: ExportColumn[] = [
+  { field: "deal", header: "Deal" },
+  { field: "stage", header: "Stage" },
+  { field: "dealValue", header: "Deal Value" },
+  { field: "owner", header: "Owner" },
+  { field: "expectedClose", header: "Expected Close" },
+];
+
+const MONEY_COLUMNS = ["dealValue", "forecastValue"];
+
+// The deals table's visible columns, in its order and with its headers
+function getReportColumns(): ExportColumn[] {
+  const columns = (loadStoredColumns() ?? [])
+    .filter((col) => col.visible && isExportableColumn(col.id))
+    .map((col) => ({
+      field: col.id as ExportColumn["field"],
+      header: col.label,
+    }));
+  return columns.length > 0 ? columns : DEFAULT_REPORT_COLUMNS;
+}
+
+function formatSort(
+  columns: ExportColumn[],
+  sort: { column: string; direction: "asc" | "desc" }
+): string {
+  const header =
+    columns.find((col) => col.field === sort.column)?.header ?? sort.column;
+  return `${header} ${sort.direction === "asc" ? "ascending" : "descending"}`;
+}
+
+// A print-ready document of the deals table's current view: the active
+// deals matching its filters, in its order, with its columns
+export function PipelineReport() {
+  const searchParams = useSearchParams();
+  // Same view as the deals table: from the link that opened the report, or
+  // else whatever the table last used
+  const [view] = useState(() => {
+    const fromUrl = decodeTableState(
+      new URLSearchParams(searchParams.toString())
+    );
+    return {
+      filters: fromUrl?.filters ?? loadStoredFilters() ?? DEFAULT_FILTERS,
+      sorts: fromUrl?.sorts.length ? fromUrl.sorts : loadStoredSorts() ?? [],
+      columns: getReportColumns(),
+      generatedAt: new Date(),
+    };
+  });
+  const { filters, sorts, columns, generatedAt } = view;
+  const { deals, summary, isLoading, error } = useDealsReport(filters, sorts);
+
+  const stages = useMemo(() => analyzeDeals(deals).stages, [deals]);
+  const dealsUrl = useMemo(() => {
+    const params = encodeTableState({
+      ...DEFAULT_TABLE_URL_STATE,
+      filters,
+      sorts,
+    });
+    return params.toString() ? `/?${params}` : "/";
+  }, [filters, sorts]);
+
+  const currency = summary?.currency ?? null;
+  const totalValue = summary?.totalValue ?? 0;
+  const conditions = describeFilterGroup(filters.where);
+
+  return (
+    <article className="space-y-6 print:space-y-4 print:text-xs">
+      <div className="flex items-center justify-between gap-2 print:hidden">
+        <Button variant="outline" size="sm" asChild>
+          <Link href={dealsUrl}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to deals
+          </Link>
+        </Button>
+        <Button
+          size="sm"
+          disabled={isLoading || !!error}
+          onClick={() => window.print()}
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          Print or save as PDF
+        </Button>
+      </div>
+
+      <header className="border-b pb-4">
+        <h1 className="text-3xl font-bold text-foreground print:text-2xl">
+          Pipeline Report
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Generated{" "}
+          {generatedAt.toLocaleString("en-US", {
+            dateStyle: "long",
+            timeStyle: "short",
+          })}
+          {!isLoading && ` · ${deals.length} active deals`}
+        </p>
+        <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">Filters</dt>
+          <dd>
+            {hasActiveFilters(filters)
+              ? [
+                  filters.search && `Search "${filters.search}"`,
+                  conditions,
+                ]
+                  .filter(Boolean)
+                  .join("; ")
+              : "None (all active deals)"}
+          </dd>
+          <dt className="text-muted-foreground">Sorted by</dt>
+          <dd>
+            {sorts.length > 0
+              ? sorts.map((sort) => formatSort(columns, sort)).join(", ")
+              : "Default order"}
+          </dd>
+        </dl>
+      </header>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading || !summary ? (
+        <p className="text-sm text-muted-foreground">
+          {error ? "" : "Loading deals..."}
+        </p>
+      ) : (
+        <>
+          <section className="break-inside-avoid">
+            <h2 className="mb-2 text-lg font-semibold">Summary</h2>
+            <TotalsBar
+              summary={summary}
+              className="rounded-md border print:p-2"
+            />
+          </section>
+
+          <section className="break-inside-avoid">
+            <h2 className="mb-2 text-lg font-semibold">Stage breakdown</h2>
+            <table className="w-full text-sm print:text-xs">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 font-medium">Stage</th>
+                  <th className="py-2 text-right font-medium">Deals</th>
+                  <th className="py-2 text-right font-medium">Total Value</th>
+                  <th className="py-2 text-right font-medium">
+                    Share of value
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {stages.map((row) => (
+                  <tr key={row.stage} className="border-b">
+                    <td className="py-1.5">
+                      <StatusChip status={row.stage} />
+                    </td>
+                    <td className="py-1.5 text-right tabular-nums">
+                      {row.count}
+                    </td>
+                    <td className="py-1.5 text-right tabular-nums">
+                      {formatTotal(row.value, currency)}
+                    </td>
+                    <td className="py-1.5 text-right tabular-nums">
+                      {totalValue > 0
+                        ? `${((row.value / totalValue) * 100).toFixed(1)}%`
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold">
+                  <td className="py-1.5">Total</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {deals.length}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {formatTotal(totalValue, currency)}
+                  </td>
+                  <td />
+                </tr>
+              </tfoot>
+            </table>
+          </section>
+
+          <section className="print:break-before-page">
+            <h2 className="mb-2 text-lg font-semibold">Deals</h2>
+            {deals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No deals match these filters
+              </p>
+            ) : (
+              // The browser repeats the <thead> at the top of every
+              // printed page
+              <table className="w-full text-sm print:text-xs">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    {columns.map((col) => (
+                      <th
+                        key={col.field}
+                        className={
+                          MONEY_COLUMNS.includes(col.field)
+                            ? "px-2 py-2 text-right font-medium"
+                            : "px-2 py-2 font-medium"
+                        }
+                      >
+                        {col.header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {deals.map((deal) => (
+                    <tr key={deal.id} className="break-inside-avoid border-b">
+                      {columns.map((col) => (
+                        <td
+                          key={col.field}
+                          className={
+                            MONEY_COLUMNS.includes(col.field)
+                              ? "px-2 py-1.5 text-right tabular-nums"
+                              : "px-2 py-1.5 align-top"
+                          }
+                        >
+                          {col.field === "stage" ? (
+                            <StatusChip status={deal.stage} />
+                          ) : (
+                            formatDealField(deal, col.field)
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </article>
+  );
+}
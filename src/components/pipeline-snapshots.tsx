@@ -0,0 +1,346 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRight, Camera } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatMoney,
+  formatTotal,
+  type CurrencyCode,
+  type Deal,
+} from "@/lib/deals";
+import {
+  CURRENT_SNAPSHOT_ID,
+  type SnapshotComparison,
+  type SnapshotSummary,
+} from "@/lib/snapshots";
+import { useSnapshotComparison, useSnapshots } from "@/hooks/use-snapshots";
+import { StatusChip } from "./status-chips";
+
+function formatTakenAt(takenAt: string): string {
+  return new Date(takenAt).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function describeSnapshot(snapshot: SnapshotSummary): string {
+  const name =
+    snapshot.label || (snapshot.trigger === "scheduled" ? "Daily" : "Manual");
+  return `${formatTakenAt(snapshot.takenAt)} · ${name}`;
+}
+
+function formatChange(amount: number, currency: CurrencyCode | null): string {
+  const formatted = formatTotal(Math.abs(amount), currency);
+  if (amount > 0) return `+${formatted}`;
+  if (amount < 0) return `−${formatted}`;
+  return formatted;
+}
+
+export function PipelineSnapshots() {
+  const { snapshots, isLoading, error, createSnapshot } = useSnapshots();
+  const [label, setLabel] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string>(CURRENT_SNAPSHOT_ID);
+  const {
+    comparison,
+    isLoading: isComparing,
+    error: comparisonError,
+  } = useSnapshotComparison(fromId, toId);
+
+  // Start by comparing the latest snapshot with the pipeline as it is now
+  useEffect(() => {
+    if (fromId === null && snapshots.length > 0) setFromId(snapshots[0].id);
+  }, [fromId, snapshots]);
+
+  const handleTakeSnapshot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const snapshot = await createSnapshot({ label });
+    setIsSaving(false);
+    if (snapshot) setLabel("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <SnapshotSelect
+            label="From"
+            value={fromId}
+            snapshots={snapshots}
+            onChange={setFromId}
+          />
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <SnapshotSelect
+            label="To"
+            value={toId}
+            snapshots={snapshots}
+            includeCurrent
+            onChange={setToId}
+          />
+        </div>
+        <form onSubmit={handleTakeSnapshot} className="flex items-center gap-2">
+          <Input
+            className="h-8 w-56"
+            placeholder="Label (optional)"
+            aria-label="Snapshot label"
+            value={label}
+            maxLength={100}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={isSaving}>
+            <Camera className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Take snapshot"}
+          </Button>
+        </form>
+      </div>
+
+      {(error || comparisonError) && (
+        <p className="text-sm text-destructive" role="alert">
+          {error || comparisonError}
+        </p>
+      )}
+
+      {!comparison ? (
+        <p className="text-sm text-muted-foreground">
+          {isLoading || isComparing
+            ? "Loading snapshots..."
+            : "Pick two snapshots to compare"}
+        </p>
+      ) : (
+        <div className={cn("space-y-6", isComparing && "opacity-60")}>
+          <ComparisonOverview comparison={comparison} />
+          <StageChanges comparison={comparison} />
+          <div className="grid gap-4 md:grid-cols-2">
+            <DealList
+              title="Added"
+              description="New in the pipeline"
+              deals={comparison.added}
+            />
+            <DealList
+              title="Won"
+              description="Moved to Closed Won"
+              deals={comparison.won}
+            />
+            <DealList
+              title="Lost"
+              description="Moved to Closed Lost"
+              deals={comparison.lost}
+            />
+            <DealList
+              title="Slipped"
+              description="Expected close moved later"
+              deals={comparison.slipped.map((item) => item.deal)}
+              detail={(deal) => {
+                const item = comparison.slipped.find(
+                  (slipped) => slipped.deal.id === deal.id
+                );
+                return `${item?.previousClose} → ${deal.expectedClose}`;
+              }}
+            />
+            {comparison.removed.length > 0 && (
+              <DealList
+                title="Removed"
+                description="Deleted or archived since"
+                deals={comparison.removed}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SnapshotSelect({
+  label,
+  value,
+  snapshots,
+  includeCurrent = false,
+  onChange,
+}: {
+  label: string;
+  value: string | null;
+  snapshots: SnapshotSummary[];
+  includeCurrent?: boolean;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+      {label}
+      <Select value={value ?? undefined} onValueChange={onChange}>
+        <SelectTrigger className="h-8 w-72">
+          <SelectValue placeholder="No snapshots yet" />
+        </SelectTrigger>
+        <SelectContent>
+          {includeCurrent && (
+            <SelectItem value={CURRENT_SNAPSHOT_ID}>Now</SelectItem>
+          )}
+          {snapshots.map((snapshot) => (
+            <SelectItem key={snapshot.id} value={snapshot.id}>
+              {describeSnapshot(snapshot)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </label>
+  );
+}
+
+function ComparisonOverview({ comparison }: { comparison: SnapshotComparison }) {
+  const netChange = comparison.to.totalValue - comparison.from.totalValue;
+  const stats = [
+    { label: "Added", value: comparison.added.length },
+    { label: "Won", value: comparison.won.length },
+    { label: "Lost", value: comparison.lost.length },
+    { label: "Slipped", value: comparison.slipped.length },
+  ];
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-5">
+      {stats.map((stat) => (
+        <Card key={stat.label}>
+          <CardHeader>
+            <CardDescription>{stat.label}</CardDescription>
+            <CardTitle className="text-2xl">{stat.value}</CardTitle>
+          </CardHeader>
+        </Card>
+      ))}
+      <Card>
+        <CardHeader>
+          <CardDescription>Pipeline value</CardDescription>
+          <CardTitle
+            className={cn(
+              "text-2xl",
+              netChange > 0 && "text-green-600",
+              netChange < 0 && "text-destructive"
+            )}
+          >
+            {formatChange(netChange, comparison.currency)}
+          </CardTitle>
+        </CardHeader>
+      </Card>
+    </div>
+  );
+}
+
+function StageChanges({ comparison }: { comparison: SnapshotComparison }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Value by stage</CardTitle>
+        <CardDescription>
+          {describeSnapshot(comparison.from)} compared with{" "}
+          {comparison.to.id === CURRENT_SNAPSHOT_ID
+            ? "now"
+            : describeSnapshot(comparison.to)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 font-medium">Stage</th>
+              <th className="py-2 text-right font-medium">Before</th>
+              <th className="py-2 text-right font-medium">After</th>
+              <th className="py-2 text-right font-medium">Net change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.stages.map((row) => (
+              <tr key={row.stage} className="border-b last:border-0">
+                <td className="py-2">
+                  <StatusChip status={row.stage} />
+                </td>
+                <td className="py-2 text-right tabular-nums">
+                  {formatTotal(row.previousValue, comparison.currency)}
+                </td>
+                <td className="py-2 text-right tabular-nums">
+                  {formatTotal(row.currentValue, comparison.currency)}
+                </td>
+                <td
+                  className={cn(
+                    "py-2 text-right font-medium tabular-nums",
+                    row.change > 0 && "text-green-600",
+                    row.change < 0 && "text-destructive"
+                  )}
+                >
+                  {formatChange(row.change, comparison.currency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DealList({
+  title,
+  description,
+  deals,
+  detail,
+}: {
+  title: string;
+  description: string;
+  deals: Deal[];
+  // Extra text per deal, e.g. how far its close date moved
+  detail?: (deal: Deal) => string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {title}
+          <Badge variant="secondary">{deals.length}</Badge>
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {deals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">None</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {deals.map((deal) => (
+              <li
+                key={deal.id}
+                className="flex items-center justify-between gap-2 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="truncate font-medium">{deal.deal}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {detail ? detail(deal) : `${deal.owner} · ${deal.stage}`}
+                  </div>
+                </div>
+                <span className="shrink-0 tabular-nums">
+                  {formatMoney(deal.dealValue, { maximumFractionDigits: 0 })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,39 @@
 "use client";
 
 import type React from "react";
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useSortable } from "@dnd-kit/sortable";
 import { cn } from "@/lib/utils";
-import type { JSX } from "react/jsx-runtime"; // Added import for JSX
+import { ColumnContextMenu } from "@/components/column-context-menu";
+
+// Bounds for dragged and auto-sized column widths
+export const COLUMN_MIN_WIDTH = 80;
+export const COLUMN_MAX_WIDTH = 400;
+
+// Natural width of the widest of the given table cells, measured on
+// unconstrained copies so truncated or wrapped content counts in full
+export function measureContentWidth(cells: Element[]): number {
+  const container = document.createElement("div");
+  container.style.cssText =
+    "position:absolute;visibility:hidden;left:-9999px;top:0;white-space:nowrap";
+  document.body.appendChild(container);
+
+  let widest = 0;
+  for (const cell of cells) {
+    const copy = cell.cloneNode(true) as HTMLElement;
+    copy.style.display = "inline-block";
+    copy.style.position = "static";
+    copy.style.width = "auto";
+    copy.style.minWidth = "0";
+    copy.style.maxWidth = "none";
+    container.appendChild(copy);
+    widest = Math.max(widest, copy.getBoundingClientRect().width);
+    container.removeChild(copy);
+  }
+
+  document.body.removeChild(container);
+  return Math.ceil(widest);
+}
 
 interface ResizableHeaderProps {
   children?: React.ReactNode;
@@ -12,12 +42,25 @@ interface ResizableHeaderProps {
   minWidth?: number;
   maxWidth?: number;
   className?: string;
-  as?: keyof JSX.IntrinsicElements;
+  style?: React.CSSProperties;
+  as?: "th" | "td";
   columnId?: string;
   columnLabel?: string;
   onSort?: () => void;
   sortDirection?: "asc" | "desc" | undefined;
   onAction?: (action: string, columnId: string, value?: string) => void;
+  canHide?: boolean;
+  canPin?: boolean;
+  isPinned?: boolean;
+  // Filter control shown next to the label, e.g. a ColumnFilterPopover
+  filter?: React.ReactNode;
+  // Double-clicking the resize handle fits the column to its content
+  onAutoSize?: () => void;
+  // Can be dragged to another place in the header row; needs a DndContext
+  // and SortableContext around the row
+  draggable?: boolean;
+  // Edge to draw the drop marker on while another column is dragged here
+  dropIndicator?: "left" | "right";
   key?: string | number;
 }
 
@@ -25,15 +68,45 @@ export function ResizableHeader({
   children,
   width,
   onResize,
-  minWidth = 80,
-  maxWidth = 400,
+  minWidth = COLUMN_MIN_WIDTH,
+  maxWidth = COLUMN_MAX_WIDTH,
   className,
+  style,
   as: Component = "th",
+  columnId,
   columnLabel,
   onSort,
   sortDirection,
+  onAction,
+  canHide,
+  canPin,
+  isPinned,
+  filter,
+  onAutoSize,
+  draggable = false,
+  dropIndicator,
 }: ResizableHeaderProps) {
   const [isResizing, setIsResizing] = useState(false);
+  // Columns stay put while dragging (the colgroup keeps their widths); the
+  // drop marker and the drag overlay show where the column will land
+  const { attributes, listeners, setNodeRef, isDragging } = useSortable({
+    id: columnId || "",
+    disabled: !draggable || !columnId,
+  });
+
+  // Releasing a drag over the header still produces a click, which
+  // shouldn't toggle the sort
+  const draggedRef = useRef(false);
+  useEffect(() => {
+    if (isDragging) {
+      draggedRef.current = true;
+      return;
+    }
+    const timeout = setTimeout(() => {
+      draggedRef.current = false;
+    });
+    return () => clearTimeout(timeout);
+  }, [isDragging]);
   const [startX, setStartX] = useState(0);
   const [startWidth, setStartWidth] = useState(0);
 
@@ -65,17 +138,36 @@ export function ResizableHeader({
     [width, startX, startWidth, minWidth, maxWidth, onResize]
   );
 
-  return (
+  const header = (
     <Component
-      className={cn("relative group", className)}
-      style={{ width }}
-      onClick={onSort}
+      ref={setNodeRef}
+      {...(draggable ? { ...attributes, ...listeners } : {})}
+      className={cn(
+        "relative group",
+        draggable && "cursor-grab",
+        isDragging && "opacity-50",
+        className
+      )}
+      style={{ width, ...style }}
+      onClick={() => {
+        if (!draggedRef.current) onSort?.();
+      }}
+      data-column-id={columnId}
     >
+      {dropIndicator && (
+        <div
+          className={cn(
+            "absolute top-0 bottom-0 w-0.5 bg-primary",
+            dropIndicator === "left" ? "left-0" : "right-0"
+          )}
+        />
+      )}
       <div className="flex items-center justify-between p-2">
-        <span>{columnLabel || children}</span>
-        {sortDirection && (
-          <span className="ml-2">{sortDirection === "asc" ? "↑" : "↓"}</span>
-        )}
+        <span className="truncate">{columnLabel || children}</span>
+        <span className="ml-2 flex shrink-0 items-center gap-1">
+          {filter}
+          {sortDirection && <span>{sortDirection === "asc" ? "↑" : "↓"}</span>}
+        </span>
       </div>
       <div
         className={cn(
@@ -84,7 +176,31 @@ export function ResizableHeader({
           isResizing && "bg-primary"
         )}
         onMouseDown={handleMouseDown}
+        // Resizing shouldn't start a column drag either
+        onPointerDown={(e) => e.stopPropagation()}
+        // Resizing shouldn't also toggle the column's sort
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          onAutoSize?.();
+        }}
       />
     </Component>
   );
+
+  if (!columnId || !onAction) return header;
+  return (
+    <ColumnContextMenu
+      columnId={columnId}
+      columnLabel={columnLabel || columnId}
+      canSort={Boolean(onSort)}
+      canHide={canHide}
+      canPin={canPin}
+      isPinned={isPinned}
+      canFilter={Boolean(filter)}
+      onAction={onAction}
+    >
+      {header}
+    </ColumnContextMenu>
+  );
 }
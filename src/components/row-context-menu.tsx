@@ -12,16 +12,8 @@ import {
   ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu"
-import { Copy, Edit, Trash2, Archive, Mail, Phone, User, Calendar, DollarSign } from "lucide-react"
-
-interface Deal {
-  id: string
-  deal: string
-  stage: string
-  dealValue: number
-  owner: string
-  expectedClose: string
-}
+import { Copy, Edit, Trash2, Archive, ArchiveRestore, Mail, Phone, User, Calendar, DollarSign } from "lucide-react"
+import { STAGES, type Deal } from "@/lib/deals"
 
 interface RowContextMenuProps {
   children: React.ReactNode
@@ -68,15 +60,11 @@ export function RowContextMenu({ children, deal, onAction }: RowContextMenuProps
             Change Stage
           </ContextMenuSubTrigger>
           <ContextMenuSubContent className="w-48">
-            <ContextMenuItem onClick={() => onAction("changeStage", deal.id, "Discovery")}>Discovery</ContextMenuItem>
-            <ContextMenuItem onClick={() => onAction("changeStage", deal.id, "Proposal")}>Proposal</ContextMenuItem>
-            <ContextMenuItem onClick={() => onAction("changeStage", deal.id, "Negotiation")}>
-              Negotiation
-            </ContextMenuItem>
-            <ContextMenuItem onClick={() => onAction("changeStage", deal.id, "Closed Won")}>Closed Won</ContextMenuItem>
-            <ContextMenuItem onClick={() => onAction("changeStage", deal.id, "Closed Lost")}>
-              Closed Lost
-            </ContextMenuItem>
+            {STAGES.map((stage) => (
+              <ContextMenuItem key={stage} onClick={() => onAction("changeStage", deal.id, stage)}>
+                {stage}
+              </ContextMenuItem>
+            ))}
           </ContextMenuSubContent>
         </ContextMenuSub>
 
@@ -97,16 +85,23 @@ export function RowContextMenu({ children, deal, onAction }: RowContextMenuProps
 
         <ContextMenuSeparator />
 
-        <ContextMenuItem onClick={() => onAction("archive", deal.id)}>
-          <Archive className="mr-2 h-4 w-4" />
-          Archive Deal
-        </ContextMenuItem>
+        {deal.archived ? (
+          <ContextMenuItem onClick={() => onAction("restore", deal.id)}>
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+            Restore Deal
+          </ContextMenuItem>
+        ) : (
+          <ContextMenuItem onClick={() => onAction("archive", deal.id)}>
+            <Archive className="mr-2 h-4 w-4" />
+            Archive Deal
+          </ContextMenuItem>
+        )}
         <ContextMenuItem
           onClick={() => onAction("delete", deal.id)}
           className="text-destructive focus:text-destructive"
         >
           <Trash2 className="mr-2 h-4 w-4" />
-          Delete Deal
+          {deal.archived ? "Delete Permanently" : "Delete Deal"}
         </ContextMenuItem>
       </ContextMenuContent>
     </ContextMenu>
@@ -0,0 +1,222 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Bookmark,
+  BookmarkPlus,
+  Check,
+  ChevronDown,
+  Link2,
+  Save,
+  Star,
+  StarOff,
+  Trash2,
+} from "lucide-react";
+import type { SavedView, ViewScope } from "@/lib/views";
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  currentView: SavedView | null;
+  defaultViewId: string | null;
+  // The table no longer matches the current view's saved state
+  isModified: boolean;
+  canEdit: (view: SavedView) => boolean;
+  onSelect: (view: SavedView) => void;
+  onSave: (name: string, scope: ViewScope) => void;
+  onUpdate: (view: SavedView) => void;
+  onDelete: (view: SavedView) => void;
+  onSetDefault: (viewId: string | null) => void;
+  onShare: (view: SavedView) => void;
+}
+
+export function SavedViewsMenu({
+  views,
+  currentView,
+  defaultViewId,
+  isModified,
+  canEdit,
+  onSelect,
+  onSave,
+  onUpdate,
+  onDelete,
+  onSetDefault,
+  onShare,
+}: SavedViewsMenuProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shareWithTeam, setShareWithTeam] = useState(false);
+
+  const personalViews = views.filter((view) => view.scope === "personal");
+  const teamViews = views.filter((view) => view.scope === "team");
+
+  const openSaveDialog = () => {
+    setName("");
+    setShareWithTeam(false);
+    setDialogOpen(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim(), shareWithTeam ? "team" : "personal");
+    setDialogOpen(false);
+  };
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onClick={() => onSelect(view)}>
+      <Check
+        className={`h-4 w-4 ${
+          view.id === currentView?.id ? "opacity-100" : "opacity-0"
+        }`}
+      />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.id === defaultViewId && (
+        <Star
+          className="h-3 w-3 fill-current text-muted-foreground"
+          aria-label="Default view"
+        />
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="h-4 w-4 mr-2" />
+            <span className="max-w-40 truncate">
+              {currentView ? currentView.name : "Views"}
+            </span>
+            {currentView && isModified && (
+              <span className="ml-1 text-xs text-muted-foreground">
+                (modified)
+              </span>
+            )}
+            <ChevronDown className="h-4 w-4 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-64" align="end">
+          {personalViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {personalViews.map(renderViewItem)}
+            </>
+          )}
+          {teamViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Team views</DropdownMenuLabel>
+              {teamViews.map(renderViewItem)}
+            </>
+          )}
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              No saved views yet
+            </p>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <BookmarkPlus className="h-4 w-4" />
+            Save as new view...
+          </DropdownMenuItem>
+
+          {currentView && (
+            <>
+              <DropdownMenuItem
+                disabled={!isModified || !canEdit(currentView)}
+                onClick={() => onUpdate(currentView)}
+              >
+                <Save className="h-4 w-4" />
+                Save changes to view
+              </DropdownMenuItem>
+              {currentView.id === defaultViewId ? (
+                <DropdownMenuItem onClick={() => onSetDefault(null)}>
+                  <StarOff className="h-4 w-4" />
+                  Remove as default
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onClick={() => onSetDefault(currentView.id)}>
+                  <Star className="h-4 w-4" />
+                  Set as default
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => onShare(currentView)}>
+                <Link2 className="h-4 w-4" />
+                Copy link to view
+              </DropdownMenuItem>
+              {canEdit(currentView) && (
+                <DropdownMenuItem
+                  onClick={() => onDelete(currentView)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete view
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Save view</DialogTitle>
+              <DialogDescription>
+                Saves the current filters, sorting, columns and column widths.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              autoFocus
+              placeholder="View name"
+              aria-label="View name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={shareWithTeam}
+                onCheckedChange={(checked) => setShareWithTeam(checked === true)}
+              />
+              Share with team
+            </label>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Save view
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -2,48 +2,61 @@
 
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
+import type { Stage } from "@/lib/deals"
 
 interface StatusChipProps {
-  status: string
+  status: Stage
   variant?: "default" | "outline"
   className?: string
 }
 
-const statusConfig = {
+// fill is the same color as a CSS value, for charts and exports
+const statusConfig: Record<Stage, { color: string; textColor: string; borderColor: string; fill: string; icon: string }> = {
   Discovery: {
     color: "bg-blue-500 hover:bg-blue-600",
     textColor: "text-white",
     borderColor: "border-blue-500",
+    fill: "#3b82f6",
     icon: "🔍",
   },
   Proposal: {
     color: "bg-yellow-500 hover:bg-yellow-600",
     textColor: "text-white",
     borderColor: "border-yellow-500",
+    fill: "#eab308",
     icon: "📋",
   },
   Negotiation: {
     color: "bg-orange-500 hover:bg-orange-600",
     textColor: "text-white",
     borderColor: "border-orange-500",
+    fill: "#f97316",
     icon: "🤝",
   },
   "Closed Won": {
     color: "bg-green-500 hover:bg-green-600",
     textColor: "text-white",
     borderColor: "border-green-500",
+    fill: "#22c55e",
     icon: "✅",
   },
   "Closed Lost": {
     color: "bg-red-500 hover:bg-red-600",
     textColor: "text-white",
     borderColor: "border-red-500",
+    fill: "#ef4444",
     icon: "❌",
   },
 }
 
+// Stage colors for anything drawn outside a chip, e.g. calendar entries
+export function getStageColors(stage: Stage) {
+  const { color, textColor, borderColor, fill } = statusConfig[stage]
+  return { color, textColor, borderColor, fill }
+}
+
 export function StatusChip({ status, variant = "default", className }: StatusChipProps) {
-  const config = statusConfig[status as keyof typeof statusConfig] || statusConfig["Discovery"]
+  const config = statusConfig[status]
 
   if (variant === "outline") {
     return (
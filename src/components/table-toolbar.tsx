@@ -6,105 +6,68 @@ import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Slider } from "@/components/ui/slider"
 import { X, Filter, Search, SortAsc, SortDesc } from "lucide-react"
-
-interface FilterState {
-  search: string
-  stage: string[]
-  owner: string[]
-  dealValueRange: [number, number]
-}
-
-interface SortState {
-  column: string
-  direction: "asc" | "desc"
-}
+import { FilterBuilder } from "./filter-builder"
+import { countConditions, describeCondition, type FilterGroup } from "@/lib/deal-filters"
+import { DEFAULT_FILTERS, hasActiveFilters as hasFilters, type FilterState, type SortState } from "@/lib/deals-query"
 
 interface TableToolbarProps {
   filters: FilterState
   onFiltersChange: (filters: FilterState) => void
-  sorts: SortState[]
-  onSortsChange: (sorts: SortState[]) => void
+  // Leave out to hide sorting, e.g. where results aren't a list
+  sorts?: SortState[]
+  onSortsChange?: (sorts: SortState[]) => void
 }
 
-const STAGES = ["Discovery", "Proposal", "Negotiation", "Closed Won", "Closed Lost"]
-const OWNERS = ["Alex Chen", "Sam Wilson", "Emma Brown", "James Liu", "Chris Taylor"]
-
 export function TableToolbar({ filters, onFiltersChange, sorts, onSortsChange }: TableToolbarProps) {
   const [filterOpen, setFilterOpen] = useState(false)
 
-  const safeFilters = {
+  const safeFilters: FilterState = {
     search: filters?.search || "",
-    stage: filters?.stage || [],
-    owner: filters?.owner || [],
-    dealValueRange: filters?.dealValueRange || ([0, 200000] as [number, number]),
+    where: filters?.where || DEFAULT_FILTERS.where,
   }
 
   const safeSorts = sorts || []
 
-  const updateFilter = (key: keyof FilterState, value: string | string[] | [number, number]) => {
-    onFiltersChange({ ...safeFilters, [key]: value })
+  const updateSearch = (search: string) => {
+    onFiltersChange({ ...safeFilters, search })
   }
 
-  const addStageFilter = (stage: string) => {
-    if (!safeFilters.stage.includes(stage)) {
-      updateFilter("stage", [...safeFilters.stage, stage])
-    }
+  const updateWhere = (where: FilterGroup) => {
+    onFiltersChange({ ...safeFilters, where })
   }
 
-  const removeStageFilter = (stage: string) => {
-    updateFilter(
-      "stage",
-      safeFilters.stage.filter((s) => s !== stage),
-    )
-  }
-
-  const addOwnerFilter = (owner: string) => {
-    if (!safeFilters.owner.includes(owner)) {
-      updateFilter("owner", [...safeFilters.owner, owner])
-    }
+  const removeCondition = (id: string) => {
+    updateWhere({
+      ...safeFilters.where,
+      children: safeFilters.where.children.filter((child) => child.id !== id),
+    })
   }
 
-  const removeOwnerFilter = (owner: string) => {
-    updateFilter(
-      "owner",
-      safeFilters.owner.filter((o) => o !== owner),
-    )
-  }
+  const setSorts = (next: SortState[]) => onSortsChange?.(next)
 
   const addSort = (column: string) => {
     const existingSort = safeSorts.find((s) => s.column === column)
     if (existingSort) {
       // Toggle direction or remove if already desc
       if (existingSort.direction === "asc") {
-        onSortsChange(safeSorts.map((s) => (s.column === column ? { ...s, direction: "desc" } : s)))
+        setSorts(safeSorts.map((s) => (s.column === column ? { ...s, direction: "desc" } : s)))
       } else {
-        onSortsChange(safeSorts.filter((s) => s.column !== column))
+        setSorts(safeSorts.filter((s) => s.column !== column))
       }
     } else {
       // Add new sort
-      onSortsChange([...safeSorts, { column, direction: "asc" }])
+      setSorts([...safeSorts, { column, direction: "asc" }])
     }
   }
 
   const clearAllFilters = () => {
-    onFiltersChange({
-      search: "",
-      stage: [],
-      owner: [],
-      dealValueRange: [0, 200000],
-    })
-    onSortsChange([])
+    onFiltersChange(DEFAULT_FILTERS)
+    onSortsChange?.([])
   }
 
-  const hasActiveFilters =
-    safeFilters.search ||
-    safeFilters.stage.length > 0 ||
-    safeFilters.owner.length > 0 ||
-    safeFilters.dealValueRange[0] > 0 ||
-    safeFilters.dealValueRange[1] < 200000 ||
-    safeSorts.length > 0
+  const conditionCount = countConditions(safeFilters.where)
+  const hasActiveFilters = hasFilters(safeFilters) || safeSorts.length > 0
 
   return (
     <div className="flex items-center justify-between gap-4 py-4">
@@ -115,7 +78,7 @@ export function TableToolbar({ filters, onFiltersChange, sorts, onSortsChange }:
           <Input
             placeholder="Search deals..."
             value={safeFilters.search}
-            onChange={(e) => updateFilter("search", e.target.value)}
+            onChange={(e) => updateSearch(e.target.value)}
             className="pl-8 w-64"
           />
         </div>
@@ -128,97 +91,19 @@ export function TableToolbar({ filters, onFiltersChange, sorts, onSortsChange }:
               Filter
               {hasActiveFilters && (
                 <Badge variant="secondary" className="ml-2 h-5 w-5 rounded-full p-0 text-xs">
-                  {safeFilters.stage.length +
-                    safeFilters.owner.length +
-                    (safeFilters.search ? 1 : 0) +
-                    safeSorts.length}
+                  {conditionCount + (safeFilters.search ? 1 : 0) + safeSorts.length}
                 </Badge>
               )}
             </Button>
           </PopoverTrigger>
-          <PopoverContent className="w-80 p-4" align="start">
+          <PopoverContent className="w-[640px] p-4" align="start">
             <div className="space-y-4">
               <div>
-                <label className="text-sm font-medium mb-2 block">Stage</label>
-                <div className="space-y-2">
-                  <Select onValueChange={addStageFilter}>
-                    <SelectTrigger className="h-8">
-                      <SelectValue placeholder="Add stage filter..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {STAGES.filter((stage) => !safeFilters.stage.includes(stage)).map((stage) => (
-                        <SelectItem key={stage} value={stage}>
-                          {stage}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <div className="flex flex-wrap gap-1">
-                    {safeFilters.stage.map((stage) => (
-                      <Badge key={stage} variant="secondary" className="text-xs">
-                        {stage}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-3 w-3 p-0 ml-1 hover:bg-destructive hover:text-destructive-foreground"
-                          onClick={() => removeStageFilter(stage)}
-                        >
-                          <X className="h-2 w-2" />
-                        </Button>
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-              </div>
-
-              <div>
-                <label className="text-sm font-medium mb-2 block">Owner</label>
-                <div className="space-y-2">
-                  <Select onValueChange={addOwnerFilter}>
-                    <SelectTrigger className="h-8">
-                      <SelectValue placeholder="Add owner filter..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {OWNERS.filter((owner) => !safeFilters.owner.includes(owner)).map((owner) => (
-                        <SelectItem key={owner} value={owner}>
-                          {owner}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <div className="flex flex-wrap gap-1">
-                    {safeFilters.owner.map((owner) => (
-                      <Badge key={owner} variant="secondary" className="text-xs">
-                        {owner}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-3 w-3 p-0 ml-1 hover:bg-destructive hover:text-destructive-foreground"
-                          onClick={() => removeOwnerFilter(owner)}
-                        >
-                          <X className="h-2 w-2" />
-                        </Button>
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-              </div>
-
-              <div>
-                <label className="text-sm font-medium mb-2 block">
-                  Deal Value Range: ${safeFilters.dealValueRange[0].toLocaleString()} - $
-                  {safeFilters.dealValueRange[1].toLocaleString()}
-                </label>
-                <Slider
-                  value={safeFilters.dealValueRange}
-                  onValueChange={(value) => updateFilter("dealValueRange", value as [number, number])}
-                  max={200000}
-                  min={0}
-                  step={5000}
-                  className="w-full"
-                />
+                <label className="text-sm font-medium mb-2 block">Filters</label>
+                <FilterBuilder value={safeFilters.where} onChange={updateWhere} />
               </div>
 
+              {onSortsChange && (
               <div>
                 <label className="text-sm font-medium mb-2 block">Sort By</label>
                 <div className="space-y-2">
@@ -253,7 +138,7 @@ export function TableToolbar({ filters, onFiltersChange, sorts, onSortsChange }:
                           variant="ghost"
                           size="sm"
                           className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
-                          onClick={() => onSortsChange(safeSorts.filter((s) => s.column !== sort.column))}
+                          onClick={() => setSorts(safeSorts.filter((s) => s.column !== sort.column))}
                         >
                           <X className="h-3 w-3" />
                         </Button>
@@ -262,6 +147,7 @@ export function TableToolbar({ filters, onFiltersChange, sorts, onSortsChange }:
                   </div>
                 </div>
               </div>
+              )}
             </div>
           </PopoverContent>
         </Popover>
@@ -279,11 +165,21 @@ export function TableToolbar({ filters, onFiltersChange, sorts, onSortsChange }:
         {safeFilters.search && (
           <Badge variant="outline" className="text-xs">
             Search: &quot;{safeFilters.search}&quot;
-            <Button variant="ghost" size="sm" className="h-3 w-3 p-0 ml-1" onClick={() => updateFilter("search", "")}>
+            <Button variant="ghost" size="sm" className="h-3 w-3 p-0 ml-1" onClick={() => updateSearch("")}>
               <X className="h-2 w-2" />
             </Button>
           </Badge>
         )}
+        {safeFilters.where.children.map((child) => (
+          <Badge key={child.id} variant="outline" className="text-xs">
+            {child.type === "condition"
+              ? describeCondition(child)
+              : `${countConditions(child)} grouped conditions`}
+            <Button variant="ghost" size="sm" className="h-3 w-3 p-0 ml-1" onClick={() => removeCondition(child.id)}>
+              <X className="h-2 w-2" />
+            </Button>
+          </Badge>
+        ))}
         {safeSorts.map((sort) => (
           <Badge key={sort.column} variant="outline" className="text-xs">
             {sort.column} {sort.direction === "asc" ? "↑" : "↓"}
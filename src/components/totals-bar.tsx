@@ -4,85 +4,28 @@ import { useMemo } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { TrendingUp, DollarSign, Users, Calendar, Target } from "lucide-react"
-
-interface Deal {
-  id: string
-  deal: string
-  stage: string
-  dealValue: number
-  contacts: string
-  owner: string
-  expectedClose: string
-  forecastValue: number
-}
+import { formatMoney, type Deal } from "@/lib/deals"
+import { summarizeDeals, type DealsSummary } from "@/lib/deals-query"
 
 interface TotalsBarProps {
-  data: Deal[]
+  summary: DealsSummary
   selectedData?: Deal[]
   className?: string
 }
 
-export function TotalsBar({ data, selectedData, className }: TotalsBarProps) {
-  const totals = useMemo(() => {
-    const safeData = data || []
-    const safeSelectedData = selectedData || []
-    const activeData = safeSelectedData.length > 0 ? safeSelectedData : safeData
-
-    if (!activeData || activeData.length === 0) {
-      return {
-        totalValue: 0,
-        totalForecast: 0,
-        totalDeals: 0,
-        totalContacts: 0,
-        avgDealValue: 0,
-        conversionRate: 0,
-        closingSoon: 0,
-        stageBreakdown: {},
-      }
-    }
-
-    const totalValue = activeData.reduce((sum, deal) => sum + deal.dealValue, 0)
-    const totalForecast = activeData.reduce((sum, deal) => sum + deal.forecastValue, 0)
-    const totalDeals = activeData.length
-    const totalContacts = activeData.reduce((sum, deal) => sum + deal.contacts.split(", ").length, 0)
-
-    const stageBreakdown = activeData.reduce(
-      (acc, deal) => {
-        acc[deal.stage] = (acc[deal.stage] || 0) + 1
-        return acc
-      },
-      {} as Record<string, number>,
-    )
-
-    const avgDealValue = totalDeals > 0 ? totalValue / totalDeals : 0
-    const conversionRate = totalDeals > 0 ? ((stageBreakdown["Closed Won"] || 0) / totalDeals) * 100 : 0
-
-    const closingSoon = activeData.filter((deal) => {
-      const closeDate = new Date(deal.expectedClose)
-      const today = new Date()
-      const daysUntilClose = Math.ceil((closeDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
-      return daysUntilClose <= 30 && daysUntilClose >= 0
-    }).length
-
-    return {
-      totalValue,
-      totalForecast,
-      totalDeals,
-      totalContacts,
-      avgDealValue,
-      conversionRate,
-      closingSoon,
-      stageBreakdown,
-    }
-  }, [data, selectedData])
+export function TotalsBar({ summary, selectedData, className }: TotalsBarProps) {
+  // The server summarizes the full filtered set; a selection only covers loaded rows
+  const totals = useMemo(
+    () => (selectedData && selectedData.length > 0 ? summarizeDeals(selectedData) : summary),
+    [summary, selectedData],
+  )
 
+  // Mixed-currency totals can't be labelled with a single symbol
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value)
+    if (!totals.currency) {
+      return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(value)
+    }
+    return formatMoney({ amount: value, currency: totals.currency }, { maximumFractionDigits: 0 })
   }
 
   const formatPercentage = (value: number) => {
@@ -91,8 +34,8 @@ export function TotalsBar({ data, selectedData, className }: TotalsBarProps) {
 
   return (
     <div className={`sticky bottom-0 bg-background border-t border-border p-4 ${className}`}>
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-6">
           {/* Total Value */}
           <div className="flex items-center gap-2">
             <DollarSign className="h-4 w-4 text-muted-foreground" />
@@ -104,15 +47,25 @@ export function TotalsBar({ data, selectedData, className }: TotalsBarProps) {
 
           <Separator orientation="vertical" className="h-8" />
 
-          {/* Forecast Value */}
+          {/* Forecast: weighted, best case and committed */}
           <div className="flex items-center gap-2">
             <TrendingUp className="h-4 w-4 text-green-600" />
             <div className="flex flex-col">
-              <span className="text-xs text-muted-foreground">Forecast</span>
+              <span className="text-xs text-muted-foreground">Weighted</span>
               <span className="font-semibold text-sm text-green-600">{formatCurrency(totals.totalForecast)}</span>
             </div>
           </div>
 
+          <div className="flex flex-col">
+            <span className="text-xs text-muted-foreground">Best Case</span>
+            <span className="font-semibold text-sm">{formatCurrency(totals.bestCase)}</span>
+          </div>
+
+          <div className="flex flex-col">
+            <span className="text-xs text-muted-foreground">Committed</span>
+            <span className="font-semibold text-sm">{formatCurrency(totals.committed)}</span>
+          </div>
+
           <Separator orientation="vertical" className="h-8" />
 
           {/* Deal Count */}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect, useCallback } from "react"
+
+interface UndoShortcutsProps {
+  onUndo: () => void
+  onRedo: () => void
+}
+
+// Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes. Kept apart from the table's
+// KeyboardNavigation so changes made on the board or calendar can be undone
+// from the keyboard too.
+export function UndoShortcuts({ onUndo, onRedo }: UndoShortcutsProps) {
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return
+      // Text fields keep their own undo
+      if (
+        event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLTextAreaElement ||
+        (event.target instanceof HTMLElement && event.target.isContentEditable)
+      ) {
+        return
+      }
+
+      const key = event.key.toLowerCase()
+      if (key === "z") {
+        event.preventDefault()
+        if (event.shiftKey) {
+          onRedo()
+        } else {
+          onUndo()
+        }
+      } else if (key === "y") {
+        event.preventDefault()
+        onRedo()
+      }
+    },
+    [onUndo, onRedo],
+  )
+
+  useEffect(() => {
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [handleKeyDown])
+
+  return null
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Upload } from "lucide-react";
+import { downloadFile } from "@/lib/deals-export";
+import {
+  getBackupFileName,
+  migrateBackup,
+  RESTORE_MODES,
+  type RestoreMode,
+  type WorkspaceBackup,
+} from "@/lib/workspace-backup";
+import { useWorkspaceBackup } from "@/hooks/use-workspace-backup";
+
+function formatExportedAt(exportedAt: string): string {
+  return new Date(exportedAt).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export function BackupRestore() {
+  const { error, createBackup, restoreBackup } = useWorkspaceBackup();
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    const created = await createBackup();
+    setIsDownloading(false);
+    if (!created) return;
+    downloadFile(
+      JSON.stringify(created, null, 2),
+      getBackupFileName(created),
+      "application/json"
+    );
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setBackup(null);
+    setReadError(null);
+    if (!file) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setReadError("The file isn't valid JSON");
+      return;
+    }
+    const result = migrateBackup(raw);
+    if ("error" in result) {
+      setReadError(result.error);
+      return;
+    }
+    setFileName(file.name);
+    setBackup(result.backup);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (
+      mode === "replace" &&
+      !window.confirm(
+        "Replace the whole workspace with this backup? Deals and your views that aren't in it will be removed."
+      )
+    ) {
+      return;
+    }
+    setIsRestoring(true);
+    const result = await restoreBackup(backup, mode);
+    setIsRestoring(false);
+    if (!result) return;
+    toast.success(
+      `Restored ${fileName}: ${result.deals} deals, ${result.views} views`
+    );
+    setBackup(null);
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Download a backup</CardTitle>
+          <CardDescription>
+            All deals, forecast settings and saved views, plus this
+            browser&apos;s table layout and filters
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button onClick={handleDownload} disabled={isDownloading}>
+            <Download className="h-4 w-4 mr-2" />
+            {isDownloading ? "Preparing..." : "Download backup"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Restore from a backup</CardTitle>
+          <CardDescription>
+            Backups from earlier versions of the app are upgraded first
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            type="file"
+            accept=".json,application/json"
+            aria-label="Backup file"
+            onChange={handleFile}
+          />
+          {backup && (
+            <>
+              <dl className="grid grid-cols-2 gap-1 text-sm">
+                <dt className="text-muted-foreground">Saved</dt>
+                <dd>{formatExportedAt(backup.exportedAt)}</dd>
+                <dt className="text-muted-foreground">Deals</dt>
+                <dd className="tabular-nums">{backup.deals.length}</dd>
+                <dt className="text-muted-foreground">Saved views</dt>
+                <dd className="tabular-nums">{backup.views.length}</dd>
+                <dt className="text-muted-foreground">Table layout</dt>
+                <dd>{backup.uiState ? "Included" : "Not included"}</dd>
+              </dl>
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as RestoreMode)}
+              >
+                <SelectTrigger aria-label="Restore mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RESTORE_MODES) as RestoreMode[]).map(
+                    (option) => (
+                      <SelectItem key={option} value={option}>
+                        {RESTORE_MODES[option]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          {(readError || error) && (
+            <p className="text-sm text-destructive" role="alert">
+              {readError || error}
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button
+            onClick={handleRestore}
+            disabled={!backup || isRestoring}
+            variant={mode === "replace" ? "destructive" : "default"}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {isRestoring ? "Restoring..." : "Restore"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
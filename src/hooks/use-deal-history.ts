@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AuditEntry } from "@/lib/audit";
+import type { Deal } from "@/lib/deals";
+import * as dealsApi from "@/lib/deals-api";
+
+// Reloads whenever the deal changes, so edits show up in its history
+export function useDealHistory(deal: Deal) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const dealKey = JSON.stringify(deal);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    dealsApi
+      .fetchDealHistory(deal.id, controller.signal)
+      .then((result) => {
+        setEntries(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load history");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [deal.id, dealKey]);
+
+  return { entries, isLoading, error };
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { DealsAnalytics } from "@/lib/deal-analytics";
+import type { FilterState } from "@/lib/deals-query";
+import * as dealsApi from "@/lib/deals-api";
+
+// Wait for a pause in typing before asking the server again
+const QUERY_DEBOUNCE_MS = 200;
+
+export function useDealsAnalytics(filters: FilterState) {
+  const [analytics, setAnalytics] = useState<DealsAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Serialized filters, so the effect only reruns when they really change
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        setAnalytics(
+          await dealsApi.fetchDealsAnalytics(
+            JSON.parse(filtersKey),
+            controller.signal
+          )
+        );
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(
+          err instanceof Error ? err.message : "Failed to load analytics"
+        );
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, QUERY_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [filtersKey]);
+
+  return { analytics, isLoading, error };
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Deal } from "@/lib/deals";
+import type { DealsSummary, FilterState, SortState } from "@/lib/deals-query";
+import * as dealsApi from "@/lib/deals-api";
+
+// Every active deal matching the filters, in order, for the printable report
+export function useDealsReport(filters: FilterState, sorts: SortState[]) {
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [summary, setSummary] = useState<DealsSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Serialized, so the effect only reruns when they really change
+  const queryKey = JSON.stringify({ filters, sorts });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { filters, sorts } = JSON.parse(queryKey);
+    setIsLoading(true);
+
+    (async () => {
+      try {
+        const result = await dealsApi.fetchAllDeals(
+          { archived: false, filters, sorts },
+          controller.signal
+        );
+        setDeals(result.deals);
+        setSummary(result.summary);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load deals");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [queryKey]);
+
+  return { deals, summary, isLoading, error };
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { AuditSource } from "@/lib/audit";
+import {
+  dealInputSchema,
+  dealPatchSchema,
+  describeIssues,
+  type Deal,
+  type DealInput,
+  type DealPatch,
+} from "@/lib/deals";
+import {
+  summarizeDeals,
+  toSearchParams,
+  type DealsFacets,
+  type DealsQuery,
+  type DealsSummary,
+} from "@/lib/deals-query";
+import type { DealGroupSummary } from "@/lib/deal-groups";
+import type { ImportRequest, ImportResult } from "@/lib/deals-import";
+import * as dealsApi from "@/lib/deals-api";
+
+// Wait for a pause in typing before asking the server for a new page
+const QUERY_DEBOUNCE_MS = 200;
+
+export function useDeals(query: DealsQuery) {
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<DealsSummary>(() =>
+    summarizeDeals([])
+  );
+  const [facets, setFacets] = useState<DealsFacets>({});
+  const [groups, setGroups] = useState<DealGroupSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Serialized form of the query, so effects only rerun when it really changes
+  const queryKey = toSearchParams(query).toString();
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const page = await dealsApi.fetchDeals(
+        queryRef.current,
+        controller.signal
+      );
+      setDeals(page.deals);
+      setTotal(page.total);
+      setSummary(page.summary);
+      setFacets(page.facets);
+      setGroups(page.groups);
+      setError(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : "Failed to load deals");
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const timeout = setTimeout(refresh, QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [queryKey, refresh]);
+
+  // Pick up edits made in other tabs or browsers when the user comes back
+  useEffect(() => {
+    const handleFocus = () => refresh();
+    window.addEventListener("focus", handleFocus);
+    return () => {
+      window.removeEventListener("focus", handleFocus);
+      abortRef.current?.abort();
+    };
+  }, [refresh]);
+
+  // Apply the change locally right away, then re-read the page from the
+  // server, which also rolls the change back if the server rejected it
+  const mutate = useCallback(
+    async (
+      optimistic: (prev: Deal[]) => Deal[],
+      send: () => Promise<unknown>
+    ): Promise<boolean> => {
+      setDeals(optimistic);
+      try {
+        await send();
+        setError(null);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save changes");
+        return false;
+      } finally {
+        refresh();
+      }
+    },
+    [refresh]
+  );
+
+  const createDeal = useCallback(
+    async (input: DealInput, source: AuditSource): Promise<Deal | null> => {
+      const validation = dealInputSchema.safeParse(input);
+      if (!validation.success) {
+        setError(describeIssues(validation.error));
+        return null;
+      }
+      try {
+        const deal = await dealsApi.createDeal(input, source);
+        setDeals((prev) => [deal, ...prev]);
+        setError(null);
+        refresh();
+        return deal;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to create deal");
+        return null;
+      }
+    },
+    [refresh]
+  );
+
+  const updateDeals = useCallback(
+    async (ids: string[], changes: DealPatch, source: AuditSource) => {
+      // Catch bad values here so they never reach the table as NaN or blanks
+      const validation = dealPatchSchema.safeParse(changes);
+      if (!validation.success) {
+        setError(describeIssues(validation.error));
+        return false;
+      }
+      return mutate(
+        (prev) =>
+          prev.map((deal) =>
+            ids.includes(deal.id) ? { ...deal, ...changes } : deal
+          ),
+        () => dealsApi.updateDeals(ids, changes, source)
+      );
+    },
+    [mutate]
+  );
+
+  const upsertDeals = useCallback(
+    (upserted: Deal[], source: AuditSource) =>
+      mutate(
+        (prev) => {
+          const byId = new Map(upserted.map((deal) => [deal.id, deal]));
+          const kept = prev.map((deal) => byId.get(deal.id) ?? deal);
+          const added = upserted.filter(
+            (deal) => !prev.some((existing) => existing.id === deal.id)
+          );
+          return [...added, ...kept];
+        },
+        () => dealsApi.upsertDeals(upserted, source)
+      ),
+    [mutate]
+  );
+
+  const deleteDeals = useCallback(
+    (ids: string[], source: AuditSource) =>
+      mutate(
+        (prev) => prev.filter((deal) => !ids.includes(deal.id)),
+        () => dealsApi.deleteDeals(ids, source)
+      ),
+    [mutate]
+  );
+
+  // Imports aren't undoable, so there's nothing to apply optimistically
+  const importDeals = useCallback(
+    async (input: ImportRequest): Promise<ImportResult | null> => {
+      try {
+        const result = await dealsApi.importDeals(input);
+        setError(null);
+        return result;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to import deals");
+        return null;
+      } finally {
+        refresh();
+      }
+    },
+    [refresh]
+  );
+
+  return {
+    deals,
+    total,
+    summary,
+    facets,
+    groups,
+    isLoading,
+    error,
+    refresh,
+    createDeal,
+    upsertDeals,
+    updateDeals,
+    deleteDeals,
+    importDeals,
+  };
+}
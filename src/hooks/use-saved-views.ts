@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import {
+  savedViewInputSchema,
+  type SavedView,
+  type SavedViewInput,
+  type SavedViewPatch,
+} from "@/lib/views";
+import { describeIssues } from "@/lib/deals";
+import * as viewsApi from "@/lib/views-api";
+
+export function useSavedViews() {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await viewsApi.fetchViews();
+      setViews(list.views);
+      setDefaultViewId(list.defaultViewId);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load views");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Runs a request and reports failures through `error` instead of throwing
+  const attempt = useCallback(
+    async <T>(send: () => Promise<T>, fallback: string): Promise<T | null> => {
+      try {
+        const result = await send();
+        setError(null);
+        return result;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallback);
+        return null;
+      }
+    },
+    []
+  );
+
+  // Fetches any view by id, including other users' views shared by link
+  const openView = useCallback(
+    (id: string) => attempt(() => viewsApi.fetchView(id), "View not found"),
+    [attempt]
+  );
+
+  const createView = useCallback(
+    async (input: SavedViewInput) => {
+      const validation = savedViewInputSchema.safeParse(input);
+      if (!validation.success) {
+        setError(describeIssues(validation.error));
+        return null;
+      }
+      const view = await attempt(
+        () => viewsApi.createView(validation.data),
+        "Failed to save view"
+      );
+      if (view) setViews((prev) => [...prev, view]);
+      return view;
+    },
+    [attempt]
+  );
+
+  const updateView = useCallback(
+    async (id: string, changes: SavedViewPatch) => {
+      const view = await attempt(
+        () => viewsApi.updateView(id, changes),
+        "Failed to update view"
+      );
+      if (view) {
+        setViews((prev) => prev.map((v) => (v.id === id ? view : v)));
+      }
+      return view;
+    },
+    [attempt]
+  );
+
+  const deleteView = useCallback(
+    async (id: string) => {
+      const deleted = await attempt(
+        () => viewsApi.deleteView(id).then(() => true),
+        "Failed to delete view"
+      );
+      if (deleted) {
+        setViews((prev) => prev.filter((view) => view.id !== id));
+        setDefaultViewId((prev) => (prev === id ? null : prev));
+      }
+      return deleted === true;
+    },
+    [attempt]
+  );
+
+  const setDefaultView = useCallback(
+    async (viewId: string | null) => {
+      const saved = await attempt(
+        () => viewsApi.setDefaultView(viewId).then(() => true),
+        "Failed to set default view"
+      );
+      if (saved) setDefaultViewId(viewId);
+    },
+    [attempt]
+  );
+
+  return {
+    views,
+    defaultViewId,
+    isLoading,
+    error,
+    refresh,
+    openView,
+    createView,
+    updateView,
+    deleteView,
+    setDefaultView,
+  };
+}
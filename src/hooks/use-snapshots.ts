@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { describeIssues } from "@/lib/deals";
+import {
+  snapshotInputSchema,
+  type SnapshotComparison,
+  type SnapshotInput,
+  type SnapshotSummary,
+} from "@/lib/snapshots";
+import * as snapshotsApi from "@/lib/snapshots-api";
+
+export function useSnapshots() {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSnapshots(await snapshotsApi.fetchSnapshots());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load snapshots");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createSnapshot = useCallback(
+    async (input: SnapshotInput): Promise<SnapshotSummary | null> => {
+      const validation = snapshotInputSchema.safeParse(input);
+      if (!validation.success) {
+        setError(describeIssues(validation.error));
+        return null;
+      }
+      try {
+        const snapshot = await snapshotsApi.createSnapshot(validation.data);
+        setSnapshots((prev) => [snapshot, ...prev]);
+        setError(null);
+        return snapshot;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to take snapshot");
+        return null;
+      }
+    },
+    []
+  );
+
+  return { snapshots, isLoading, error, createSnapshot };
+}
+
+// Loads the comparison whenever either side changes; null ids load nothing
+export function useSnapshotComparison(from: string | null, to: string | null) {
+  const [comparison, setComparison] = useState<SnapshotComparison | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!from || !to) {
+      setComparison(null);
+      return;
+    }
+    const controller = new AbortController();
+    setIsLoading(true);
+    snapshotsApi
+      .compareSnapshots(from, to, controller.signal)
+      .then((result) => {
+        setComparison(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(
+          err instanceof Error ? err.message : "Failed to compare snapshots"
+        );
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [from, to]);
+
+  return { comparison, isLoading, error };
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { describeIssues } from "@/lib/deals";
+import {
+  DEFAULT_STAGE_PROBABILITIES,
+  stageProbabilitiesSchema,
+  type StageProbabilities,
+} from "@/lib/forecast";
+import * as forecastApi from "@/lib/forecast-api";
+
+export function useStageProbabilities() {
+  const [probabilities, setProbabilities] = useState<StageProbabilities>(
+    DEFAULT_STAGE_PROBABILITIES
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    forecastApi
+      .fetchStageProbabilities()
+      .then((saved) => {
+        setProbabilities(saved);
+        setError(null);
+      })
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to load probabilities"
+        )
+      );
+  }, []);
+
+  // Resolves to false when the probabilities were rejected
+  const saveProbabilities = useCallback(
+    async (next: StageProbabilities): Promise<boolean> => {
+      const validation = stageProbabilitiesSchema.safeParse(next);
+      if (!validation.success) {
+        setError(describeIssues(validation.error));
+        return false;
+      }
+      try {
+        setProbabilities(await forecastApi.saveStageProbabilities(next));
+        setError(null);
+        return true;
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to save probabilities"
+        );
+        return false;
+      }
+    },
+    []
+  );
+
+  return { probabilities, error, saveProbabilities };
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import type { UndoableCommand } from "@/lib/deal-commands";
+
+const HISTORY_LIMIT = 50;
+
+export function useUndoHistory() {
+  // Stacks live in a ref so async callbacks always see the latest history;
+  // the counter only exists to re-render when they change
+  const stacksRef = useRef<{
+    past: UndoableCommand[];
+    future: UndoableCommand[];
+  }>({ past: [], future: [] });
+  const busyRef = useRef(false);
+  const [, setVersion] = useState(0);
+
+  const update = (past: UndoableCommand[], future: UndoableCommand[]) => {
+    stacksRef.current = { past, future };
+    setVersion((version) => version + 1);
+  };
+
+  // Runs one history step at a time so rapid Ctrl+Z presses stay in order
+  const step = useCallback(
+    async (
+      action: () => Promise<UndoableCommand | null>
+    ): Promise<UndoableCommand | null> => {
+      if (busyRef.current) return null;
+      busyRef.current = true;
+      try {
+        return await action();
+      } finally {
+        busyRef.current = false;
+      }
+    },
+    []
+  );
+
+  const run = useCallback(async (command: UndoableCommand) => {
+    const ok = await command.execute();
+    if (ok) {
+      const { past } = stacksRef.current;
+      update([...past, command].slice(-HISTORY_LIMIT), []);
+    }
+    return ok;
+  }, []);
+
+  // Pass a command to undo only if it is still the most recent one, e.g.
+  // from a toast that may have been overtaken by later edits
+  const undo = useCallback(
+    (expected?: UndoableCommand) =>
+      step(async () => {
+        const { past, future } = stacksRef.current;
+        const command = past[past.length - 1];
+        if (!command || (expected && expected !== command)) return null;
+        if (!(await command.undo())) return null;
+        update(past.slice(0, -1), [...future, command]);
+        return command;
+      }),
+    [step]
+  );
+
+  const redo = useCallback(
+    () =>
+      step(async () => {
+        const { past, future } = stacksRef.current;
+        const command = future[future.length - 1];
+        if (!command) return null;
+        if (!(await command.execute())) return null;
+        update([...past, command], future.slice(0, -1));
+        return command;
+      }),
+    [step]
+  );
+
+  const { past, future } = stacksRef.current;
+
+  return {
+    run,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
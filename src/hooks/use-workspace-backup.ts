@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { loadStoredUIState, storeUIState } from "@/lib/table-ui-storage";
+import type {
+  RestoreMode,
+  RestoreResult,
+  WorkspaceBackup,
+} from "@/lib/workspace-backup";
+import * as workspaceApi from "@/lib/workspace-api";
+
+export function useWorkspaceBackup() {
+  const [error, setError] = useState<string | null>(null);
+
+  // The server's data plus this browser's table UI state
+  const createBackup = useCallback(async (): Promise<WorkspaceBackup | null> => {
+    try {
+      const workspace = await workspaceApi.fetchWorkspace();
+      setError(null);
+      return { ...workspace, uiState: loadStoredUIState() };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create backup");
+      return null;
+    }
+  }, []);
+
+  // Replacing also takes the backup's UI state; merging keeps this browser's
+  const restoreBackup = useCallback(
+    async (
+      backup: WorkspaceBackup,
+      mode: RestoreMode
+    ): Promise<RestoreResult | null> => {
+      try {
+        const result = await workspaceApi.restoreWorkspace(backup, mode);
+        if (mode === "replace" && backup.uiState) storeUIState(backup.uiState);
+        setError(null);
+        return result;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to restore backup");
+        return null;
+      }
+    },
+    []
+  );
+
+  return { error, createBackup, restoreBackup };
+}
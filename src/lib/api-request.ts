@@ -0,0 +1,13 @@
+// JSON fetch shared by the client API modules. Failed requests throw with
+// the server's error message.
+export async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error || `Request failed with ${response.status}`);
+  }
+  return body as T;
+}
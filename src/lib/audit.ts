@@ -0,0 +1,111 @@
+import { z } from "zod";
+import {
+  dealInputSchema,
+  formatContacts,
+  formatMoney,
+  type Contact,
+  type Deal,
+  type DealField,
+  type Money,
+} from "./deals";
+import { FILTER_FIELDS } from "./deal-filters";
+
+// Field-level audit log: every change to a deal is recorded with who made
+// it, when, and through which part of the app. Clients say where a change
+// came from in the CHANGE_SOURCE_HEADER header; the actor is the caller's
+// USER_ID_HEADER id.
+
+export const CHANGE_SOURCE_HEADER = "x-change-source";
+
+export const AUDIT_SOURCES = {
+  "inline-edit": "Inline edit",
+  "bulk-action": "Bulk action",
+  "row-action": "Row menu",
+  board: "Board",
+  calendar: "Calendar",
+  "new-deal": "New deal form",
+  import: "Import",
+  restore: "Backup restore",
+  undo: "Undo",
+  recalculation: "Forecast recalculation",
+  api: "API",
+} as const;
+
+export type AuditSource = keyof typeof AUDIT_SOURCES;
+
+export const auditSourceSchema = z.enum(
+  Object.keys(AUDIT_SOURCES) as [AuditSource, ...AuditSource[]]
+);
+
+// Each deal keeps this many entries. Past it, forecast recalculations are
+// dropped first (oldest first), so they never push out people's changes.
+export const MAX_AUDIT_ENTRIES_PER_DEAL = 1000;
+
+export type AuditAction = "created" | "updated" | "deleted";
+
+export interface AuditEntry {
+  id: string;
+  dealId: string;
+  // Name at the time, so entries for deleted deals still read well
+  dealName: string;
+  action: AuditAction;
+  // Set for "updated" entries only
+  field: DealField | null;
+  oldValue: unknown;
+  newValue: unknown;
+  actor: string;
+  timestamp: string;
+  source: AuditSource;
+}
+
+// Who made a change and from where
+export interface ChangeContext {
+  actor: string;
+  source: AuditSource;
+}
+
+const AUDITED_FIELDS = Object.keys(dealInputSchema.shape) as DealField[];
+
+// Fields whose values differ between two versions of a deal
+export function diffDeal(
+  before: Deal,
+  after: Deal
+): { field: DealField; oldValue: unknown; newValue: unknown }[] {
+  return AUDITED_FIELDS.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  ).map((field) => ({
+    field,
+    oldValue: before[field],
+    newValue: after[field],
+  }));
+}
+
+export function formatAuditField(field: DealField): string {
+  if (field in FILTER_FIELDS) {
+    return FILTER_FIELDS[field as keyof typeof FILTER_FIELDS].label;
+  }
+  switch (field) {
+    case "forecastOverride":
+      return "Forecast set by hand";
+    case "archivedAt":
+      return "Archived at";
+    default:
+      return field.charAt(0).toUpperCase() + field.slice(1);
+  }
+}
+
+export function formatAuditValue(field: DealField, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  switch (field) {
+    case "dealValue":
+    case "forecastValue":
+      return formatMoney(value as Money);
+    case "contacts":
+      return formatContacts(value as Contact[]) || "—";
+    case "archivedAt":
+      return new Date(String(value)).toLocaleString();
+    default:
+      if (typeof value === "boolean") return value ? "Yes" : "No";
+      return String(value);
+  }
+}
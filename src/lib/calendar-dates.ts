@@ -0,0 +1,94 @@
+// Date math for the deals calendar. Everything works on ISO calendar dates
+// ("2025-03-14") in UTC so a deal never drifts a day with the viewer's
+// time zone.
+
+export type CalendarMode = "month" | "week";
+
+// What the calendar shows: the month or week around `anchor`
+export interface CalendarPeriod {
+  mode: CalendarMode;
+  anchor: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function parseDate(iso: string): Date {
+  return new Date(`${iso}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Today in the viewer's own time zone, which is what "overdue" is judged by
+export function getToday(): string {
+  const now = new Date();
+  return formatDate(
+    new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+  );
+}
+
+export function addDays(iso: string, days: number): string {
+  return formatDate(new Date(parseDate(iso).getTime() + days * DAY_MS));
+}
+
+// Weeks start on Sunday
+export function startOfWeek(iso: string): string {
+  return addDays(iso, -parseDate(iso).getUTCDay());
+}
+
+export function isSameMonth(a: string, b: string): boolean {
+  return a.slice(0, 7) === b.slice(0, 7);
+}
+
+// Every day shown for the period around `anchor`: one week, or the whole
+// weeks covering its month
+export function getCalendarDays(anchor: string, mode: CalendarMode): string[] {
+  if (mode === "week") {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+  const start = startOfWeek(`${anchor.slice(0, 7)}-01`);
+  const days: string[] = [];
+  // Add whole weeks until the next one would start past the month
+  do {
+    for (let i = 0; i < 7; i++) days.push(addDays(start, days.length));
+  } while (isSameMonth(addDays(start, days.length), anchor));
+  return days;
+}
+
+// The anchor one period earlier (step -1) or later (step 1)
+export function shiftPeriod(
+  anchor: string,
+  mode: CalendarMode,
+  step: number
+): string {
+  if (mode === "week") return addDays(anchor, step * 7);
+  const date = parseDate(`${anchor.slice(0, 7)}-01`);
+  date.setUTCMonth(date.getUTCMonth() + step);
+  return formatDate(date);
+}
+
+export function formatPeriod(anchor: string, mode: CalendarMode): string {
+  if (mode === "month") {
+    return parseDate(anchor).toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+  }
+  const days = getCalendarDays(anchor, "week");
+  const format = (iso: string) =>
+    parseDate(iso).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  return `${format(days[0])} – ${format(days[6])}, ${days[6].slice(0, 4)}`;
+}
+
+export function getDayOfMonth(iso: string): number {
+  return parseDate(iso).getUTCDate();
+}
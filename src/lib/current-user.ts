@@ -0,0 +1,15 @@
+// There are no accounts yet, so each browser gets a stable anonymous id that
+// personal data such as saved views is filed under. The id travels to the API
+// in the USER_ID_HEADER header.
+export const USER_ID_HEADER = "x-user-id";
+
+const USER_ID_KEY = "deals-user-id";
+
+export function getCurrentUserId(): string {
+  let userId = localStorage.getItem(USER_ID_KEY);
+  if (!userId) {
+    userId = crypto.randomUUID();
+    localStorage.setItem(USER_ID_KEY, userId);
+  }
+  return userId;
+}
@@ -0,0 +1,156 @@
+import { STAGES, type Deal, type Stage } from "./deals";
+
+// Pipeline analytics over a filtered set of deals. Amounts are summed as
+// plain numbers, like the table totals (see DealsSummary.currency).
+
+export interface StageBucket {
+  stage: Stage;
+  count: number;
+  value: number;
+}
+
+// One step of the pipeline funnel: the deals that got at least this far
+export interface FunnelStep {
+  stage: Stage;
+  count: number;
+  value: number;
+  // Percentage of the previous step's deals that reached this one, null for
+  // the first step or when the previous one is empty
+  conversion: number | null;
+}
+
+export interface OwnerBucket {
+  owner: string;
+  count: number;
+  value: number;
+  forecast: number;
+}
+
+export interface MonthBucket {
+  // "2025-03"
+  month: string;
+  count: number;
+  value: number;
+  // Deals closing that month that were won or lost
+  won: number;
+  lost: number;
+  // Percentage of closed deals that were won, null when none closed
+  winRate: number | null;
+}
+
+export interface DealsAnalytics {
+  // Every stage in pipeline order, including empty ones
+  stages: StageBucket[];
+  // The open stages and Closed Won, in pipeline order
+  funnel: FunnelStep[];
+  // Largest pipeline first
+  owners: OwnerBucket[];
+  // Every month from the earliest close date to the latest
+  months: MonthBucket[];
+}
+
+function nextMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return monthIndex === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+}
+
+// First and last ISO dates of a "YYYY-MM" month, for drilling into a range
+export function getMonthRange(month: string): [string, string] {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return [`${month}-01`, `${month}-${String(lastDay).padStart(2, "0")}`];
+}
+
+export function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(
+    "en-US",
+    { month: "short", year: "numeric", timeZone: "UTC" }
+  );
+}
+
+// Deals don't record the stage they were lost at, so lost deals are left
+// out of the funnel rather than counted as reaching any particular step
+export const FUNNEL_STAGES: Stage[] = STAGES.filter((stage) => stage !== "Closed Lost");
+
+function buildFunnel(deals: Deal[]): FunnelStep[] {
+  const steps: FunnelStep[] = [];
+  FUNNEL_STAGES.forEach((stage, index) => {
+    const reached = deals.filter(
+      (deal) => FUNNEL_STAGES.indexOf(deal.stage) >= index
+    );
+    const previous = steps[index - 1];
+    steps.push({
+      stage,
+      count: reached.length,
+      value: reached.reduce((sum, deal) => sum + deal.dealValue.amount, 0),
+      conversion:
+        previous && previous.count > 0
+          ? (reached.length / previous.count) * 100
+          : null,
+    });
+  });
+  return steps;
+}
+
+export function analyzeDeals(deals: Deal[]): DealsAnalytics {
+  const stages = STAGES.map((stage) => {
+    const inStage = deals.filter((deal) => deal.stage === stage);
+    return {
+      stage,
+      count: inStage.length,
+      value: inStage.reduce((sum, deal) => sum + deal.dealValue.amount, 0),
+    };
+  });
+
+  const owners = new Map<string, OwnerBucket>();
+  for (const deal of deals) {
+    const bucket = owners.get(deal.owner) ?? {
+      owner: deal.owner,
+      count: 0,
+      value: 0,
+      forecast: 0,
+    };
+    bucket.count += 1;
+    bucket.value += deal.dealValue.amount;
+    bucket.forecast += deal.forecastValue.amount;
+    owners.set(deal.owner, bucket);
+  }
+
+  const byMonth = new Map<string, MonthBucket>();
+  for (const deal of deals) {
+    const month = deal.expectedClose.slice(0, 7);
+    const bucket = byMonth.get(month) ?? emptyMonth(month);
+    bucket.count += 1;
+    bucket.value += deal.dealValue.amount;
+    if (deal.stage === "Closed Won") bucket.won += 1;
+    if (deal.stage === "Closed Lost") bucket.lost += 1;
+    byMonth.set(month, bucket);
+  }
+
+  // Fill the gaps so the timeline's x axis is evenly spaced
+  const months: MonthBucket[] = [];
+  const sorted = Array.from(byMonth.keys()).sort();
+  if (sorted.length > 0) {
+    const last = sorted[sorted.length - 1];
+    for (let month = sorted[0]; month <= last; month = nextMonth(month)) {
+      const bucket = byMonth.get(month) ?? emptyMonth(month);
+      const closed = bucket.won + bucket.lost;
+      bucket.winRate = closed > 0 ? (bucket.won / closed) * 100 : null;
+      months.push(bucket);
+    }
+  }
+
+  return {
+    stages,
+    funnel: buildFunnel(deals),
+    owners: Array.from(owners.values()).sort((a, b) => b.value - a.value),
+    months,
+  };
+}
+
+function emptyMonth(month: string): MonthBucket {
+  return { month, count: 0, value: 0, won: 0, lost: 0, winRate: null };
+}
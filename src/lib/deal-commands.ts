@@ -0,0 +1,94 @@
+import type { AuditSource } from "./audit";
+import type { Deal, DealInput, DealPatch } from "./deals";
+
+// A reversible change. execute() is also used to redo it after an undo.
+// Both resolve to false when the server rejected the change. The audit log
+// files redos under the original source and undos under "undo".
+export interface UndoableCommand {
+  label: string;
+  execute: () => Promise<boolean>;
+  undo: () => Promise<boolean>;
+}
+
+// The persistence operations the commands are built on (see useDeals)
+export interface DealMutations {
+  createDeal: (input: DealInput, source: AuditSource) => Promise<Deal | null>;
+  upsertDeals: (deals: Deal[], source: AuditSource) => Promise<boolean>;
+  updateDeals: (
+    ids: string[],
+    changes: DealPatch,
+    source: AuditSource
+  ) => Promise<boolean>;
+  deleteDeals: (ids: string[], source: AuditSource) => Promise<boolean>;
+}
+
+export function updateDealsCommand(
+  mutations: DealMutations,
+  deals: Deal[],
+  changes: DealPatch,
+  label: string,
+  source: AuditSource
+): UndoableCommand {
+  const ids = deals.map((deal) => deal.id);
+  const fields = Object.keys(changes) as (keyof DealPatch)[];
+  // Remember only the fields being changed, so undo doesn't clobber
+  // unrelated edits made in the meantime
+  const previous = deals.map((deal) => ({
+    id: deal.id,
+    patch: Object.fromEntries(
+      fields.map((field) => [field, deal[field]])
+    ) as DealPatch,
+  }));
+
+  return {
+    label,
+    execute: () => mutations.updateDeals(ids, changes, source),
+    undo: async () => {
+      const results = await Promise.all(
+        previous.map(({ id, patch }) =>
+          mutations.updateDeals([id], patch, "undo")
+        )
+      );
+      return results.every(Boolean);
+    },
+  };
+}
+
+export function deleteDealsCommand(
+  mutations: DealMutations,
+  deals: Deal[],
+  label: string,
+  source: AuditSource
+): UndoableCommand {
+  const ids = deals.map((deal) => deal.id);
+
+  return {
+    label,
+    execute: () => mutations.deleteDeals(ids, source),
+    // Restores the deals with their original ids
+    undo: () => mutations.upsertDeals(deals, "undo"),
+  };
+}
+
+export function createDealCommand(
+  mutations: DealMutations,
+  input: DealInput,
+  label: string,
+  source: AuditSource,
+  onCreated?: (deal: Deal) => void
+): UndoableCommand {
+  let created: Deal | null = null;
+
+  return {
+    label,
+    execute: async () => {
+      // Redo brings back the same deal rather than minting a new id
+      if (created) return mutations.upsertDeals([created], source);
+      created = await mutations.createDeal(input, source);
+      if (created) onCreated?.(created);
+      return created !== null;
+    },
+    undo: async () =>
+      created ? mutations.deleteDeals([created.id], "undo") : false,
+  };
+}
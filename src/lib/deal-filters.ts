@@ -0,0 +1,481 @@
+import { z } from "zod";
+import { formatContacts, STAGES, type Deal } from "./deals";
+
+// Filter trees for the deals table: AND/OR groups of per-field conditions,
+// nested as deep as needed. The same evaluator runs in the browser and in
+// the deals API, so both always agree on what matches.
+
+export type FilterFieldType = "text" | "enum" | "number" | "date";
+
+export const FILTER_FIELDS = {
+  deal: { label: "Deal", type: "text" },
+  stage: { label: "Stage", type: "enum", options: STAGES },
+  owner: {
+    label: "Owner",
+    type: "text",
+    options: ["Alex Chen", "Sam Wilson", "Emma Brown", "James Liu", "Chris Taylor"],
+  },
+  accounts: { label: "Accounts", type: "text" },
+  contacts: { label: "Contacts", type: "text" },
+  activitiesTimeline: { label: "Activities Timeline", type: "text" },
+  dealValue: { label: "Deal Value", type: "number" },
+  forecastValue: { label: "Forecast Value", type: "number" },
+  expectedClose: { label: "Expected Close", type: "date" },
+} as const satisfies Record<
+  string,
+  { label: string; type: FilterFieldType; options?: readonly string[] }
+>;
+
+export type FilterField = keyof typeof FILTER_FIELDS;
+
+export const FILTER_OPERATORS = {
+  is: "is",
+  isNot: "is not",
+  isAnyOf: "is any of",
+  isNoneOf: "is none of",
+  contains: "contains",
+  notContains: "does not contain",
+  eq: "=",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  between: "is between",
+  on: "is on",
+  before: "is before",
+  after: "is after",
+  withinNextDays: "is within the next",
+  isEmpty: "is empty",
+  isNotEmpty: "is not empty",
+} as const;
+
+export type FilterOperator = keyof typeof FILTER_OPERATORS;
+
+const OPERATORS_BY_TYPE: Record<FilterFieldType, FilterOperator[]> = {
+  text: [
+    "is",
+    "isNot",
+    "isAnyOf",
+    "isNoneOf",
+    "contains",
+    "notContains",
+    "isEmpty",
+    "isNotEmpty",
+  ],
+  enum: ["is", "isNot", "isAnyOf", "isNoneOf"],
+  number: ["eq", "gt", "gte", "lt", "lte", "between"],
+  date: ["on", "before", "after", "between", "withinNextDays"],
+};
+
+const filterFieldSchema = z.enum(
+  Object.keys(FILTER_FIELDS) as [FilterField, ...FilterField[]]
+);
+const filterOperatorSchema = z.enum(
+  Object.keys(FILTER_OPERATORS) as [FilterOperator, ...FilterOperator[]]
+);
+
+// Operands by operator: a string or number for single comparisons, a list
+// for isAnyOf/isNoneOf, a pair for between, nothing for isEmpty/isNotEmpty
+export const filterValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.array(z.string()),
+  z.tuple([z.number(), z.number()]),
+  z.tuple([z.string(), z.string()]),
+]);
+
+export const filterConditionSchema = z.object({
+  type: z.literal("condition"),
+  id: z.string(),
+  field: filterFieldSchema,
+  operator: filterOperatorSchema,
+  value: filterValueSchema.optional(),
+});
+
+export type FilterValue = z.infer<typeof filterValueSchema>;
+export type FilterCondition = z.infer<typeof filterConditionSchema>;
+
+export interface FilterGroup {
+  type: "group";
+  id: string;
+  combinator: "and" | "or";
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export const filterGroupSchema: z.ZodType<FilterGroup> = z.lazy(() =>
+  z.object({
+    type: z.literal("group"),
+    id: z.string(),
+    combinator: z.enum(["and", "or"]),
+    children: z.array(z.union([filterConditionSchema, filterGroupSchema])),
+  })
+);
+
+export function createFilterId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function createFilterGroup(
+  combinator: FilterGroup["combinator"] = "and",
+  children: FilterNode[] = []
+): FilterGroup {
+  return { type: "group", id: createFilterId(), combinator, children };
+}
+
+export function createFilterCondition(
+  field: FilterField,
+  operator: FilterOperator = getOperators(field)[0],
+  value?: FilterValue
+): FilterCondition {
+  return { type: "condition", id: createFilterId(), field, operator, value };
+}
+
+export function getOperators(field: FilterField): FilterOperator[] {
+  return OPERATORS_BY_TYPE[FILTER_FIELDS[field].type];
+}
+
+// Suggested values for fields that have a known set of them
+export function getFieldOptions(field: FilterField): readonly string[] | undefined {
+  const config = FILTER_FIELDS[field];
+  return "options" in config ? config.options : undefined;
+}
+
+// The shape of operand an operator takes
+export type OperandKind = "none" | "single" | "list" | "range";
+
+export function getOperandKind(operator: FilterOperator): OperandKind {
+  switch (operator) {
+    case "isEmpty":
+    case "isNotEmpty":
+      return "none";
+    case "isAnyOf":
+    case "isNoneOf":
+      return "list";
+    case "between":
+      return "range";
+    default:
+      return "single";
+  }
+}
+
+export function countConditions(group: FilterGroup): number {
+  return group.children.reduce(
+    (count, child) =>
+      count + (child.type === "group" ? countConditions(child) : 1),
+    0
+  );
+}
+
+// --- Column filters ---
+// The quick filters in the table headers are ordinary top-level conditions
+// in the same tree: a value checklist (isAnyOf) for fields with a short list
+// of values, a range (between) for numbers and dates.
+
+export type ColumnFilterKind = "values" | "range";
+
+export const COLUMN_FILTER_KINDS: Partial<Record<FilterField, ColumnFilterKind>> = {
+  stage: "values",
+  owner: "values",
+  accounts: "values",
+  dealValue: "range",
+  forecastValue: "range",
+  expectedClose: "range",
+};
+
+export function getColumnFilterKind(column: string): ColumnFilterKind | undefined {
+  return COLUMN_FILTER_KINDS[column as FilterField];
+}
+
+function getColumnFilterOperator(kind: ColumnFilterKind): FilterOperator {
+  return kind === "values" ? "isAnyOf" : "between";
+}
+
+// The column's filter, if the top level of the tree has one. Under a
+// top-level "or" a condition is one alternative among several rather than a
+// filter on the column, so it doesn't count.
+export function getColumnFilter(
+  where: FilterGroup,
+  field: FilterField
+): FilterCondition | undefined {
+  const kind = getColumnFilterKind(field);
+  if (!kind) return undefined;
+  if (where.combinator === "or" && where.children.length > 1) return undefined;
+  return where.children.find(
+    (child): child is FilterCondition =>
+      child.type === "condition" &&
+      child.field === field &&
+      child.operator === getColumnFilterOperator(kind)
+  );
+}
+
+// Sets or (with a null value) clears a column's filter. The existing
+// condition is updated in place so it keeps its position in the builder.
+export function setColumnFilter(
+  where: FilterGroup,
+  field: FilterField,
+  value: FilterValue | null
+): FilterGroup {
+  const kind = getColumnFilterKind(field);
+  if (!kind) return where;
+  const existing = getColumnFilter(where, field);
+
+  if (value === null) {
+    return existing
+      ? { ...where, children: where.children.filter((child) => child !== existing) }
+      : where;
+  }
+  if (existing) {
+    return {
+      ...where,
+      children: where.children.map((child) =>
+        child === existing ? { ...existing, value } : child
+      ),
+    };
+  }
+
+  const condition = createFilterCondition(field, getColumnFilterOperator(kind), value);
+  if (where.combinator === "or" && where.children.length > 1) {
+    // Keep the "or" conditions together and require the column filter as well
+    return {
+      ...where,
+      combinator: "and",
+      children: [{ ...where, id: createFilterId() }, condition],
+    };
+  }
+  return { ...where, children: [...where.children, condition] };
+}
+
+// --- Evaluation ---
+
+function getTextValue(deal: Deal, field: FilterField): string {
+  if (field === "contacts") return formatContacts(deal.contacts);
+  const value = deal[field as keyof Deal];
+  return typeof value === "string" ? value : "";
+}
+
+function getNumberValue(deal: Deal, field: FilterField): number {
+  return field === "dealValue" || field === "forecastValue"
+    ? deal[field].amount
+    : Number.NaN;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === "") return null;
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+function toList(value: FilterValue | undefined): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return value === undefined || value === "" ? [] : [String(value)];
+}
+
+function localIsoDate(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+function addDays(days: number, from = new Date()): string {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return localIsoDate(date);
+}
+
+// Conditions still missing an operand are ignored rather than hiding every
+// row while the user is halfway through building them. A range only needs
+// one bound; a blank one leaves that end open.
+function isComplete(condition: FilterCondition): boolean {
+  const { operator, value } = condition;
+  switch (getOperandKind(operator)) {
+    case "none":
+      return true;
+    case "list":
+      return toList(value).length > 0;
+    case "range":
+      return (
+        Array.isArray(value) &&
+        value.length === 2 &&
+        value.some((bound) => bound !== "")
+      );
+    default:
+      return value !== undefined && value !== "" && !Array.isArray(value);
+  }
+}
+
+function matchesCondition(deal: Deal, condition: FilterCondition): boolean {
+  if (!isComplete(condition)) return true;
+  const { field, operator, value } = condition;
+  const type = FILTER_FIELDS[field].type;
+
+  if (type === "number") {
+    const actual = getNumberValue(deal, field);
+    if (operator === "between" && Array.isArray(value)) {
+      const [min, max] = value.map(toNumber);
+      return (
+        (min === null || actual >= min) && (max === null || actual <= max)
+      );
+    }
+    const operand = toNumber(value);
+    if (operand === null) return true;
+    switch (operator) {
+      case "eq":
+        return actual === operand;
+      case "gt":
+        return actual > operand;
+      case "gte":
+        return actual >= operand;
+      case "lt":
+        return actual < operand;
+      case "lte":
+        return actual <= operand;
+      default:
+        return true;
+    }
+  }
+
+  if (type === "date") {
+    // ISO dates compare correctly as strings
+    const actual = getTextValue(deal, field);
+    switch (operator) {
+      case "on":
+        return actual === value;
+      case "before":
+        return actual < String(value);
+      case "after":
+        return actual > String(value);
+      case "between": {
+        const [from, to] = toList(value);
+        return (!from || actual >= from) && (!to || actual <= to);
+      }
+      case "withinNextDays": {
+        const days = toNumber(value);
+        if (days === null) return true;
+        return actual >= addDays(0) && actual <= addDays(days);
+      }
+      default:
+        return true;
+    }
+  }
+
+  const actual = getTextValue(deal, field).trim().toLowerCase();
+  const operands = toList(value).map((item) => item.trim().toLowerCase());
+  switch (operator) {
+    case "is":
+    case "isAnyOf":
+      return operands.includes(actual);
+    case "isNot":
+    case "isNoneOf":
+      return !operands.includes(actual);
+    case "contains":
+      return actual.includes(operands[0]);
+    case "notContains":
+      return !actual.includes(operands[0]);
+    case "isEmpty":
+      return actual === "";
+    case "isNotEmpty":
+      return actual !== "";
+    default:
+      return true;
+  }
+}
+
+export function matchesFilter(deal: Deal, node: FilterNode): boolean {
+  if (node.type === "condition") return matchesCondition(deal, node);
+  if (node.children.length === 0) return true;
+  return node.combinator === "and"
+    ? node.children.every((child) => matchesFilter(deal, child))
+    : node.children.some((child) => matchesFilter(deal, child));
+}
+
+// --- Compact serialization ---
+// Used in API and page URLs. Groups become ["and" | "or", ...children] and
+// conditions [field, operator, value?], e.g.
+//   ["and",["stage","isAnyOf",["Negotiation"]],["owner","is","Sam Wilson"]]
+// Ids are dropped and regenerated when parsing.
+
+type CompactNode = [string, ...unknown[]];
+
+function toCompact(node: FilterNode): CompactNode {
+  if (node.type === "group") {
+    return [node.combinator, ...node.children.map(toCompact)];
+  }
+  return node.value === undefined
+    ? [node.field, node.operator]
+    : [node.field, node.operator, node.value];
+}
+
+function fromCompact(compact: unknown): FilterNode | null {
+  if (!Array.isArray(compact) || compact.length === 0) return null;
+  const [head, ...rest] = compact;
+  if (head === "and" || head === "or") {
+    const children = rest
+      .map(fromCompact)
+      .filter((child): child is FilterNode => child !== null);
+    return createFilterGroup(head, children);
+  }
+  const result = filterConditionSchema.safeParse({
+    type: "condition",
+    id: createFilterId(),
+    field: head,
+    operator: rest[0],
+    value: rest[1],
+  });
+  if (!result.success) return null;
+  const condition = result.data;
+  return getOperators(condition.field).includes(condition.operator)
+    ? condition
+    : null;
+}
+
+export function serializeFilter(group: FilterGroup): string {
+  return JSON.stringify(toCompact(group));
+}
+
+// Returns null for text that isn't a valid filter; invalid conditions
+// inside an otherwise valid filter are dropped
+export function parseFilter(text: string): FilterGroup | null {
+  try {
+    const node = fromCompact(JSON.parse(text));
+    return node?.type === "group" ? node : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Display ---
+
+function describeValue(value: FilterValue | undefined): string {
+  if (Array.isArray(value)) return value.join(", ");
+  return value === undefined ? "" : String(value);
+}
+
+export function describeCondition(condition: FilterCondition): string {
+  const { field, operator, value } = condition;
+  let operand = describeValue(value);
+  if (operator === "between" && Array.isArray(value)) {
+    const [from, to] = value.map(String);
+    if (!to) return `${FILTER_FIELDS[field].label} from ${from}`;
+    if (!from) return `${FILTER_FIELDS[field].label} up to ${to}`;
+    operand = `${from} and ${to}`;
+  } else if (operator === "withinNextDays") {
+    operand = `${operand} days`;
+  }
+  return [FILTER_FIELDS[field].label, FILTER_OPERATORS[operator], operand]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// The whole tree as one sentence, nested groups in parentheses, e.g.
+// "Stage is Proposal and (Owner is Alex Chen or Deal Value greater than 5000)"
+export function describeFilterGroup(group: FilterGroup): string {
+  return group.children
+    .map((child) => {
+      if (child.type === "condition") return describeCondition(child);
+      const nested = describeFilterGroup(child);
+      return child.children.length > 1 ? `(${nested})` : nested;
+    })
+    .filter(Boolean)
+    .join(` ${group.combinator} `);
+}
@@ -0,0 +1,170 @@
+import { STAGES, type Deal } from "./deals";
+
+// Grouping for the deals table: deals are ordered so every group is one
+// contiguous run, and the server sends subtotals for each group over all
+// matching deals, not just the ones on the current page.
+
+export const GROUP_FIELDS = {
+  stage: "Stage",
+  owner: "Owner",
+  accounts: "Account",
+  closeMonth: "Close month",
+} as const;
+
+export type GroupField = keyof typeof GROUP_FIELDS;
+
+// Groups can nest this many levels, e.g. by stage and then by owner
+export const MAX_GROUP_LEVELS = 2;
+
+export function isGroupField(value: string): value is GroupField {
+  return value in GROUP_FIELDS;
+}
+
+export interface DealGroupSummary {
+  id: string;
+  // Group keys from the outermost level down to this group
+  path: string[];
+  count: number;
+  dealValue: number;
+  forecastValue: number;
+}
+
+export function getGroupKey(deal: Deal, field: GroupField): string {
+  switch (field) {
+    case "closeMonth":
+      // "2025-03" from an ISO date
+      return deal.expectedClose.slice(0, 7);
+    default:
+      return deal[field];
+  }
+}
+
+export function formatGroupKey(field: GroupField, key: string): string {
+  if (key === "") return `No ${GROUP_FIELDS[field].toLowerCase()}`;
+  if (field === "closeMonth") {
+    const [year, month] = key.split("-").map(Number);
+    if (!year || !month) return key;
+    return new Date(year, month - 1, 1).toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+    });
+  }
+  return key;
+}
+
+// Stages follow the pipeline, months run in date order and everything else
+// is alphabetical; deals without a value come last
+export function compareGroupKeys(field: GroupField, a: string, b: string): number {
+  if (a === b) return 0;
+  if (a === "") return 1;
+  if (b === "") return -1;
+  if (field === "stage") {
+    const stages: readonly string[] = STAGES;
+    return stages.indexOf(a) - stages.indexOf(b);
+  }
+  return a.localeCompare(b);
+}
+
+export function getGroupId(groupBy: GroupField[], path: string[]): string {
+  return JSON.stringify(path.map((key, level) => [groupBy[level], key]));
+}
+
+export function summarizeGroups(
+  deals: Deal[],
+  groupBy: GroupField[]
+): DealGroupSummary[] {
+  const groups = new Map<string, DealGroupSummary>();
+  for (const deal of deals) {
+    const path: string[] = [];
+    for (const field of groupBy) {
+      path.push(getGroupKey(deal, field));
+      const id = getGroupId(groupBy, path);
+      const group = groups.get(id) ?? {
+        id,
+        path: [...path],
+        count: 0,
+        dealValue: 0,
+        forecastValue: 0,
+      };
+      group.count += 1;
+      group.dealValue += deal.dealValue.amount;
+      group.forecastValue += deal.forecastValue.amount;
+      groups.set(id, group);
+    }
+  }
+  return Array.from(groups.values());
+}
+
+export interface GroupHeader {
+  id: string;
+  field: GroupField;
+  key: string;
+  // 0 for the outermost level
+  level: number;
+  summary: DealGroupSummary;
+  collapsed: boolean;
+}
+
+export interface GroupLayout {
+  // Every group header in display order, including those inside collapsed
+  // groups (which aren't shown)
+  headers: GroupHeader[];
+  // Headers to show just above each deal
+  headersBefore: Map<string, GroupHeader[]>;
+  // Deals inside a collapsed group
+  hidden: Set<string>;
+}
+
+// Lays out group headers for deals already in group order. Subtotals come
+// from `summaries` when present (the server's, covering every page) and
+// from the given deals otherwise.
+export function layoutGroups(
+  deals: Deal[],
+  groupBy: GroupField[],
+  summaries: DealGroupSummary[],
+  collapsed: Set<string>
+): GroupLayout {
+  const layout: GroupLayout = {
+    headers: [],
+    headersBefore: new Map(),
+    hidden: new Set(),
+  };
+  if (groupBy.length === 0) return layout;
+
+  const known = new Map(summaries.map((group) => [group.id, group]));
+  const local = new Map(
+    summarizeGroups(deals, groupBy).map((group) => [group.id, group])
+  );
+  let previous: string[] = [];
+
+  for (const deal of deals) {
+    const path = groupBy.map((field) => getGroupKey(deal, field));
+    const shown: GroupHeader[] = [];
+    let insideCollapsed = false;
+
+    path.forEach((key, level) => {
+      const id = getGroupId(groupBy, path.slice(0, level + 1));
+      const isNew = path
+        .slice(0, level + 1)
+        .some((part, i) => part !== previous[i]);
+      if (isNew) {
+        const header: GroupHeader = {
+          id,
+          field: groupBy[level],
+          key,
+          level,
+          summary: known.get(id) ?? local.get(id)!,
+          collapsed: collapsed.has(id),
+        };
+        layout.headers.push(header);
+        if (!insideCollapsed) shown.push(header);
+      }
+      if (collapsed.has(id)) insideCollapsed = true;
+    });
+
+    if (shown.length > 0) layout.headersBefore.set(deal.id, shown);
+    if (insideCollapsed) layout.hidden.add(deal.id);
+    previous = path;
+  }
+  return layout;
+}
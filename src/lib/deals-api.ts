@@ -0,0 +1,144 @@
+import { request } from "./api-request";
+import {
+  CHANGE_SOURCE_HEADER,
+  type AuditEntry,
+  type AuditSource,
+} from "./audit";
+import { getCurrentUserId, USER_ID_HEADER } from "./current-user";
+import type { Deal, DealInput, DealPatch } from "./deals";
+import type { DealsAnalytics } from "./deal-analytics";
+import type { ImportRequest, ImportResult } from "./deals-import";
+import {
+  MAX_PAGE_SIZE,
+  toSearchParams,
+  type DealsPage,
+  type DealsQuery,
+  type DealsSummary,
+  type FilterState,
+} from "./deals-query";
+
+// Changes are logged against the current user and the part of the app they
+// were made from
+function asChange(source: AuditSource, init: RequestInit): RequestInit {
+  return {
+    ...init,
+    headers: {
+      ...init.headers,
+      [USER_ID_HEADER]: getCurrentUserId(),
+      [CHANGE_SOURCE_HEADER]: source,
+    },
+  };
+}
+
+export function fetchDeals(
+  query: DealsQuery,
+  signal?: AbortSignal
+): Promise<DealsPage> {
+  return request<DealsPage>(`/api/deals?${toSearchParams(query)}`, {
+    cache: "no-store",
+    signal,
+  });
+}
+
+// Every deal matching the query, not just one page, with the summary of the
+// whole set. The API serves at most MAX_PAGE_SIZE deals at a time, so larger
+// sets are loaded page by page.
+export async function fetchAllDeals(
+  query: Omit<DealsQuery, "page" | "pageSize">,
+  signal?: AbortSignal
+): Promise<{ deals: Deal[]; summary: DealsSummary }> {
+  const deals: Deal[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchDeals(
+      { ...query, page, pageSize: MAX_PAGE_SIZE },
+      signal
+    );
+    deals.push(...result.deals);
+    if (deals.length >= result.total || result.deals.length === 0) {
+      return { deals, summary: result.summary };
+    }
+  }
+}
+
+export function fetchDealsAnalytics(
+  filters: FilterState,
+  signal?: AbortSignal
+): Promise<DealsAnalytics> {
+  const params = toSearchParams({
+    archived: false,
+    filters,
+    sorts: [],
+    page: 1,
+    pageSize: 1,
+  });
+  return request<DealsAnalytics>(`/api/analytics?${params}`, {
+    cache: "no-store",
+    signal,
+  });
+}
+
+export async function fetchDealHistory(
+  id: string,
+  signal?: AbortSignal
+): Promise<AuditEntry[]> {
+  const { entries } = await request<{ entries: AuditEntry[] }>(
+    `/api/deals/${encodeURIComponent(id)}/history`,
+    { cache: "no-store", signal }
+  );
+  return entries;
+}
+
+export async function createDeal(
+  input: DealInput,
+  source: AuditSource
+): Promise<Deal> {
+  const { deal } = await request<{ deal: Deal }>(
+    "/api/deals",
+    asChange(source, { method: "POST", body: JSON.stringify(input) })
+  );
+  return deal;
+}
+
+export async function upsertDeals(
+  deals: Deal[],
+  source: AuditSource
+): Promise<Deal[]> {
+  const { deals: saved } = await request<{ deals: Deal[] }>(
+    "/api/deals",
+    asChange(source, { method: "PUT", body: JSON.stringify({ deals }) })
+  );
+  return saved;
+}
+
+export async function updateDeals(
+  ids: string[],
+  changes: DealPatch,
+  source: AuditSource
+): Promise<Deal[]> {
+  const { deals } = await request<{ deals: Deal[] }>(
+    "/api/deals",
+    asChange(source, {
+      method: "PATCH",
+      body: JSON.stringify({ ids, changes }),
+    })
+  );
+  return deals;
+}
+
+export async function deleteDeals(
+  ids: string[],
+  source: AuditSource
+): Promise<string[]> {
+  const { deleted } = await request<{ deleted: string[] }>(
+    "/api/deals",
+    asChange(source, { method: "DELETE", body: JSON.stringify({ ids }) })
+  );
+  return deleted;
+}
+
+export function importDeals(input: ImportRequest): Promise<ImportResult> {
+  return request<ImportResult>(
+    "/api/deals/import",
+    asChange("import", { method: "POST", body: JSON.stringify(input) })
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  dealInputSchema,
+  formatDealField,
+  type Deal,
+  type DealField,
+  type Money,
+} from "./deals";
+
+// Exports of the deals table. Only columns backed by a deal field are
+// exported; selection, expand and placeholder columns have nothing to write.
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type NumberFormat = "formatted" | "raw";
+
+export interface ExportColumn {
+  field: DealField;
+  header: string;
+}
+
+const MONEY_FIELDS: DealField[] = ["dealValue", "forecastValue"];
+
+export function isExportableColumn(id: string): id is DealField {
+  return id in dealInputSchema.shape;
+}
+
+// Spreadsheets run cells starting with these as formulas
+export const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes a value when it holds a delimiter, quote or line break (RFC 4180).
+// Values that would be read as a formula, e.g. a deal named "=HYPERLINK(..)",
+// get a leading apostrophe so they stay text.
+export function escapeCsvValue(value: string): string {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Raw numbers write money as a plain amount followed by a currency column,
+// so spreadsheets can sum it; formatted numbers write what the table shows
+export function toCsv(
+  deals: Deal[],
+  columns: ExportColumn[],
+  numbers: NumberFormat
+): string {
+  const isRawMoney = (field: DealField) =>
+    numbers === "raw" && MONEY_FIELDS.includes(field);
+
+  const headerRow = columns.flatMap(({ field, header }) =>
+    isRawMoney(field) ? [header, `${header} Currency`] : [header]
+  );
+
+  const rows = deals.map((deal) =>
+    columns.flatMap(({ field }) => {
+      if (isRawMoney(field)) {
+        const money = deal[field] as Money;
+        return [String(money.amount), money.currency];
+      }
+      return [formatDealField(deal, field)];
+    })
+  );
+
+  // CRLF line endings and a byte order mark so Excel reads currency symbols
+  // and accented names correctly
+  return (
+    "\uFEFF" +
+    [headerRow, ...rows]
+      .map((cells) => cells.map(escapeCsvValue).join(","))
+      .join("\r\n")
+  );
+}
+
+export function getExportFileName(extension: string): string {
+  return `deals-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+const DOWNLOAD_CLEANUP_DELAY_MS = 1000;
+
+// Saves content as a file through a temporary link
+export function downloadFile(
+  content: BlobPart,
+  fileName: string,
+  type: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  // Firefox and Safari can abort a download whose URL is revoked during the
+  // click, so clean up once it has started
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+    link.remove();
+  }, DOWNLOAD_CLEANUP_DELAY_MS);
+}
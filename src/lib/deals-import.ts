@@ -0,0 +1,431 @@
+import { z } from "zod";
+import {
+  CURRENCIES,
+  dealInputSchema,
+  dealPatchSchema,
+  DEFAULT_CURRENCY,
+  describeIssues,
+  parseContacts,
+  STAGES,
+  toIsoDate,
+  toMoney,
+  type CurrencyCode,
+  type DealPatch,
+  type IsoDate,
+  type Money,
+} from "./deals";
+import { FILTER_FIELDS } from "./deal-filters";
+import { FORMULA_PREFIX } from "./deals-export";
+
+// Importing deals from CSV or Excel files: the file's columns are mapped
+// onto deal fields, every row is checked in the browser for a preview, and
+// the valid rows go to the server as new deals or as updates matched on a
+// key column. The server checks them again before writing anything.
+
+export const IMPORT_FIELDS = [
+  "deal",
+  "stage",
+  "dealValue",
+  "forecastValue",
+  "owner",
+  "accounts",
+  "contacts",
+  "expectedClose",
+  "activitiesTimeline",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Where a source column goes: a deal field, or the deal id for upserts
+export type ImportTarget = ImportField | "id";
+
+// One target (or null to skip the column) per source column
+export type ColumnMapping = (ImportTarget | null)[];
+
+// Every new deal needs these
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = [
+  "deal",
+  "stage",
+  "dealValue",
+  "expectedClose",
+];
+
+export const IMPORT_MODES = {
+  create: "Create new deals",
+  upsert: "Update matching deals, create the rest",
+} as const;
+
+export type ImportMode = keyof typeof IMPORT_MODES;
+
+// Columns an upsert can match existing deals on
+export const IMPORT_KEYS = {
+  id: "Deal ID",
+  deal: "Deal name",
+} as const;
+
+export type ImportKey = keyof typeof IMPORT_KEYS;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const importRequestSchema = z.object({
+  mode: z.enum(["create", "upsert"]),
+  key: z.enum(["id", "deal"]),
+  rows: z
+    .array(
+      z.object({
+        line: z.number().int(),
+        key: z.string().nullable(),
+        values: dealPatchSchema,
+      })
+    )
+    .max(MAX_IMPORT_ROWS),
+});
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+}
+
+// The file's header row and the rows under it, blank rows dropped
+export interface ImportSheet {
+  headers: string[];
+  rows: { line: number; cells: string[] }[];
+}
+
+export interface ImportRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  // Value of the key column, for upserts
+  key: string | null;
+  values: DealPatch;
+  errors: string[];
+}
+
+export function getImportTargetLabel(target: ImportTarget): string {
+  return target === "id" ? IMPORT_KEYS.id : FILTER_FIELDS[target].label;
+}
+
+// Splits CSV text into rows of cells, honouring quoted values (RFC 4180)
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Uses the first non-blank row as the headers
+export function toImportSheet(rows: string[][]): ImportSheet {
+  const lines = rows
+    .map((cells, index) => ({ line: index + 1, cells }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+  const [header, ...body] = lines;
+  return {
+    headers: header ? header.cells.map((cell) => cell.trim()) : [],
+    rows: body,
+  };
+}
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Other names spreadsheets commonly use for the fields
+const HEADER_ALIASES: Record<string, ImportTarget> = {
+  dealid: "id",
+  name: "deal",
+  dealname: "deal",
+  title: "deal",
+  status: "stage",
+  value: "dealValue",
+  amount: "dealValue",
+  forecast: "forecastValue",
+  account: "accounts",
+  company: "accounts",
+  contact: "contacts",
+  close: "expectedClose",
+  closedate: "expectedClose",
+  expectedclosedate: "expectedClose",
+  activities: "activitiesTimeline",
+};
+
+function matchHeader(header: string): ImportTarget | null {
+  const normalized = normalizeHeader(header);
+  if (normalized === "id") return "id";
+  const field = IMPORT_FIELDS.find(
+    (field) =>
+      normalizeHeader(field) === normalized ||
+      normalizeHeader(FILTER_FIELDS[field].label) === normalized
+  );
+  return field ?? HEADER_ALIASES[normalized] ?? null;
+}
+
+// Maps each header onto the field it names, using each field at most once
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const used = new Set<ImportTarget>();
+  return headers.map((header) => {
+    const target = matchHeader(header);
+    if (!target || used.has(target)) return null;
+    used.add(target);
+    return target;
+  });
+}
+
+const CURRENCY_SYMBOLS: Record<string, CurrencyCode> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+};
+
+// Amounts may carry a currency symbol or code, e.g. "€1,200" or "1200 GBP"
+function parseImportedMoney(text: string): Money | null {
+  const code = CURRENCIES.find((currency) =>
+    text.toUpperCase().includes(currency)
+  );
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((symbol) =>
+    text.includes(symbol)
+  );
+  const currency =
+    code ?? (symbol ? CURRENCY_SYMBOLS[symbol] : DEFAULT_CURRENCY);
+  // Whatever is left besides the currency and separators must be a number
+  const amount = text
+    .toUpperCase()
+    .replace(currency, "")
+    .replace(/[$€£,\s]/g, "");
+  // Deal amounts are never negative, so a minus sign makes it invalid
+  return /^\d+(\.\d+)?$/.test(amount)
+    ? toMoney(Number(amount), currency)
+    : null;
+}
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+// 1 to 12 for a month's name or its abbreviation of 3 letters or more
+function parseMonthName(text: string): number | null {
+  const name = text.toLowerCase();
+  if (name.length < 3) return null;
+  const index = MONTH_NAMES.findIndex((month) => month.startsWith(name));
+  return index === -1 ? null : index + 1;
+}
+
+function toDate(year: number, month: number, day: number): IsoDate | null {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return toIsoDate(`${year}-${pad(month)}-${pad(day)}`);
+}
+
+// Excel stores dates as days since 1899-12-30. Only serials from 1970-01-01
+// to 2099-12-31 are taken as dates, so short numbers like "2024" aren't.
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MIN_EXCEL_SERIAL = 25569;
+const MAX_EXCEL_SERIAL = 73050;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ISO dates as they are, plus the other forms spreadsheets write dates in:
+// "3/15/2024", "Mar 15, 2024", "15 March 2024" and Excel serial numbers.
+// Anything else is rejected rather than guessed at.
+function parseImportedDate(text: string): IsoDate | null {
+  const iso = toIsoDate(text);
+  if (iso) return iso;
+
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (us) return toDate(Number(us[3]), Number(us[1]), Number(us[2]));
+
+  const monthFirst = /^([a-z]+)\.? (\d{1,2}),? (\d{4})$/i.exec(text);
+  if (monthFirst) {
+    const month = parseMonthName(monthFirst[1]);
+    return month
+      ? toDate(Number(monthFirst[3]), month, Number(monthFirst[2]))
+      : null;
+  }
+  const dayFirst = /^(\d{1,2}) ([a-z]+)\.?,? (\d{4})$/i.exec(text);
+  if (dayFirst) {
+    const month = parseMonthName(dayFirst[2]);
+    return month
+      ? toDate(Number(dayFirst[3]), month, Number(dayFirst[1]))
+      : null;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = Math.floor(Number(text));
+    if (serial < MIN_EXCEL_SERIAL || serial > MAX_EXCEL_SERIAL) return null;
+    return toIsoDate(
+      new Date(EXCEL_EPOCH + serial * DAY_MS).toISOString().slice(0, 10)
+    );
+  }
+  return null;
+}
+
+function parseImportedValue(
+  field: ImportField,
+  text: string
+): { value: unknown } | { error: string } {
+  const label = FILTER_FIELDS[field].label;
+  switch (field) {
+    case "stage": {
+      const stage = STAGES.find(
+        (stage) => stage.toLowerCase() === text.toLowerCase()
+      );
+      return stage
+        ? { value: stage }
+        : { error: `${label} "${text}" isn't one of ${STAGES.join(", ")}` };
+    }
+    case "dealValue":
+    case "forecastValue": {
+      const money = parseImportedMoney(text);
+      return money
+        ? { value: money }
+        : { error: `${label} "${text}" isn't an amount of 0 or more` };
+    }
+    case "expectedClose": {
+      const date = parseImportedDate(text);
+      return date
+        ? { value: date }
+        : { error: `${label} "${text}" isn't a date` };
+    }
+    case "contacts":
+      return { value: parseContacts(text) };
+    default:
+      return { value: text };
+  }
+}
+
+// A complete new deal from imported values. The forecast is a placeholder
+// unless one was imported; the server weights it by stage.
+export function toNewDeal(values: DealPatch) {
+  return dealInputSchema.safeParse({
+    ...(values.dealValue && {
+      forecastValue: { amount: 0, currency: values.dealValue.currency },
+    }),
+    ...values,
+  });
+}
+
+export function describeNewDealIssues(values: DealPatch): string[] {
+  const missing = REQUIRED_IMPORT_FIELDS.filter(
+    (field) => values[field] === undefined
+  );
+  if (missing.length > 0) {
+    return missing.map((field) => `${FILTER_FIELDS[field].label} is missing`);
+  }
+  const result = toNewDeal(values);
+  return result.success ? [] : [describeIssues(result.error)];
+}
+
+// Checked against the same schema the server applies to every imported row,
+// so a row the preview accepts can't fail the whole import
+function describePatchIssues(values: DealPatch): string[] {
+  const result = dealPatchSchema.safeParse(values);
+  return result.success ? [] : [describeIssues(result.error)];
+}
+
+// Drops the apostrophe exports put before formula-like values (see
+// escapeCsvValue), so exported files import as they were
+function unescapeFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1))
+    ? text.slice(1)
+    : text;
+}
+
+// Parses every row with the mapping. Blank cells leave the field unset, so
+// upserts only change what the file has values for.
+export function validateImportRows(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  mode: ImportMode,
+  key: ImportKey
+): ImportRow[] {
+  return sheet.rows.map(({ line, cells }) => {
+    const values: Record<string, unknown> = {};
+    const errors: string[] = [];
+    const idColumn = mapping.indexOf("id");
+    const id = idColumn >= 0 ? cells[idColumn]?.trim() || null : null;
+
+    mapping.forEach((target, index) => {
+      const text = unescapeFormula(cells[index]?.trim() ?? "");
+      if (!target || target === "id" || text === "") return;
+      const result = parseImportedValue(target, text);
+      if ("error" in result) errors.push(result.error);
+      else values[target] = result.value;
+    });
+    // An imported forecast stops following the stage
+    if (values.forecastValue) values.forecastOverride = true;
+
+    const patch = values as DealPatch;
+    const rowKey = key === "id" ? id : patch.deal ?? null;
+    if (errors.length === 0) {
+      if (mode === "create") {
+        errors.push(...describeNewDealIssues(patch));
+      } else if (!rowKey) {
+        errors.push(`${IMPORT_KEYS[key]} is missing`);
+      } else {
+        errors.push(...describePatchIssues(patch));
+      }
+    }
+    return {
+      line,
+      key: mode === "upsert" ? rowKey : null,
+      values: patch,
+      errors,
+    };
+  });
+}
+
+export function toImportRequest(
+  rows: ImportRow[],
+  mode: ImportMode,
+  key: ImportKey
+): ImportRequest {
+  return {
+    mode,
+    key,
+    rows: rows
+      .filter((row) => row.errors.length === 0)
+      .map(({ line, key, values }) => ({ line, key, values })),
+  };
+}
@@ -0,0 +1,408 @@
+import {
+  DEFAULT_CURRENCY,
+  formatContacts,
+  isStage,
+  type CurrencyCode,
+  type Deal,
+  type Stage,
+} from "./deals";
+import {
+  COLUMN_FILTER_KINDS,
+  countConditions,
+  createFilterCondition,
+  createFilterGroup,
+  filterGroupSchema,
+  matchesFilter,
+  parseFilter,
+  serializeFilter,
+  setColumnFilter,
+  type FilterField,
+  type FilterGroup,
+  type FilterNode,
+} from "./deal-filters";
+import {
+  compareGroupKeys,
+  getGroupKey,
+  isGroupField,
+  MAX_GROUP_LEVELS,
+  summarizeGroups,
+  type DealGroupSummary,
+  type GroupField,
+} from "./deal-groups";
+import { COMMITTED_STAGES } from "./forecast";
+
+export interface FilterState {
+  search: string;
+  // Conditions built in the filter builder; see deal-filters
+  where: FilterGroup;
+}
+
+export interface SortState {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+export interface DealsQuery {
+  // Which side of the archive to list; the two never mix
+  archived: boolean;
+  filters: FilterState;
+  sorts: SortState[];
+  page: number;
+  pageSize: number;
+  // Orders deals group by group (outermost first) ahead of the sorts
+  groupBy?: GroupField[];
+  // With groupBy, lists the first this many deals of every outermost group
+  // instead of one page, so no group is crowded out by the ones before it
+  groupLimit?: number;
+}
+
+// Aggregates over every deal matching the filters, not just the current page.
+// Amounts are summed as-is; currency is null when the deals use more than one.
+export interface DealsSummary {
+  currency: CurrencyCode | null;
+  totalValue: number;
+  // Sum of the deals' stage-weighted (or hand-set) forecasts
+  totalForecast: number;
+  // Everything not lost, at full value
+  bestCase: number;
+  // Won and committed-stage deals at full value (see COMMITTED_STAGES)
+  committed: number;
+  totalDeals: number;
+  totalContacts: number;
+  avgDealValue: number;
+  conversionRate: number;
+  closingSoon: number;
+  stageBreakdown: Partial<Record<Stage, number>>;
+}
+
+// How many matching deals have each value of the fields with a value
+// checklist in their column header, e.g. { stage: { Negotiation: 4 } }
+export type DealsFacets = Partial<Record<FilterField, Record<string, number>>>;
+
+export interface DealsPage {
+  deals: Deal[];
+  total: number;
+  page: number;
+  pageSize: number;
+  summary: DealsSummary;
+  facets: DealsFacets;
+  // Subtotals for every group of matching deals, when grouped
+  groups: DealGroupSummary[];
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+// Largest page the API serves; the board loads this many deals at once
+export const MAX_PAGE_SIZE = 500;
+
+export const DEFAULT_FILTERS: FilterState = {
+  search: "",
+  where: { type: "group", id: "root", combinator: "and", children: [] },
+};
+
+export function hasActiveFilters(filters: FilterState): boolean {
+  return filters.search !== "" || countConditions(filters.where) > 0;
+}
+
+const LEGACY_MAX_DEAL_VALUE = 200000;
+
+// Earlier versions stored fixed stage/owner lists and a deal value range
+// instead of a filter tree. Accepts either shape; a filter tree that doesn't
+// parse is dropped rather than trusted.
+export function upgradeLegacyFilters(raw: unknown): FilterState {
+  if (!raw || typeof raw !== "object") return DEFAULT_FILTERS;
+  const legacy = raw as {
+    search?: unknown;
+    where?: unknown;
+    stage?: unknown;
+    owner?: unknown;
+    dealValueRange?: unknown;
+  };
+  const search = typeof legacy.search === "string" ? legacy.search : "";
+  if (legacy.where) {
+    const parsed = filterGroupSchema.safeParse(legacy.where);
+    return {
+      search,
+      where: parsed.success ? parsed.data : DEFAULT_FILTERS.where,
+    };
+  }
+
+  const children: FilterNode[] = [];
+  const stages = Array.isArray(legacy.stage) ? legacy.stage.filter(isStage) : [];
+  if (stages.length > 0) {
+    children.push(createFilterCondition("stage", "isAnyOf", stages));
+  }
+  const owners = Array.isArray(legacy.owner)
+    ? legacy.owner.filter((owner): owner is string => typeof owner === "string")
+    : [];
+  if (owners.length > 0) {
+    children.push(createFilterCondition("owner", "isAnyOf", owners));
+  }
+  const range = legacy.dealValueRange;
+  if (
+    Array.isArray(range) &&
+    typeof range[0] === "number" &&
+    typeof range[1] === "number"
+  ) {
+    // The old slider's top end meant "no upper limit"
+    const [min, max] = range;
+    if (max < LEGACY_MAX_DEAL_VALUE) {
+      children.push(createFilterCondition("dealValue", "between", [min, max]));
+    } else if (min > 0) {
+      children.push(createFilterCondition("dealValue", "gte", min));
+    }
+  }
+  return { search, where: createFilterGroup("and", children) };
+}
+
+export function filterByArchive(deals: Deal[], archived: boolean): Deal[] {
+  return deals.filter((deal) => deal.archived === archived);
+}
+
+export function filterDeals(deals: Deal[], filters: FilterState): Deal[] {
+  const searchLower = filters.search.toLowerCase();
+
+  return deals.filter((deal) => {
+    // Search filter
+    if (searchLower) {
+      const searchableFields = [
+        deal.deal,
+        deal.owner,
+        deal.accounts,
+        formatContacts(deal.contacts),
+      ];
+      if (
+        !searchableFields.some((field) =>
+          field.toLowerCase().includes(searchLower)
+        )
+      ) {
+        return false;
+      }
+    }
+
+    return matchesFilter(deal, filters.where);
+  });
+}
+
+function getSortValue(deal: Deal, column: string): string | number {
+  switch (column) {
+    case "dealValue":
+    case "forecastValue":
+      return deal[column].amount;
+    case "contacts":
+      return formatContacts(deal.contacts).toLowerCase();
+    default: {
+      const value = deal[column as keyof Deal];
+      return typeof value === "string" ? value.toLowerCase() : "";
+    }
+  }
+}
+
+export function sortDeals(
+  deals: Deal[],
+  sorts: SortState[],
+  groupBy: GroupField[] = []
+): Deal[] {
+  if (sorts.length === 0 && groupBy.length === 0) return deals;
+
+  return [...deals].sort((a, b) => {
+    for (const field of groupBy) {
+      const order = compareGroupKeys(
+        field,
+        getGroupKey(a, field),
+        getGroupKey(b, field)
+      );
+      if (order !== 0) return order;
+    }
+    for (const sort of sorts) {
+      const aVal = getSortValue(a, sort.column);
+      const bVal = getSortValue(b, sort.column);
+
+      if (aVal < bVal) return sort.direction === "asc" ? -1 : 1;
+      if (aVal > bVal) return sort.direction === "asc" ? 1 : -1;
+    }
+    return 0;
+  });
+}
+
+export function summarizeDeals(deals: Deal[]): DealsSummary {
+  const currencies = new Set(deals.map((deal) => deal.dealValue.currency));
+  const totalValue = deals.reduce(
+    (sum, deal) => sum + deal.dealValue.amount,
+    0
+  );
+  const totalForecast = deals.reduce(
+    (sum, deal) => sum + deal.forecastValue.amount,
+    0
+  );
+  const bestCase = deals
+    .filter((deal) => deal.stage !== "Closed Lost")
+    .reduce((sum, deal) => sum + deal.dealValue.amount, 0);
+  const committed = deals
+    .filter((deal) => COMMITTED_STAGES.includes(deal.stage))
+    .reduce((sum, deal) => sum + deal.dealValue.amount, 0);
+  const totalDeals = deals.length;
+  const totalContacts = deals.reduce(
+    (sum, deal) => sum + deal.contacts.length,
+    0
+  );
+
+  const stageBreakdown = deals.reduce((acc, deal) => {
+    acc[deal.stage] = (acc[deal.stage] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<Stage, number>>);
+
+  const today = new Date();
+  const closingSoon = deals.filter((deal) => {
+    const closeDate = new Date(deal.expectedClose);
+    const daysUntilClose = Math.ceil(
+      (closeDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
+    );
+    return daysUntilClose <= 30 && daysUntilClose >= 0;
+  }).length;
+
+  return {
+    currency: currencies.size <= 1 ? [...currencies][0] ?? DEFAULT_CURRENCY : null,
+    totalValue,
+    totalForecast,
+    bestCase,
+    committed,
+    totalDeals,
+    totalContacts,
+    avgDealValue: totalDeals > 0 ? totalValue / totalDeals : 0,
+    conversionRate:
+      totalDeals > 0
+        ? ((stageBreakdown["Closed Won"] || 0) / totalDeals) * 100
+        : 0,
+    closingSoon,
+    stageBreakdown,
+  };
+}
+
+// Each field is counted with its own column filter left out, so the
+// checklist still shows how many deals the other values would add
+export function facetDeals(deals: Deal[], filters: FilterState): DealsFacets {
+  const facets: DealsFacets = {};
+  for (const [field, kind] of Object.entries(COLUMN_FILTER_KINDS)) {
+    if (kind !== "values") continue;
+    const key = field as FilterField;
+    const others = {
+      ...filters,
+      where: setColumnFilter(filters.where, key, null),
+    };
+    facets[key] = filterDeals(deals, others).reduce(
+      (counts, deal) => {
+        const value = String(deal[key as keyof Deal]);
+        counts[value] = (counts[value] || 0) + 1;
+        return counts;
+      },
+      {} as Record<string, number>
+    );
+  }
+  return facets;
+}
+
+// Keeps the order, which already has each group's deals together
+function takeFirstOfEachGroup(
+  deals: Deal[],
+  field: GroupField,
+  limit: number
+): Deal[] {
+  const counts = new Map<string, number>();
+  return deals.filter((deal) => {
+    const key = getGroupKey(deal, field);
+    const count = counts.get(key) ?? 0;
+    counts.set(key, count + 1);
+    return count < limit;
+  });
+}
+
+export function queryDeals(deals: Deal[], query: DealsQuery): DealsPage {
+  const listed = filterByArchive(deals, query.archived);
+  const groupBy = query.groupBy || [];
+  const matching = sortDeals(
+    filterDeals(listed, query.filters),
+    query.sorts,
+    groupBy
+  );
+  const pageCount = Math.max(1, Math.ceil(matching.length / query.pageSize));
+  const page = query.groupLimit ? 1 : Math.min(query.page, pageCount);
+  const start = (page - 1) * query.pageSize;
+
+  return {
+    deals:
+      query.groupLimit && groupBy.length > 0
+        ? takeFirstOfEachGroup(matching, groupBy[0], query.groupLimit)
+        : matching.slice(start, start + query.pageSize),
+    total: matching.length,
+    page,
+    pageSize: query.pageSize,
+    summary: summarizeDeals(matching),
+    facets: facetDeals(listed, query.filters),
+    groups: summarizeGroups(matching, groupBy),
+  };
+}
+
+// Query string format: ?q=cloud&filter=["and",["stage","is","Proposal"]]
+// &sort=dealValue:desc,deal:asc&page=2&pageSize=25&archived=true&group=stage,owner
+// &groupLimit=100
+// (see serializeFilter for the filter format)
+export function toSearchParams(query: DealsQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters } = query;
+
+  if (filters.search) params.set("q", filters.search);
+  if (countConditions(filters.where) > 0) {
+    params.set("filter", serializeFilter(filters.where));
+  }
+  if (query.sorts.length > 0) {
+    params.set(
+      "sort",
+      query.sorts.map((sort) => `${sort.column}:${sort.direction}`).join(",")
+    );
+  }
+  params.set("page", String(query.page));
+  params.set("pageSize", String(query.pageSize));
+  if (query.archived) params.set("archived", "true");
+  if (query.groupBy && query.groupBy.length > 0) {
+    params.set("group", query.groupBy.join(","));
+  }
+  if (query.groupLimit) params.set("groupLimit", String(query.groupLimit));
+
+  return params;
+}
+
+function readPositiveInt(value: string | null, fallback: number) {
+  const parsed = Number.parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function parseDealsQuery(params: URLSearchParams): DealsQuery {
+  const sorts = (params.get("sort") || "")
+    .split(",")
+    .filter(Boolean)
+    .map((part): SortState => {
+      const [column, direction] = part.split(":");
+      return { column, direction: direction === "desc" ? "desc" : "asc" };
+    });
+
+  return {
+    archived: params.get("archived") === "true",
+    filters: {
+      search: params.get("q") || "",
+      where: parseFilter(params.get("filter") || "") ?? DEFAULT_FILTERS.where,
+    },
+    sorts,
+    page: readPositiveInt(params.get("page"), 1),
+    pageSize: Math.min(
+      readPositiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE),
+      MAX_PAGE_SIZE
+    ),
+    groupBy: Array.from(
+      new Set((params.get("group") || "").split(",").filter(isGroupField))
+    ).slice(0, MAX_GROUP_LEVELS),
+    groupLimit: params.has("groupLimit")
+      ? Math.min(readPositiveInt(params.get("groupLimit"), 1), MAX_PAGE_SIZE)
+      : undefined,
+  };
+}
@@ -0,0 +1,195 @@
+import type { Cell, CellValue, Row, Workbook } from "exceljs";
+import {
+  formatDealField,
+  STAGES,
+  type CurrencyCode,
+  type Deal,
+  type Stage,
+} from "./deals";
+import type { DealsSummary } from "./deals-query";
+import type { ExportColumn } from "./deals-export";
+
+// Excel export of the deals table: a "Deals" sheet with typed cells, and a
+// "Totals" sheet with the totals bar metrics and a stage breakdown. Imports
+// read the first sheet back as text. exceljs is large, so it's only loaded
+// when someone exports or imports.
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const DATE_FORMAT = "yyyy-mm-dd";
+const PERCENT_FORMAT = "0.0%";
+
+// Excel number format showing the currency's symbol, e.g. "€"#,##0.00
+function getCurrencyFormat(
+  currency: CurrencyCode | null,
+  decimals = 2
+): string {
+  const number = decimals > 0 ? `#,##0.${"0".repeat(decimals)}` : "#,##0";
+  if (!currency) return number;
+  const symbol =
+    new Intl.NumberFormat("en-US", { style: "currency", currency })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")?.value ?? currency;
+  return `"${symbol}"${number}`;
+}
+
+// exceljs colors are ARGB hex without the #
+function toArgb(hex: string): string {
+  return `FF${hex.replace("#", "").toUpperCase()}`;
+}
+
+function styleHeaderRow(row: Row) {
+  row.font = { bold: true };
+  row.border = { bottom: { style: "thin" } };
+}
+
+function fillStageCell(cell: Cell, stage: Stage, fill: string) {
+  cell.value = stage;
+  cell.fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: toArgb(fill) },
+  };
+  cell.font = { color: { argb: "FFFFFFFF" }, bold: true };
+}
+
+function addDealsSheet(
+  workbook: Workbook,
+  deals: Deal[],
+  columns: ExportColumn[],
+  stageFill: (stage: Stage) => string
+) {
+  const sheet = workbook.addWorksheet("Deals");
+  sheet.columns = columns.map(({ field, header }) => ({
+    header,
+    key: field,
+    width: field === "deal" || field === "activitiesTimeline" ? 32 : 18,
+  }));
+
+  for (const deal of deals) {
+    const row = sheet.addRow([]);
+    columns.forEach(({ field }, index) => {
+      const cell = row.getCell(index + 1);
+      switch (field) {
+        case "dealValue":
+        case "forecastValue":
+          cell.value = deal[field].amount;
+          cell.numFmt = getCurrencyFormat(deal[field].currency);
+          break;
+        case "expectedClose":
+          cell.value = new Date(`${deal.expectedClose}T00:00:00Z`);
+          cell.numFmt = DATE_FORMAT;
+          break;
+        case "stage":
+          fillStageCell(cell, deal.stage, stageFill(deal.stage));
+          break;
+        default:
+          cell.value = formatDealField(deal, field);
+      }
+    });
+  }
+
+  styleHeaderRow(sheet.getRow(1));
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+  sheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: columns.length },
+  };
+}
+
+function addTotalsSheet(
+  workbook: Workbook,
+  deals: Deal[],
+  summary: DealsSummary,
+  stageFill: (stage: Stage) => string
+) {
+  const money = getCurrencyFormat(summary.currency, 0);
+  const sheet = workbook.addWorksheet("Totals");
+  sheet.columns = [{ width: 20 }, { width: 18 }, { width: 18 }];
+  styleHeaderRow(sheet.addRow(["Metric", "Value"]));
+
+  const metrics: Array<[string, number, string?]> = [
+    ["Total Value", summary.totalValue, money],
+    ["Weighted", summary.totalForecast, money],
+    ["Best Case", summary.bestCase, money],
+    ["Committed", summary.committed, money],
+    ["Deals", summary.totalDeals],
+    ["Avg Deal", summary.avgDealValue, money],
+    ["Win Rate", summary.conversionRate / 100, PERCENT_FORMAT],
+    ["Closing Soon", summary.closingSoon],
+  ];
+  for (const [label, value, numFmt] of metrics) {
+    const row = sheet.addRow([label, value]);
+    if (numFmt) row.getCell(2).numFmt = numFmt;
+  }
+  if (!summary.currency) {
+    sheet.addRow([
+      "Note",
+      "Amounts mix currencies and are summed without conversion",
+    ]);
+  }
+
+  sheet.addRow([]);
+  styleHeaderRow(sheet.addRow(["Stage", "Deals", "Total Value"]));
+  for (const stage of STAGES) {
+    const stageDeals = deals.filter((deal) => deal.stage === stage);
+    const row = sheet.addRow([
+      stage,
+      stageDeals.length,
+      stageDeals.reduce((sum, deal) => sum + deal.dealValue.amount, 0),
+    ]);
+    fillStageCell(row.getCell(1), stage, stageFill(stage));
+    row.getCell(3).numFmt = money;
+  }
+}
+
+// Resolves to the .xlsx file's contents. The Totals sheet shows `summary`,
+// e.g. the server's summary of every matching deal, so it agrees with the
+// totals bar. Stage cells are filled with the colors from stageFill, e.g.
+// the status chips' colors.
+export async function toXlsx(
+  deals: Deal[],
+  columns: ExportColumn[],
+  summary: DealsSummary,
+  stageFill: (stage: Stage) => string
+): Promise<ArrayBuffer> {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  addDealsSheet(workbook, deals, columns, stageFill);
+  addTotalsSheet(workbook, deals, summary, stageFill);
+  return workbook.xlsx.writeBuffer();
+}
+
+// What a cell shows, with dates as ISO dates
+function cellToText(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) {
+    return value.richText.map((run) => run.text).join("");
+  }
+  if ("result" in value) return cellToText(value.result as CellValue);
+  if ("text" in value) return String(value.text);
+  return "";
+}
+
+// Rows of cell text from the workbook's first sheet
+export async function readXlsxRows(data: ArrayBuffer): Promise<string[][]> {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellToText(row.getCell(column).value));
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
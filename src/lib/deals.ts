@@ -0,0 +1,235 @@
+import { z } from "zod";
+
+// Shared Deal domain model. Components, hooks and the API all consume these
+// types, and anything crossing the API boundary is checked against the schemas.
+
+export const STAGES = [
+  "Discovery",
+  "Proposal",
+  "Negotiation",
+  "Closed Won",
+  "Closed Lost",
+] as const;
+
+export const CURRENCIES = ["USD", "EUR", "GBP"] as const;
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const stageSchema = z.enum(STAGES);
+
+export const currencySchema = z.enum(CURRENCIES);
+
+// Calendar date without a time component, e.g. "2024-03-15"
+export const isoDateSchema = z
+  .string()
+  .refine(isIsoDate, { message: "Expected a date in YYYY-MM-DD format" })
+  .brand<"IsoDate">();
+
+export const moneySchema = z.object({
+  amount: z.number().finite().nonnegative(),
+  currency: currencySchema,
+});
+
+export const contactSchema = z.object({
+  name: z.string().trim().min(1, "Contact name is required"),
+  email: z.string().email().optional(),
+});
+
+// Everything a client may set on a deal; the server assigns the id
+export const dealInputSchema = z.object({
+  deal: z.string().trim().min(1, "Deal name is required"),
+  activitiesTimeline: z.string().default(""),
+  stage: stageSchema,
+  dealValue: moneySchema,
+  contacts: z.array(contactSchema).default([]),
+  owner: z.string().default(""),
+  accounts: z.string().default(""),
+  expectedClose: isoDateSchema,
+  forecastValue: moneySchema,
+  // Set when the forecast was typed in by hand; otherwise the server derives
+  // it from the stage probabilities (see lib/forecast)
+  forecastOverride: z.boolean().default(false),
+  // Archived deals are kept but hidden from the default view
+  archived: z.boolean().default(false),
+  archivedAt: z.string().datetime().nullable().default(null),
+});
+
+export const dealPatchSchema = dealInputSchema.partial();
+
+export const dealSchema = dealInputSchema.extend({
+  id: z.string().min(1),
+});
+
+export type Stage = z.infer<typeof stageSchema>;
+export type CurrencyCode = z.infer<typeof currencySchema>;
+export type IsoDate = z.infer<typeof isoDateSchema>;
+export type Money = z.infer<typeof moneySchema>;
+export type Contact = z.infer<typeof contactSchema>;
+export type DealInput = z.infer<typeof dealInputSchema>;
+export type DealPatch = z.infer<typeof dealPatchSchema>;
+export type Deal = z.infer<typeof dealSchema>;
+
+export type DealField = keyof DealInput;
+
+export function isStage(value: unknown): value is Stage {
+  return stageSchema.safeParse(value).success;
+}
+
+export function isClosedStage(stage: Stage): boolean {
+  return stage === "Closed Won" || stage === "Closed Lost";
+}
+
+// An open deal whose expected close date has passed. `today` is an ISO date.
+export function isOverdue(deal: Deal, today: string): boolean {
+  return !isClosedStage(deal.stage) && deal.expectedClose < today;
+}
+
+export function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value)) return false;
+  // Reject dates that don't exist, like 2024-02-30
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  );
+}
+
+export function toIsoDate(value: string): IsoDate | null {
+  const result = isoDateSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+export function toMoney(
+  amount: number,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): Money {
+  return { amount, currency };
+}
+
+// Accepts user-typed amounts such as "$125,000" or "85000.50"
+export function parseMoney(
+  text: string,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): Money | null {
+  const cleaned = text.replace(/[^0-9.-]/g, "");
+  if (!cleaned) return null;
+  const result = moneySchema.safeParse({ amount: Number(cleaned), currency });
+  return result.success ? result.data : null;
+}
+
+export function formatMoney(
+  money: Money,
+  options: Intl.NumberFormatOptions = {}
+): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: money.currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+    ...options,
+  }).format(money.amount);
+}
+
+// Changes that archive or restore a deal, stamping when it was archived
+export function archiveChanges(archived: boolean): DealPatch {
+  return {
+    archived,
+    archivedAt: archived ? new Date().toISOString() : null,
+  };
+}
+
+export function formatContacts(contacts: Contact[]): string {
+  return contacts.map((contact) => contact.name).join(", ");
+}
+
+export function parseContacts(text: string): Contact[] {
+  return text
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => ({ name }));
+}
+
+// Deals saved before the typed model stored plain numbers for money and a
+// comma-joined contacts string, and had no archive state. Used for old
+// databases and backups; stale forecasts are recomputed by the server.
+export function upgradeLegacyDeal(raw: Record<string, unknown>): Deal {
+  const upgraded: Record<string, unknown> = {
+    archived: false,
+    archivedAt: null,
+    forecastOverride: false,
+    ...raw,
+  };
+  (["dealValue", "forecastValue"] as const).forEach((field) => {
+    if (typeof raw[field] === "number") {
+      upgraded[field] = { amount: raw[field], currency: DEFAULT_CURRENCY };
+    }
+  });
+  if (typeof raw.contacts === "string") {
+    upgraded.contacts = parseContacts(raw.contacts);
+  }
+  return upgraded as Deal;
+}
+
+// A sum over deals in more than one currency (currency null) can't be
+// labelled with a single symbol, so it's shown as a plain number
+export function formatTotal(
+  amount: number,
+  currency: CurrencyCode | null
+): string {
+  return currency
+    ? formatMoney({ amount, currency }, { maximumFractionDigits: 0 })
+    : new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(
+        amount
+      );
+}
+
+// Human-readable value of a field, for display, search and text editing
+export function formatDealField(deal: Deal, field: string): string {
+  switch (field) {
+    case "dealValue":
+    case "forecastValue":
+      return formatMoney(deal[field]);
+    case "contacts":
+      return formatContacts(deal.contacts);
+    default: {
+      const value = deal[field as keyof Deal];
+      return typeof value === "string" ? value : "";
+    }
+  }
+}
+
+// Turns text typed into a cell back into a typed, validated patch. Returns an
+// error message instead when the text can't be stored in that field.
+export function parseDealField(
+  deal: Deal,
+  field: string,
+  text: string
+): { patch: DealPatch } | { error: string } {
+  let value: unknown = text;
+  if (field === "dealValue" || field === "forecastValue") {
+    value = parseMoney(text, deal[field].currency);
+    if (!value) return { error: `"${text}" is not a valid amount` };
+  } else if (field === "contacts") {
+    value = parseContacts(text);
+  }
+
+  const result = dealPatchSchema.safeParse({
+    [field]: value,
+    // A typed-in forecast stops following the stage
+    ...(field === "forecastValue" && { forecastOverride: true }),
+  });
+  if (!result.success) return { error: describeIssues(result.error) };
+  if (!(field in result.data)) return { error: `${field} can't be edited` };
+  return { patch: result.data };
+}
+
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
@@ -0,0 +1,24 @@
+import { request } from "./api-request";
+import { getCurrentUserId, USER_ID_HEADER } from "./current-user";
+import type { StageProbabilities } from "./forecast";
+
+export async function fetchStageProbabilities(): Promise<StageProbabilities> {
+  const { probabilities } = await request<{
+    probabilities: StageProbabilities;
+  }>("/api/forecast", { cache: "no-store" });
+  return probabilities;
+}
+
+export async function saveStageProbabilities(
+  probabilities: StageProbabilities
+): Promise<StageProbabilities> {
+  const { probabilities: saved } = await request<{
+    probabilities: StageProbabilities;
+  }>("/api/forecast", {
+    method: "PUT",
+    // Recomputed forecasts are logged against whoever changed the settings
+    headers: { [USER_ID_HEADER]: getCurrentUserId() },
+    body: JSON.stringify({ probabilities }),
+  });
+  return saved;
+}
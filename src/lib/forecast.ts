@@ -0,0 +1,52 @@
+import { z } from "zod";
+import type { Deal, Money, Stage } from "./deals";
+
+// Weighted forecasting: each stage has a win probability, and a deal's
+// forecast is its value times that probability unless someone has typed a
+// forecast in by hand (forecastOverride).
+
+const probabilitySchema = z.number().finite().min(0).max(100);
+
+// Percentages, 0-100
+export const stageProbabilitiesSchema = z.object({
+  Discovery: probabilitySchema,
+  Proposal: probabilitySchema,
+  Negotiation: probabilitySchema,
+  "Closed Won": probabilitySchema,
+  "Closed Lost": probabilitySchema,
+});
+
+export type StageProbabilities = z.infer<typeof stageProbabilitiesSchema>;
+
+export const DEFAULT_STAGE_PROBABILITIES: StageProbabilities = {
+  Discovery: 10,
+  Proposal: 40,
+  Negotiation: 70,
+  "Closed Won": 100,
+  "Closed Lost": 0,
+};
+
+// Deals counted at full value in the committed pipeline: those already won
+// and those whose terms are being agreed
+export const COMMITTED_STAGES: readonly Stage[] = ["Negotiation", "Closed Won"];
+
+export function weightedForecast(
+  deal: Deal,
+  probabilities: StageProbabilities
+): Money {
+  return {
+    amount: Math.round(
+      (deal.dealValue.amount * probabilities[deal.stage]) / 100
+    ),
+    currency: deal.dealValue.currency,
+  };
+}
+
+// The deal with its forecast recomputed, unless it was set by hand
+export function applyForecast(
+  deal: Deal,
+  probabilities: StageProbabilities
+): Deal {
+  if (deal.forecastOverride) return deal;
+  return { ...deal, forecastValue: weightedForecast(deal, probabilities) };
+}
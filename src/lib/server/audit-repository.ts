@@ -0,0 +1,104 @@
+import { randomUUID } from "crypto";
+import {
+  diffDeal,
+  MAX_AUDIT_ENTRIES_PER_DEAL,
+  type AuditEntry,
+  type ChangeContext,
+} from "@/lib/audit";
+import type { Deal } from "@/lib/deals";
+import {
+  afterCommit,
+  loadDealHistory,
+  readDb,
+  saveDealHistory,
+  type Database,
+} from "./db";
+
+// Entries recorded by the write mutating each database, saved to the deals'
+// history files once the write is
+const pendingEntries = new WeakMap<Database, AuditEntry[]>();
+
+// Oldest first. Past the cap, the oldest forecast recalculations go before
+// anything a person changed.
+export function trimHistory(entries: AuditEntry[]): AuditEntry[] {
+  let excess = entries.length - MAX_AUDIT_ENTRIES_PER_DEAL;
+  if (excess <= 0) return entries;
+  const dropped = new Set<AuditEntry>();
+  for (const candidate of [
+    ...entries.filter((entry) => entry.source === "recalculation"),
+    ...entries.filter((entry) => entry.source !== "recalculation"),
+  ]) {
+    if (excess === 0) break;
+    dropped.add(candidate);
+    excess -= 1;
+  }
+  return entries.filter((entry) => !dropped.has(entry));
+}
+
+async function saveEntries(entries: AuditEntry[]) {
+  const byDeal = new Map<string, AuditEntry[]>();
+  for (const entry of entries) {
+    byDeal.set(entry.dealId, [...(byDeal.get(entry.dealId) ?? []), entry]);
+  }
+  for (const [dealId, added] of Array.from(byDeal)) {
+    const history = await loadDealHistory(dealId);
+    await saveDealHistory(dealId, trimHistory([...history, ...added]));
+  }
+}
+
+// Called by every write with each deal as it was before and after. A missing
+// `before` means the deal was created, a missing `after` that it was deleted;
+// otherwise one entry is recorded per changed field.
+export function recordChange(
+  db: Database,
+  before: Deal | undefined,
+  after: Deal | undefined,
+  context: ChangeContext
+) {
+  const deal = after ?? before;
+  if (!deal) return;
+  const timestamp = new Date().toISOString();
+  const entry = (
+    fields: Pick<AuditEntry, "action" | "field" | "oldValue" | "newValue">
+  ): AuditEntry => ({
+    id: randomUUID(),
+    dealId: deal.id,
+    dealName: deal.deal,
+    ...fields,
+    actor: context.actor,
+    timestamp,
+    source: context.source,
+  });
+
+  let pending = pendingEntries.get(db);
+  if (!pending) {
+    const entries: AuditEntry[] = [];
+    pendingEntries.set(db, entries);
+    afterCommit(db, () => saveEntries(entries));
+    pending = entries;
+  }
+
+  if (!before) {
+    pending.push(
+      entry({ action: "created", field: null, oldValue: null, newValue: null })
+    );
+  } else if (!after) {
+    pending.push(
+      entry({ action: "deleted", field: null, oldValue: null, newValue: null })
+    );
+  } else {
+    pending.push(
+      ...diffDeal(before, after).map((change) =>
+        entry({ action: "updated", ...change })
+      )
+    );
+  }
+}
+
+// Newest first, including entries from before the deal was deleted
+export async function listDealHistory(dealId: string): Promise<AuditEntry[]> {
+  // Waits for writes in flight, whose entries are saved as they finish, and
+  // moves an older database's log out first
+  await readDb();
+  return (await loadDealHistory(dealId)).reverse();
+}
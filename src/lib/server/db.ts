@@ -0,0 +1,233 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { AuditEntry } from "@/lib/audit";
+import { dealSchema, upgradeLegacyDeal, type Deal } from "@/lib/deals";
+import { upgradeLegacyFilters } from "@/lib/deals-query";
+import {
+  applyForecast,
+  DEFAULT_STAGE_PROBABILITIES,
+  type StageProbabilities,
+} from "@/lib/forecast";
+import {
+  summarizeSnapshot,
+  type PipelineSnapshot,
+  type SnapshotSummary,
+} from "@/lib/snapshots";
+import type { SavedView } from "@/lib/views";
+import seedDeals from "@/lib/deals-seed.json";
+
+export interface Database {
+  deals: Deal[];
+  views: SavedView[];
+  // Default view id for each user id
+  defaultViews: Record<string, string>;
+  // Win probability per stage, used to weight deal forecasts
+  stageProbabilities: StageProbabilities;
+  // Oldest first. Their deals are kept in files of their own (see
+  // saveSnapshotDeals).
+  snapshots: SnapshotSummary[];
+  // Every deal's change history is kept in a file of its own (see
+  // saveDealHistory)
+}
+
+// Local JSON file acting as the app's database. Point DEALS_DB_FILE at a
+// scratch path to work against an isolated copy seeded from deals-seed.json.
+export const DB_FILE =
+  process.env.DEALS_DB_FILE || path.join(process.cwd(), ".data", "db.json");
+
+// Each snapshot copies every deal, so snapshots live in one file each next
+// to the database instead of being rewritten with it on every change
+export const SNAPSHOTS_DIR = path.join(
+  path.dirname(DB_FILE),
+  `${path.basename(DB_FILE, ".json")}-snapshots`
+);
+
+// The audit log grows with every change, so each deal's history is kept in
+// a file of its own, too
+export const AUDIT_DIR = path.join(
+  path.dirname(DB_FILE),
+  `${path.basename(DB_FILE, ".json")}-audit`
+);
+
+function createSeededDatabase(): Database {
+  return {
+    deals: dealSchema
+      .array()
+      .parse(seedDeals)
+      .map((deal) => applyForecast(deal, DEFAULT_STAGE_PROBABILITIES)),
+    views: [],
+    defaultViews: {},
+    stageProbabilities: DEFAULT_STAGE_PROBABILITIES,
+    snapshots: [],
+  };
+}
+
+async function load(): Promise<Database> {
+  try {
+    const raw = await fs.readFile(DB_FILE, "utf8");
+    const db: Database = {
+      deals: [],
+      views: [],
+      defaultViews: {},
+      stageProbabilities: DEFAULT_STAGE_PROBABILITIES,
+      snapshots: [],
+      ...JSON.parse(raw),
+    };
+    db.deals = db.deals.map((deal) =>
+      applyForecast(upgradeLegacyDeal(deal), db.stageProbabilities)
+    );
+    if (db.snapshots.some((snapshot) => "deals" in snapshot)) {
+      await moveSnapshotDealsOut(db);
+    }
+    if ("auditLog" in db) await moveAuditLogOut(db);
+    db.views = db.views.map((view) => ({
+      ...view,
+      state: {
+        ...view.state,
+        filters: upgradeLegacyFilters(view.state.filters),
+      },
+    }));
+    return db;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    const db = createSeededDatabase();
+    await save(db);
+    return db;
+  }
+}
+
+async function save(db: Database) {
+  await fs.mkdir(path.dirname(DB_FILE), { recursive: true });
+  // Write to a temp file first so a crash never leaves half-written JSON
+  const tempFile = `${DB_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(db, null, 2));
+  await fs.rename(tempFile, DB_FILE);
+}
+
+// Atomic like save, so a crash never leaves half-written JSON
+async function writeJson(file: string, data: unknown) {
+  const tempFile = `${file}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(data));
+  await fs.rename(tempFile, file);
+}
+
+// Snapshot ids are only ever generated by the server; callers look them up
+// in db.snapshots before reaching for a file
+function snapshotFile(id: string): string {
+  return path.join(SNAPSHOTS_DIR, `${id}.json`);
+}
+
+export async function saveSnapshotDeals(id: string, deals: Deal[]) {
+  await fs.mkdir(SNAPSHOTS_DIR, { recursive: true });
+  await writeJson(snapshotFile(id), deals);
+}
+
+// Resolves to null when the file is gone
+export async function loadSnapshotDeals(id: string): Promise<Deal[] | null> {
+  try {
+    return JSON.parse(await fs.readFile(snapshotFile(id), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return null;
+  }
+}
+
+export async function removeSnapshotDeals(id: string) {
+  await fs.rm(snapshotFile(id), { force: true });
+}
+
+// Earlier versions kept each snapshot's deals inside the database
+async function moveSnapshotDealsOut(db: Database) {
+  const stored = db.snapshots as (SnapshotSummary | PipelineSnapshot)[];
+  db.snapshots = [];
+  for (const snapshot of stored) {
+    if ("deals" in snapshot) {
+      await saveSnapshotDeals(snapshot.id, snapshot.deals);
+      db.snapshots.push(summarizeSnapshot(snapshot));
+    } else {
+      db.snapshots.push(snapshot);
+    }
+  }
+  await save(db);
+}
+
+// Deal ids can come from imported files, so they're hashed rather than
+// trusted as file names
+function dealHistoryFile(dealId: string): string {
+  const name = createHash("sha256").update(dealId).digest("hex");
+  return path.join(AUDIT_DIR, `${name}.json`);
+}
+
+// Oldest first; empty for a deal with no recorded changes
+export async function loadDealHistory(dealId: string): Promise<AuditEntry[]> {
+  try {
+    return JSON.parse(await fs.readFile(dealHistoryFile(dealId), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return [];
+  }
+}
+
+export async function saveDealHistory(dealId: string, entries: AuditEntry[]) {
+  await fs.mkdir(AUDIT_DIR, { recursive: true });
+  await writeJson(dealHistoryFile(dealId), entries);
+}
+
+// Earlier versions kept the whole audit log inside the database
+async function moveAuditLogOut(db: Database) {
+  const { auditLog } = db as Database & { auditLog?: AuditEntry[] };
+  const byDeal = new Map<string, AuditEntry[]>();
+  for (const entry of auditLog ?? []) {
+    byDeal.set(entry.dealId, [...(byDeal.get(entry.dealId) ?? []), entry]);
+  }
+  for (const [dealId, entries] of Array.from(byDeal)) {
+    // A move cut short earlier may have written some of these already
+    const saved = await loadDealHistory(dealId);
+    const savedIds = new Set(saved.map((entry) => entry.id));
+    await saveDealHistory(dealId, [
+      ...saved,
+      ...entries.filter((entry) => !savedIds.has(entry.id)),
+    ]);
+  }
+  delete (db as Database & { auditLog?: AuditEntry[] }).auditLog;
+  await save(db);
+}
+
+// All access goes through one queue so concurrent requests can't interleave
+// their read-modify-write cycles
+let pending: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = pending.then(task, task);
+  pending = run.catch(() => undefined);
+  return run;
+}
+
+export function readDb(): Promise<Database> {
+  return enqueue(load);
+}
+
+// Work that must wait until a write's changes are saved, keyed by the
+// database object the write is mutating
+const commitTasks = new WeakMap<Database, (() => Promise<void>)[]>();
+
+// Runs `task` once the write mutating `db` has been saved, and not at all if
+// saving fails. For files that must only change along with the database,
+// e.g. removing a trimmed snapshot's deals or recording the changes made.
+export function afterCommit(db: Database, task: () => Promise<void>) {
+  commitTasks.set(db, [...(commitTasks.get(db) ?? []), task]);
+}
+
+// `mutate` may be async, e.g. to store a snapshot's deals alongside
+export function writeDb<T>(
+  mutate: (db: Database) => T | Promise<T>
+): Promise<T> {
+  return enqueue(async () => {
+    const db = await load();
+    const result = await mutate(db);
+    await save(db);
+    for (const task of commitTasks.get(db) ?? []) await task();
+    return result;
+  });
+}
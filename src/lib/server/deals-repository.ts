@@ -0,0 +1,182 @@
+import { randomUUID } from "crypto";
+import type { ChangeContext } from "@/lib/audit";
+import type { Deal, DealInput, DealPatch } from "@/lib/deals";
+import {
+  describeNewDealIssues,
+  toNewDeal,
+  type ImportRequest,
+  type ImportResult,
+} from "@/lib/deals-import";
+import { applyForecast, type StageProbabilities } from "@/lib/forecast";
+import { recordChange } from "./audit-repository";
+import { readDb, writeDb } from "./db";
+import { takeScheduledSnapshotIfDue } from "./snapshots-repository";
+
+export async function listDeals(): Promise<Deal[]> {
+  const db = await readDb();
+  return db.deals;
+}
+
+export async function getDeal(id: string): Promise<Deal | undefined> {
+  const db = await readDb();
+  return db.deals.find((deal) => deal.id === id);
+}
+
+export function createDeal(
+  input: DealInput,
+  context: ChangeContext
+): Promise<Deal> {
+  return writeDb(async (db) => {
+    await takeScheduledSnapshotIfDue(db);
+    const deal = applyForecast(
+      { ...input, id: randomUUID() },
+      db.stageProbabilities
+    );
+    db.deals.unshift(deal);
+    recordChange(db, undefined, deal, context);
+    return deal;
+  });
+}
+
+// Insert deals with their existing ids, replacing any deal that shares one.
+// Used to bring back deleted deals exactly as they were.
+export function upsertDeals(
+  deals: Deal[],
+  context: ChangeContext
+): Promise<Deal[]> {
+  return writeDb(async (db) => {
+    await takeScheduledSnapshotIfDue(db);
+    const saved = deals.map((deal) =>
+      applyForecast(deal, db.stageProbabilities)
+    );
+    const incoming = new Map(saved.map((deal) => [deal.id, deal]));
+    db.deals = db.deals.map((deal) => {
+      const replacement = incoming.get(deal.id);
+      if (!replacement) return deal;
+      incoming.delete(deal.id);
+      recordChange(db, deal, replacement, context);
+      return replacement;
+    });
+    const inserted = Array.from(incoming.values());
+    db.deals.unshift(...inserted);
+    inserted.forEach((deal) => recordChange(db, undefined, deal, context));
+    return saved;
+  });
+}
+
+export function updateDeals(
+  ids: string[],
+  changes: DealPatch,
+  context: ChangeContext
+): Promise<Deal[]> {
+  return writeDb(async (db) => {
+    await takeScheduledSnapshotIfDue(db);
+    const updated: Deal[] = [];
+    db.deals = db.deals.map((deal) => {
+      if (!ids.includes(deal.id)) return deal;
+      const next = applyForecast(
+        { ...deal, ...changes },
+        db.stageProbabilities
+      );
+      recordChange(db, deal, next, context);
+      updated.push(next);
+      return next;
+    });
+    return updated;
+  });
+}
+
+export function deleteDeals(
+  ids: string[],
+  context: ChangeContext
+): Promise<string[]> {
+  return writeDb(async (db) => {
+    await takeScheduledSnapshotIfDue(db);
+    const deleted = db.deals.filter((deal) => ids.includes(deal.id));
+    deleted.forEach((deal) => recordChange(db, deal, undefined, context));
+    db.deals = db.deals.filter((deal) => !ids.includes(deal.id));
+    return deleted.map((deal) => deal.id);
+  });
+}
+
+// Applies all of an import or, when any row can't be saved, none of it and
+// resolves to the reasons. Upserts match existing deals by id or by name
+// (ignoring case); unmatched rows become new deals, keeping an imported id.
+export function importDeals(
+  { mode, key, rows }: ImportRequest,
+  context: ChangeContext
+): Promise<ImportResult | { errors: string[] }> {
+  return writeDb(async (db) => {
+    const normalize = (value: string) => value.trim().toLowerCase();
+    const findExisting = (rowKey: string | null) =>
+      mode === "upsert" && rowKey
+        ? db.deals.find((deal) =>
+            key === "id"
+              ? deal.id === rowKey
+              : normalize(deal.deal) === normalize(rowKey)
+          )
+        : undefined;
+
+    const errors = rows.flatMap((row) =>
+      findExisting(row.key)
+        ? []
+        : describeNewDealIssues(row.values).map(
+            (issue) => `Line ${row.line}: ${issue}`
+          )
+    );
+    if (errors.length > 0) return { errors };
+
+    await takeScheduledSnapshotIfDue(db);
+    const created: Deal[] = [];
+    let updated = 0;
+    for (const row of rows) {
+      const existing = findExisting(row.key);
+      if (existing) {
+        const next = applyForecast(
+          { ...existing, ...row.values },
+          db.stageProbabilities
+        );
+        db.deals = db.deals.map((deal) => (deal.id === next.id ? next : deal));
+        recordChange(db, existing, next, context);
+        updated++;
+        continue;
+      }
+      const input = toNewDeal(row.values);
+      if (!input.success) continue;
+      const id = mode === "upsert" && key === "id" && row.key;
+      const deal = applyForecast(
+        { ...input.data, id: id || randomUUID() },
+        db.stageProbabilities
+      );
+      // New deals go on top, in file order, and later rows can match them
+      db.deals.splice(created.length, 0, deal);
+      recordChange(db, undefined, deal, context);
+      created.push(deal);
+    }
+    return { created: created.length, updated };
+  });
+}
+
+// Win probabilities live with the deals because every forecast is derived
+// from them
+export async function getStageProbabilities(): Promise<StageProbabilities> {
+  const db = await readDb();
+  return db.stageProbabilities;
+}
+
+// The forecasts this recomputes are logged as source "recalculation"
+export function setStageProbabilities(
+  probabilities: StageProbabilities,
+  actor: string
+): Promise<StageProbabilities> {
+  return writeDb(async (db) => {
+    await takeScheduledSnapshotIfDue(db);
+    db.stageProbabilities = probabilities;
+    db.deals = db.deals.map((deal) => {
+      const next = applyForecast(deal, probabilities);
+      recordChange(db, deal, next, { actor, source: "recalculation" });
+      return next;
+    });
+    return probabilities;
+  });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import {
+  auditSourceSchema,
+  CHANGE_SOURCE_HEADER,
+  type ChangeContext,
+} from "@/lib/audit";
+import { USER_ID_HEADER } from "@/lib/current-user";
+
+// Who is calling, as identified by the client (see getCurrentUserId)
+export function getRequestUserId(request: Request): string | null {
+  return request.headers.get(USER_ID_HEADER)?.trim() || null;
+}
+
+export function missingUser() {
+  return NextResponse.json(
+    { error: `Missing ${USER_ID_HEADER} header` },
+    { status: 401 }
+  );
+}
+
+// Who is changing deals and from where, for the audit log. Callers that
+// don't say are logged as an anonymous "api" change rather than refused.
+export function getChangeContext(request: Request): ChangeContext {
+  const source = auditSourceSchema.safeParse(
+    request.headers.get(CHANGE_SOURCE_HEADER)
+  );
+  return {
+    actor: getRequestUserId(request) ?? "anonymous",
+    source: source.success ? source.data : "api",
+  };
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from "crypto";
+import {
+  compareSnapshots,
+  CURRENT_SNAPSHOT_ID,
+  MAX_MANUAL_SNAPSHOTS,
+  MAX_SCHEDULED_SNAPSHOTS,
+  SNAPSHOT_INTERVAL_MS,
+  summarizeSnapshot,
+  type PipelineSnapshot,
+  type SnapshotComparison,
+  type SnapshotInput,
+  type SnapshotSummary,
+  type SnapshotTrigger,
+} from "@/lib/snapshots";
+import {
+  afterCommit,
+  loadSnapshotDeals,
+  readDb,
+  removeSnapshotDeals,
+  saveSnapshotDeals,
+  writeDb,
+  type Database,
+} from "./db";
+
+const SNAPSHOT_LIMITS: Record<SnapshotTrigger, number> = {
+  scheduled: MAX_SCHEDULED_SNAPSHOTS,
+  manual: MAX_MANUAL_SNAPSHOTS,
+};
+
+// The deals are written to the snapshot's own file before it's listed, and
+// trimmed snapshots' files are only removed once the database stops listing
+// them, so the list never points at a file that isn't there
+async function takeSnapshot(
+  db: Database,
+  trigger: SnapshotTrigger,
+  label: string
+): Promise<SnapshotSummary> {
+  const snapshot: PipelineSnapshot = {
+    id: randomUUID(),
+    takenAt: new Date().toISOString(),
+    trigger,
+    label,
+    deals: db.deals,
+  };
+  await saveSnapshotDeals(snapshot.id, snapshot.deals);
+  const summary = summarizeSnapshot(snapshot);
+  db.snapshots.push(summary);
+
+  const sameKind = db.snapshots.filter((item) => item.trigger === trigger);
+  const excess = new Set(
+    sameKind
+      .slice(0, Math.max(0, sameKind.length - SNAPSHOT_LIMITS[trigger]))
+      .map((item) => item.id)
+  );
+  db.snapshots = db.snapshots.filter((item) => !excess.has(item.id));
+  afterCommit(db, async () => {
+    await Promise.all(Array.from(excess, removeSnapshotDeals));
+  });
+  return summary;
+}
+
+// Manual snapshots don't count, so taking one never skips a day of the
+// scheduled history
+export function isSnapshotDue(db: Database, now = Date.now()): boolean {
+  const latest = db.snapshots.findLast(
+    (snapshot) => snapshot.trigger === "scheduled"
+  );
+  return (
+    !latest || now - new Date(latest.takenAt).getTime() >= SNAPSHOT_INTERVAL_MS
+  );
+}
+
+// Called by every write before it changes any deals, so the scheduled
+// snapshot holds the pipeline as it stood before the day's first change
+export async function takeScheduledSnapshotIfDue(db: Database) {
+  if (isSnapshotDue(db)) await takeSnapshot(db, "scheduled", "");
+}
+
+function listSummaries(db: Database): SnapshotSummary[] {
+  return [...db.snapshots].reverse();
+}
+
+// Newest first. Opening the list also takes the scheduled snapshot if due.
+export async function listSnapshots(): Promise<SnapshotSummary[]> {
+  const db = await readDb();
+  if (!isSnapshotDue(db)) return listSummaries(db);
+  return writeDb(async (db) => {
+    await takeScheduledSnapshotIfDue(db);
+    return listSummaries(db);
+  });
+}
+
+export function createSnapshot(input: SnapshotInput): Promise<SnapshotSummary> {
+  return writeDb((db) => takeSnapshot(db, "manual", input.label));
+}
+
+// Resolves to the id that wasn't found when either snapshot is missing.
+// CURRENT_SNAPSHOT_ID stands for the deals as they are now.
+export async function getSnapshotComparison(
+  fromId: string,
+  toId: string
+): Promise<SnapshotComparison | { missing: string }> {
+  const db = await readDb();
+  const find = async (id: string): Promise<PipelineSnapshot | undefined> => {
+    if (id === CURRENT_SNAPSHOT_ID) {
+      return {
+        id,
+        takenAt: new Date().toISOString(),
+        trigger: "manual",
+        label: "Now",
+        deals: db.deals,
+      };
+    }
+    const summary = db.snapshots.find((snapshot) => snapshot.id === id);
+    const deals = summary && (await loadSnapshotDeals(id));
+    return summary && deals ? { ...summary, deals } : undefined;
+  };
+
+  const from = await find(fromId);
+  if (!from) return { missing: fromId };
+  const to = await find(toId);
+  if (!to) return { missing: toId };
+  return compareSnapshots(from, to);
+}
@@ -0,0 +1,99 @@
+import { randomUUID } from "crypto";
+import {
+  canEditView,
+  type SavedView,
+  type SavedViewInput,
+  type SavedViewPatch,
+  type SavedViewsList,
+} from "@/lib/views";
+import { readDb, writeDb } from "./db";
+
+// Team views plus the user's own personal views, and their default
+export async function listViews(userId: string): Promise<SavedViewsList> {
+  const db = await readDb();
+  return {
+    views: db.views.filter(
+      (view) => view.scope === "team" || view.ownerId === userId
+    ),
+    defaultViewId: db.defaultViews[userId] ?? null,
+  };
+}
+
+// Any view can be opened by id, which is how shared links work
+export async function getView(id: string): Promise<SavedView | undefined> {
+  const db = await readDb();
+  return db.views.find((view) => view.id === id);
+}
+
+export function createView(
+  userId: string,
+  input: SavedViewInput
+): Promise<SavedView> {
+  return writeDb((db) => {
+    const now = new Date().toISOString();
+    const view: SavedView = {
+      ...input,
+      id: randomUUID(),
+      ownerId: userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.views.push(view);
+    return view;
+  });
+}
+
+// Who may change a view is checked in the same write as the change, so the
+// owner can't change between the check and the write. Both resolve to
+// undefined when there's no such view.
+type ViewWriteOutcome<T> = T | "forbidden" | undefined;
+
+export function updateView(
+  id: string,
+  userId: string,
+  changes: SavedViewPatch
+): Promise<ViewWriteOutcome<SavedView>> {
+  return writeDb((db) => {
+    const index = db.views.findIndex((view) => view.id === id);
+    if (index === -1) return undefined;
+    if (!canEditView(db.views[index], userId)) return "forbidden";
+    const view = {
+      ...db.views[index],
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    db.views[index] = view;
+    return view;
+  });
+}
+
+export function deleteView(
+  id: string,
+  userId: string
+): Promise<ViewWriteOutcome<true>> {
+  return writeDb((db) => {
+    const existing = db.views.find((view) => view.id === id);
+    if (!existing) return undefined;
+    if (!canEditView(existing, userId)) return "forbidden";
+    db.views = db.views.filter((view) => view.id !== id);
+    // Nobody should keep defaulting to a view that's gone
+    Object.keys(db.defaultViews).forEach((owner) => {
+      if (db.defaultViews[owner] === id) delete db.defaultViews[owner];
+    });
+    return true;
+  });
+}
+
+export function setDefaultView(
+  userId: string,
+  viewId: string | null
+): Promise<string | null> {
+  return writeDb((db) => {
+    if (viewId) {
+      db.defaultViews[userId] = viewId;
+    } else {
+      delete db.defaultViews[userId];
+    }
+    return viewId;
+  });
+}
@@ -0,0 +1,112 @@
+import type { ChangeContext } from "@/lib/audit";
+import { applyForecast } from "@/lib/forecast";
+import { canEditView, type SavedView } from "@/lib/views";
+import {
+  BACKUP_VERSION,
+  type RestoreMode,
+  type RestoreResult,
+  type ServerWorkspace,
+} from "@/lib/workspace-backup";
+import { recordChange } from "./audit-repository";
+import { readDb, writeDb } from "./db";
+import { takeScheduledSnapshotIfDue } from "./snapshots-repository";
+
+// Everything the server keeps for the workspace, including every user's
+// views, and the caller's default view
+export async function getWorkspace(userId: string): Promise<ServerWorkspace> {
+  const db = await readDb();
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    userId,
+    deals: db.deals,
+    stageProbabilities: db.stageProbabilities,
+    views: db.views,
+    defaultViewId: db.defaultViews[userId] ?? null,
+  };
+}
+
+// Replaces items with a matching id and adds the rest at the front
+function upsertById<T extends { id: string }>(
+  current: T[],
+  incoming: T[]
+): T[] {
+  const byId = new Map(incoming.map((item) => [item.id, item]));
+  const kept = current.map((item) => byId.get(item.id) ?? item);
+  const added = incoming.filter(
+    (item) => !current.some((existing) => existing.id === item.id)
+  );
+  return [...added, ...kept];
+}
+
+// Merge adds and updates deals and views and keeps the forecast settings.
+// Replace also removes what the backup doesn't have and takes its settings.
+// Either way the backup's author's personal views and default view become
+// the restoring user's, so a workspace can move between browsers. Other
+// users' views are never overwritten or removed (see canEditView); the
+// backup's copies of them are skipped.
+export function restoreWorkspace(
+  backup: ServerWorkspace,
+  mode: RestoreMode,
+  context: ChangeContext
+): Promise<RestoreResult> {
+  return writeDb(async (db) => {
+    await takeScheduledSnapshotIfDue(db);
+    const userId = context.actor;
+    const existingViews = new Map(db.views.map((view) => [view.id, view]));
+    const views = backup.views
+      .map(
+        (view): SavedView =>
+          backup.userId && view.ownerId === backup.userId
+            ? { ...view, ownerId: userId }
+            : view
+      )
+      .flatMap((view): SavedView[] => {
+        const existing = existingViews.get(view.id);
+        if (!existing) return [view];
+        // A view the caller already has stays theirs
+        return canEditView(existing, userId)
+          ? [{ ...view, ownerId: existing.ownerId }]
+          : [];
+      });
+    if (mode === "replace") {
+      db.stageProbabilities = backup.stageProbabilities;
+    }
+    const deals = backup.deals.map((deal) =>
+      applyForecast(deal, db.stageProbabilities)
+    );
+
+    const before = new Map(db.deals.map((deal) => [deal.id, deal]));
+    const restoredIds = new Set(deals.map((deal) => deal.id));
+    for (const deal of deals) {
+      recordChange(db, before.get(deal.id), deal, context);
+    }
+    if (mode === "replace") {
+      db.deals
+        .filter((deal) => !restoredIds.has(deal.id))
+        .forEach((deal) => recordChange(db, deal, undefined, context));
+      db.deals = deals;
+      db.views = [
+        ...views,
+        ...db.views.filter((view) => !canEditView(view, userId)),
+      ];
+    } else {
+      db.deals = upsertById(db.deals, deals);
+      db.views = upsertById(db.views, views);
+    }
+
+    if (
+      backup.defaultViewId &&
+      (mode === "replace" || !db.defaultViews[userId])
+    ) {
+      db.defaultViews[userId] = backup.defaultViewId;
+    }
+    // Defaults can't point at views that are gone
+    const viewIds = new Set(db.views.map((view) => view.id));
+    for (const [owner, viewId] of Object.entries(db.defaultViews)) {
+      if (!viewIds.has(viewId)) delete db.defaultViews[owner];
+    }
+
+    return { deals: deals.length, views: views.length };
+  });
+}
@@ -0,0 +1,37 @@
+import { request } from "./api-request";
+import type {
+  SnapshotComparison,
+  SnapshotInput,
+  SnapshotSummary,
+} from "./snapshots";
+
+export async function fetchSnapshots(): Promise<SnapshotSummary[]> {
+  const { snapshots } = await request<{ snapshots: SnapshotSummary[] }>(
+    "/api/snapshots",
+    { cache: "no-store" }
+  );
+  return snapshots;
+}
+
+export async function createSnapshot(
+  input: SnapshotInput
+): Promise<SnapshotSummary> {
+  const { snapshot } = await request<{ snapshot: SnapshotSummary }>(
+    "/api/snapshots",
+    { method: "POST", body: JSON.stringify(input) }
+  );
+  return snapshot;
+}
+
+export async function compareSnapshots(
+  from: string,
+  to: string,
+  signal?: AbortSignal
+): Promise<SnapshotComparison> {
+  const params = new URLSearchParams({ from, to });
+  const { comparison } = await request<{ comparison: SnapshotComparison }>(
+    `/api/snapshots/compare?${params}`,
+    { cache: "no-store", signal }
+  );
+  return comparison;
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import {
+  DEFAULT_CURRENCY,
+  STAGES,
+  type CurrencyCode,
+  type Deal,
+  type Stage,
+} from "./deals";
+
+// Pipeline snapshots: copies of every deal at a point in time, taken once a
+// day (the first time the deals change or the list is opened that day) and
+// whenever someone asks for one, so reports can say what changed since.
+
+export const SNAPSHOT_TRIGGERS = ["scheduled", "manual"] as const;
+
+export type SnapshotTrigger = (typeof SNAPSHOT_TRIGGERS)[number];
+
+// A scheduled snapshot is taken when the latest one is older than this
+export const SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Oldest snapshots of each kind are dropped past these many
+export const MAX_SCHEDULED_SNAPSHOTS = 90;
+export const MAX_MANUAL_SNAPSHOTS = 50;
+
+// Compare against the deals as they are now rather than a stored snapshot
+export const CURRENT_SNAPSHOT_ID = "current";
+
+export const snapshotInputSchema = z.object({
+  label: z.string().trim().max(100).default(""),
+});
+
+export type SnapshotInput = z.infer<typeof snapshotInputSchema>;
+
+export interface PipelineSnapshot {
+  id: string;
+  takenAt: string;
+  trigger: SnapshotTrigger;
+  label: string;
+  deals: Deal[];
+}
+
+// A snapshot without its deals, for listing
+export interface SnapshotSummary {
+  id: string;
+  takenAt: string;
+  trigger: SnapshotTrigger;
+  label: string;
+  dealCount: number;
+  totalValue: number;
+}
+
+export interface SlippedDeal {
+  deal: Deal;
+  // Expected close date in the earlier snapshot
+  previousClose: string;
+}
+
+export interface StageChange {
+  stage: Stage;
+  previousValue: number;
+  currentValue: number;
+  change: number;
+}
+
+export interface SnapshotComparison {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  // Shared by every deal in both snapshots, or null when they mix
+  currency: CurrencyCode | null;
+  // Deals as they are in the later snapshot, except `removed`
+  added: Deal[];
+  removed: Deal[];
+  won: Deal[];
+  lost: Deal[];
+  slipped: SlippedDeal[];
+  // Every stage in pipeline order
+  stages: StageChange[];
+}
+
+// Archived deals aren't part of the pipeline
+function activeDeals(snapshot: PipelineSnapshot): Deal[] {
+  return snapshot.deals.filter((deal) => !deal.archived);
+}
+
+export function summarizeSnapshot(snapshot: PipelineSnapshot): SnapshotSummary {
+  const deals = activeDeals(snapshot);
+  return {
+    id: snapshot.id,
+    takenAt: snapshot.takenAt,
+    trigger: snapshot.trigger,
+    label: snapshot.label,
+    dealCount: deals.length,
+    totalValue: deals.reduce((sum, deal) => sum + deal.dealValue.amount, 0),
+  };
+}
+
+export function compareSnapshots(
+  from: PipelineSnapshot,
+  to: PipelineSnapshot
+): SnapshotComparison {
+  const before = new Map(activeDeals(from).map((deal) => [deal.id, deal]));
+  const after = activeDeals(to);
+  const afterIds = new Set(after.map((deal) => deal.id));
+
+  // Deals that reached a closing stage in between, including new ones
+  const reached = (stage: Stage) =>
+    after.filter(
+      (deal) => deal.stage === stage && before.get(deal.id)?.stage !== stage
+    );
+
+  const slipped: SlippedDeal[] = [];
+  for (const deal of after) {
+    const previous = before.get(deal.id);
+    if (previous && deal.expectedClose > previous.expectedClose) {
+      slipped.push({ deal, previousClose: previous.expectedClose });
+    }
+  }
+
+  const stageValue = (deals: Iterable<Deal>, stage: Stage) =>
+    Array.from(deals)
+      .filter((deal) => deal.stage === stage)
+      .reduce((sum, deal) => sum + deal.dealValue.amount, 0);
+
+  const currencies = new Set(
+    [...Array.from(before.values()), ...after].map(
+      (deal) => deal.dealValue.currency
+    )
+  );
+
+  return {
+    from: summarizeSnapshot(from),
+    to: summarizeSnapshot(to),
+    currency:
+      currencies.size <= 1 ? [...currencies][0] ?? DEFAULT_CURRENCY : null,
+    added: after.filter((deal) => !before.has(deal.id)),
+    removed: Array.from(before.values()).filter(
+      (deal) => !afterIds.has(deal.id)
+    ),
+    won: reached("Closed Won"),
+    lost: reached("Closed Lost"),
+    slipped,
+    stages: STAGES.map((stage) => {
+      const previousValue = stageValue(before.values(), stage);
+      const currentValue = stageValue(after, stage);
+      return {
+        stage,
+        previousValue,
+        currentValue,
+        change: currentValue - previousValue,
+      };
+    }),
+  };
+}
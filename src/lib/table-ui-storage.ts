@@ -0,0 +1,64 @@
+import {
+  upgradeLegacyFilters,
+  type FilterState,
+  type SortState,
+} from "./deals-query";
+
+// The deals table remembers its UI state (columns, filters, layout and so
+// on) in localStorage. Other pages read and write its filters through here
+// so they always show the same deals as the table.
+export const TABLE_UI_STORAGE_KEY = "deals-table-ui-state";
+
+function readStoredState(): Record<string, unknown> {
+  try {
+    const saved = localStorage.getItem(TABLE_UI_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadStoredFilters(): FilterState | null {
+  if (typeof window === "undefined") return null;
+  const { filters } = readStoredState();
+  return filters ? upgradeLegacyFilters(filters) : null;
+}
+
+export function storeFilters(filters: FilterState) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(
+    TABLE_UI_STORAGE_KEY,
+    JSON.stringify({ ...readStoredState(), filters })
+  );
+}
+
+export function loadStoredSorts(): SortState[] | null {
+  if (typeof window === "undefined") return null;
+  const { sorts } = readStoredState();
+  return Array.isArray(sorts) ? (sorts as SortState[]) : null;
+}
+
+// A column of the deals table as the column manager left it
+export interface StoredColumn {
+  id: string;
+  label: string;
+  visible: boolean;
+}
+
+// In the table's order, hidden ones included
+export function loadStoredColumns(): StoredColumn[] | null {
+  if (typeof window === "undefined") return null;
+  const { columnConfig } = readStoredState();
+  return Array.isArray(columnConfig) ? (columnConfig as StoredColumn[]) : null;
+}
+
+// The whole stored state, for workspace backups
+export function loadStoredUIState(): Record<string, unknown> | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(TABLE_UI_STORAGE_KEY) ? readStoredState() : null;
+}
+
+export function storeUIState(state: Record<string, unknown>) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(TABLE_UI_STORAGE_KEY, JSON.stringify(state));
+}
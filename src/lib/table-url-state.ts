@@ -0,0 +1,132 @@
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_PAGE_SIZE,
+  parseDealsQuery,
+  toSearchParams,
+  upgradeLegacyFilters,
+  type FilterState,
+  type SortState,
+} from "./deals-query";
+
+// Deals table state as carried in the page URL, so a link reproduces what
+// the sender was looking at, e.g.
+//   /?v=2&filter=["and",["stage","is","Negotiation"]]&sort=dealValue:desc
+// Filters, sorts and paging use the same format as the deals API (see
+// toSearchParams). Values at their defaults are left out to keep links short.
+// Bump TABLE_STATE_VERSION when the format changes and teach
+// decodeTableState to read the older versions.
+//
+// Versions:
+//   1 - stage/owner lists and a deal value range: stage=..&owner=..&value=min-max
+//   2 - filter builder tree in filter=
+export const TABLE_STATE_VERSION = 2;
+
+export interface TableUrlState {
+  filters: FilterState;
+  sorts: SortState[];
+  page: number;
+  pageSize: number;
+  expandedRows: string[];
+  focusedCell: { row: number; col: number } | null;
+}
+
+// Every param this module owns; anything else in the URL is left alone
+const TABLE_PARAMS = [
+  "v",
+  "q",
+  "filter",
+  "stage",
+  "owner",
+  "value",
+  "sort",
+  "page",
+  "pageSize",
+  "open",
+  "cell",
+];
+
+export function encodeTableState(state: TableUrlState): URLSearchParams {
+  const params = toSearchParams({
+    archived: false,
+    filters: state.filters,
+    sorts: state.sorts,
+    page: state.page,
+    pageSize: state.pageSize,
+  });
+  if (state.page === 1) params.delete("page");
+  if (state.pageSize === DEFAULT_PAGE_SIZE) params.delete("pageSize");
+  if (state.expandedRows.length > 0) {
+    params.set("open", state.expandedRows.join(","));
+  }
+  if (state.focusedCell) {
+    params.set("cell", `${state.focusedCell.row}.${state.focusedCell.col}`);
+  }
+
+  if (params.toString() === "") return params;
+  // Keep the version first so it's easy to spot in a pasted link
+  return new URLSearchParams([
+    ["v", String(TABLE_STATE_VERSION)],
+    ...Array.from(params.entries()),
+  ]);
+}
+
+// Returns null when the URL has no table state, or state from a newer
+// version of the app that this one can't read
+export function decodeTableState(
+  params: URLSearchParams
+): TableUrlState | null {
+  const version = Number(params.get("v"));
+  if (!Number.isInteger(version) || version < 1) return null;
+  if (version > TABLE_STATE_VERSION) return null;
+
+  const query = parseDealsQuery(params);
+  if (version === 1) {
+    const [min, max] = (params.get("value") || "").split("-").map(Number);
+    query.filters = upgradeLegacyFilters({
+      search: query.filters.search,
+      stage: params.getAll("stage"),
+      owner: params.getAll("owner"),
+      dealValueRange: [
+        Number.isFinite(min) ? min : 0,
+        Number.isFinite(max) ? max : Number.POSITIVE_INFINITY,
+      ],
+    });
+  }
+  const [row, col] = (params.get("cell") || "").split(".").map(Number);
+
+  return {
+    filters: query.filters,
+    sorts: query.sorts,
+    page: query.page,
+    pageSize: query.pageSize,
+    expandedRows: (params.get("open") || "").split(",").filter(Boolean),
+    focusedCell:
+      Number.isInteger(row) && Number.isInteger(col) && row >= 0 && col >= 0
+        ? { row, col }
+        : null,
+  };
+}
+
+// Writes the table state into an existing query string, keeping params that
+// belong to other features (such as ?view=)
+export function mergeTableState(
+  current: URLSearchParams,
+  state: TableUrlState
+): URLSearchParams {
+  const merged = new URLSearchParams(
+    Array.from(current.entries()).filter(
+      ([key]) => !TABLE_PARAMS.includes(key)
+    )
+  );
+  encodeTableState(state).forEach((value, key) => merged.append(key, value));
+  return merged;
+}
+
+export const DEFAULT_TABLE_URL_STATE: TableUrlState = {
+  filters: DEFAULT_FILTERS,
+  sorts: [],
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+  expandedRows: [],
+  focusedCell: null,
+};
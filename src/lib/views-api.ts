@@ -0,0 +1,66 @@
+import { request } from "./api-request";
+import { getCurrentUserId, USER_ID_HEADER } from "./current-user";
+import type {
+  SavedView,
+  SavedViewInput,
+  SavedViewPatch,
+  SavedViewsList,
+} from "./views";
+
+function asCurrentUser(init: RequestInit = {}): RequestInit {
+  return {
+    ...init,
+    headers: { ...init.headers, [USER_ID_HEADER]: getCurrentUserId() },
+  };
+}
+
+export function fetchViews(): Promise<SavedViewsList> {
+  return request<SavedViewsList>(
+    "/api/views",
+    asCurrentUser({ cache: "no-store" })
+  );
+}
+
+export async function fetchView(id: string): Promise<SavedView> {
+  const { view } = await request<{ view: SavedView }>(
+    `/api/views/${encodeURIComponent(id)}`,
+    { cache: "no-store" }
+  );
+  return view;
+}
+
+export async function createView(input: SavedViewInput): Promise<SavedView> {
+  const { view } = await request<{ view: SavedView }>(
+    "/api/views",
+    asCurrentUser({ method: "POST", body: JSON.stringify(input) })
+  );
+  return view;
+}
+
+export async function updateView(
+  id: string,
+  changes: SavedViewPatch
+): Promise<SavedView> {
+  const { view } = await request<{ view: SavedView }>(
+    `/api/views/${encodeURIComponent(id)}`,
+    asCurrentUser({ method: "PATCH", body: JSON.stringify(changes) })
+  );
+  return view;
+}
+
+export async function deleteView(id: string): Promise<void> {
+  await request(
+    `/api/views/${encodeURIComponent(id)}`,
+    asCurrentUser({ method: "DELETE" })
+  );
+}
+
+export async function setDefaultView(
+  viewId: string | null
+): Promise<string | null> {
+  const { defaultViewId } = await request<{ defaultViewId: string | null }>(
+    "/api/views/default",
+    asCurrentUser({ method: "PUT", body: JSON.stringify({ viewId }) })
+  );
+  return defaultViewId;
+}
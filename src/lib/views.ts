@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { filterGroupSchema } from "./deal-filters";
+
+// Saved views: named snapshots of the table's filters, sorts, columns and
+// widths. Personal views belong to one user; team views are shared by all.
+
+export const VIEW_SCOPES = ["personal", "team"] as const;
+
+export const viewScopeSchema = z.enum(VIEW_SCOPES);
+
+export const columnConfigSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  visible: z.boolean(),
+  locked: z.boolean().optional(),
+  width: z.number().positive().optional(),
+  pinned: z.enum(["left", "right"]).optional(),
+});
+
+export const filterStateSchema = z.object({
+  search: z.string(),
+  where: filterGroupSchema,
+});
+
+export const sortStateSchema = z.object({
+  column: z.string().min(1),
+  direction: z.enum(["asc", "desc"]),
+});
+
+export const viewStateSchema = z.object({
+  columnConfig: z.array(columnConfigSchema),
+  filters: filterStateSchema,
+  sorts: z.array(sortStateSchema),
+  columnWidths: z.record(z.number().positive()),
+});
+
+export const savedViewInputSchema = z.object({
+  name: z.string().trim().min(1, "View name is required"),
+  scope: viewScopeSchema,
+  state: viewStateSchema,
+});
+
+export const savedViewPatchSchema = savedViewInputSchema.partial();
+
+export const savedViewSchema = savedViewInputSchema.extend({
+  id: z.string().min(1),
+  ownerId: z.string().min(1),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type ViewScope = z.infer<typeof viewScopeSchema>;
+export type ViewState = z.infer<typeof viewStateSchema>;
+export type SavedViewInput = z.infer<typeof savedViewInputSchema>;
+export type SavedViewPatch = z.infer<typeof savedViewPatchSchema>;
+export type SavedView = z.infer<typeof savedViewSchema>;
+
+export interface SavedViewsList {
+  views: SavedView[];
+  defaultViewId: string | null;
+}
+
+// Team views are shared to open, not to edit: only the owner may rename,
+// overwrite, rescope or delete a view
+export function canEditView(view: SavedView, userId: string): boolean {
+  return view.ownerId === userId;
+}
+
+// Views are addressed by id in links, e.g. /?view=<id>
+export const VIEW_PARAM = "view";
+
+export function getViewUrl(view: SavedView, base: string): string {
+  const url = new URL(base);
+  url.search = "";
+  url.searchParams.set(VIEW_PARAM, view.id);
+  return url.toString();
+}
@@ -0,0 +1,35 @@
+import { request } from "./api-request";
+import { CHANGE_SOURCE_HEADER } from "./audit";
+import { getCurrentUserId, USER_ID_HEADER } from "./current-user";
+import type {
+  RestoreMode,
+  RestoreResult,
+  ServerWorkspace,
+  WorkspaceBackup,
+} from "./workspace-backup";
+
+export async function fetchWorkspace(): Promise<ServerWorkspace> {
+  const { workspace } = await request<{ workspace: ServerWorkspace }>(
+    "/api/workspace",
+    { cache: "no-store", headers: { [USER_ID_HEADER]: getCurrentUserId() } }
+  );
+  return workspace;
+}
+
+export async function restoreWorkspace(
+  backup: WorkspaceBackup,
+  mode: RestoreMode
+): Promise<RestoreResult> {
+  const { restored } = await request<{ restored: RestoreResult }>(
+    "/api/workspace",
+    {
+      method: "PUT",
+      headers: {
+        [USER_ID_HEADER]: getCurrentUserId(),
+        [CHANGE_SOURCE_HEADER]: "restore",
+      },
+      body: JSON.stringify({ backup, mode }),
+    }
+  );
+  return restored;
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { dealSchema, describeIssues, upgradeLegacyDeal } from "./deals";
+import { upgradeLegacyFilters } from "./deals-query";
+import {
+  DEFAULT_STAGE_PROBABILITIES,
+  stageProbabilitiesSchema,
+} from "./forecast";
+import { savedViewSchema, type SavedView } from "./views";
+
+// Workspace backups: one JSON file with the deals, forecast settings and
+// saved views from the server, plus the deals table's UI state from the
+// browser. Restoring one either merges it into the workspace or replaces
+// the workspace with it.
+
+export const BACKUP_VERSION = 1;
+
+export const workspaceBackupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string().datetime(),
+  // Who made the backup; their personal views go to whoever restores it
+  userId: z.string().nullable(),
+  deals: z.array(dealSchema),
+  stageProbabilities: stageProbabilitiesSchema,
+  views: z.array(savedViewSchema),
+  defaultViewId: z.string().nullable(),
+  // The deals table's columns, widths, header names, filters and so on,
+  // as stored in the browser
+  uiState: z.record(z.unknown()).nullable(),
+});
+
+export type WorkspaceBackup = z.infer<typeof workspaceBackupSchema>;
+
+// The part of a backup the server keeps
+export type ServerWorkspace = Omit<WorkspaceBackup, "uiState">;
+
+export const RESTORE_MODES = {
+  merge: "Merge: add and update deals and views, keep everything else",
+  replace:
+    "Replace: make the workspace like the backup, except other users' views",
+} as const;
+
+export type RestoreMode = keyof typeof RESTORE_MODES;
+
+export const restoreModeSchema = z.enum(["merge", "replace"]);
+
+export interface RestoreResult {
+  deals: number;
+  views: number;
+}
+
+// Upgrades a backup from `version` to the next version
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => unknown> = {
+  // Before versioned backups the closest thing was the server's database
+  // file, or a bare list of deals, possibly from before the typed model
+  0: (raw) => ({
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    userId: null,
+    deals: (Array.isArray(raw.deals) ? raw.deals : []).map(upgradeLegacyDeal),
+    stageProbabilities: raw.stageProbabilities ?? DEFAULT_STAGE_PROBABILITIES,
+    views: (Array.isArray(raw.views) ? raw.views : []).map(
+      (view: SavedView) => ({
+        ...view,
+        state: {
+          ...view.state,
+          filters: upgradeLegacyFilters(view.state?.filters),
+        },
+      })
+    ),
+    defaultViewId: null,
+    uiState: null,
+  }),
+};
+
+// Brings a backup of any version up to the current one and checks it.
+// Backups from a newer version of the app are refused.
+export function migrateBackup(
+  raw: unknown
+): { backup: WorkspaceBackup } | { error: string } {
+  if (!raw || typeof raw !== "object") {
+    return { error: "The file isn't a workspace backup" };
+  }
+  let data = (Array.isArray(raw) ? { deals: raw } : raw) as Record<
+    string,
+    unknown
+  >;
+  let version = typeof data.version === "number" ? data.version : 0;
+  if (version > BACKUP_VERSION) {
+    return {
+      error: `The backup is from a newer version of the app (version ${version}). Update the app to restore it.`,
+    };
+  }
+  while (version < BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return { error: `Backup version ${version} isn't supported` };
+    data = migrate(data) as Record<string, unknown>;
+    version++;
+  }
+
+  const result = workspaceBackupSchema.safeParse(data);
+  return result.success
+    ? { backup: result.data }
+    : { error: `The backup is invalid: ${describeIssues(result.error)}` };
+}
+
+export function getBackupFileName(backup: WorkspaceBackup): string {
+  return `deals-workspace-${backup.exportedAt.slice(0, 10)}.json`;
+}
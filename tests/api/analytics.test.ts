@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/analytics/route";
+import { PATCH } from "@/app/api/deals/route";
+import type { DealsAnalytics } from "@/lib/deal-analytics";
+import { apiRequest } from "./helpers";
+
+async function getAnalytics(): Promise<DealsAnalytics> {
+  const response = await GET(apiRequest("/analytics"));
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+describe("GET /api/analytics", () => {
+  it("counts the deals reaching each funnel step", async () => {
+    const { funnel } = await getAnalytics();
+    expect(
+      funnel.map(({ stage, count, conversion }) => [stage, count, conversion])
+    ).toEqual([
+      ["Discovery", 5, null],
+      ["Proposal", 4, 80],
+      ["Negotiation", 2, 50],
+      ["Closed Won", 1, 50],
+    ]);
+    expect(funnel[1].value).toBe(350000);
+  });
+
+  it("leaves lost deals out of the funnel", async () => {
+    await PATCH(
+      apiRequest("/deals", {
+        method: "PATCH",
+        body: { ids: ["2"], changes: { stage: "Closed Lost" } },
+      })
+    );
+    const { funnel, stages } = await getAnalytics();
+    expect(funnel.map((step) => step.count)).toEqual([4, 3, 1, 1]);
+    expect(stages.find((bucket) => bucket.stage === "Closed Lost")?.count).toBe(
+      1
+    );
+  });
+});
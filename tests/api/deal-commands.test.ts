@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/deals/[id]/history/route";
+import type { AuditEntry, AuditSource } from "@/lib/audit";
+import {
+  createDealCommand,
+  deleteDealsCommand,
+  updateDealsCommand,
+  type DealMutations,
+} from "@/lib/deal-commands";
+import { dealInputSchema, type Deal, type DealField } from "@/lib/deals";
+import {
+  createDeal,
+  deleteDeals,
+  getDeal,
+  listDeals,
+  updateDeals,
+  upsertDeals,
+} from "@/lib/server/deals-repository";
+import { apiRequest } from "./helpers";
+
+// The commands run against the server's repositories, as useDeals runs them
+// against its routes
+const changedFrom = (source: AuditSource) => ({ actor: "test-user", source });
+
+const mutations: DealMutations = {
+  createDeal: (input, source) => createDeal(input, changedFrom(source)),
+  upsertDeals: async (deals, source) =>
+    (await upsertDeals(deals, changedFrom(source))).length > 0,
+  updateDeals: async (ids, changes, source) =>
+    (await updateDeals(ids, changes, changedFrom(source))).length > 0,
+  deleteDeals: async (ids, source) =>
+    (await deleteDeals(ids, changedFrom(source))).length > 0,
+};
+
+const NEW_DEAL = dealInputSchema.parse({
+  deal: "Data Warehouse Rollout",
+  stage: "Discovery",
+  dealValue: { amount: 40000, currency: "USD" },
+  owner: "Emma Brown",
+  expectedClose: "2024-06-01",
+  forecastValue: { amount: 0, currency: "USD" },
+});
+
+async function getDeals(...ids: string[]): Promise<Deal[]> {
+  return Promise.all(ids.map(async (id) => (await getDeal(id)) as Deal));
+}
+
+// Where each change to one of the deal's fields came from, newest first
+async function getSources(id: string, field: DealField): Promise<string[]> {
+  const response = await GET(apiRequest(`/deals/${id}/history`), {
+    params: { id },
+  });
+  const { entries }: { entries: AuditEntry[] } = await response.json();
+  return entries
+    .filter((entry) => entry.field === field)
+    .map((entry) => entry.source);
+}
+
+describe("updateDealsCommand", () => {
+  it("undoes and redoes a change to several deals", async () => {
+    const deals = await getDeals("1", "3");
+    const command = updateDealsCommand(
+      mutations,
+      deals,
+      { stage: "Negotiation" },
+      "Move to Negotiation",
+      "bulk-action"
+    );
+
+    expect(await command.execute()).toBe(true);
+    expect((await getDeals("1", "3")).map((deal) => deal.stage)).toEqual([
+      "Negotiation",
+      "Negotiation",
+    ]);
+    expect(await command.undo()).toBe(true);
+    expect((await getDeals("1", "3")).map((deal) => deal.stage)).toEqual([
+      "Proposal",
+      "Proposal",
+    ]);
+    expect(await command.execute()).toBe(true);
+    expect((await getDeals("1"))[0].stage).toBe("Negotiation");
+
+    expect(await getSources("1", "stage")).toEqual([
+      "bulk-action",
+      "undo",
+      "bulk-action",
+    ]);
+  });
+
+  it("leaves fields changed in the meantime alone", async () => {
+    const command = updateDealsCommand(
+      mutations,
+      await getDeals("2"),
+      { stage: "Closed Won" },
+      "Mark as won",
+      "row-action"
+    );
+    await command.execute();
+    await updateDeals(["2"], { owner: "Emma Brown" }, changedFrom("board"));
+
+    await command.undo();
+    const [deal] = await getDeals("2");
+    expect(deal.stage).toBe("Negotiation");
+    expect(deal.owner).toBe("Emma Brown");
+  });
+});
+
+describe("deleteDealsCommand", () => {
+  it("brings deleted deals back as they were", async () => {
+    const deals = await getDeals("4", "5");
+    const command = deleteDealsCommand(
+      mutations,
+      deals,
+      "Delete",
+      "bulk-action"
+    );
+
+    await command.execute();
+    expect(await listDeals()).toHaveLength(3);
+    expect(await command.undo()).toBe(true);
+    expect(await getDeals("4", "5")).toEqual(deals);
+  });
+});
+
+describe("createDealCommand", () => {
+  it("redoes a creation with the same deal", async () => {
+    const created: Deal[] = [];
+    const command = createDealCommand(
+      mutations,
+      NEW_DEAL,
+      "Create deal",
+      "new-deal",
+      (deal) => created.push(deal)
+    );
+
+    expect(await command.execute()).toBe(true);
+    expect(created).toHaveLength(1);
+    const [deal] = created;
+    expect(await command.undo()).toBe(true);
+    expect(await getDeal(deal.id)).toBeUndefined();
+
+    expect(await command.execute()).toBe(true);
+    expect(await getDeal(deal.id)).toEqual(deal);
+    expect(await listDeals()).toHaveLength(6);
+    // onCreated is only for the first run
+    expect(created).toHaveLength(1);
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, expect, it } from "vitest";
+import { GET, PATCH, POST } from "@/app/api/deals/route";
+import {
+  GET as GET_DEAL,
+  PATCH as PATCH_DEAL,
+} from "@/app/api/deals/[id]/route";
+import type { Deal } from "@/lib/deals";
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_PAGE_SIZE,
+  toSearchParams,
+  type DealsPage,
+  type DealsQuery,
+} from "@/lib/deals-query";
+import {
+  createFilterCondition,
+  createFilterGroup,
+  setColumnFilter,
+} from "@/lib/deal-filters";
+import { apiRequest } from "./helpers";
+
+const DEFAULT_QUERY: DealsQuery = {
+  archived: false,
+  filters: DEFAULT_FILTERS,
+  sorts: [],
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+};
+
+async function listDeals(query: Partial<DealsQuery> = {}): Promise<DealsPage> {
+  const params = toSearchParams({ ...DEFAULT_QUERY, ...query });
+  const response = await GET(apiRequest(`/deals?${params}`));
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+function names(page: DealsPage): string[] {
+  return page.deals.map((deal) => deal.deal);
+}
+
+const NEW_DEAL = {
+  deal: "Data Warehouse Rollout",
+  stage: "Discovery",
+  dealValue: { amount: 40000, currency: "USD" },
+  owner: "Emma Brown",
+  expectedClose: "2024-06-01",
+  forecastValue: { amount: 0, currency: "USD" },
+};
+
+describe("GET /api/deals", () => {
+  it("lists the seeded deals with their summary", async () => {
+    const page = await listDeals();
+    expect(page.total).toBe(5);
+    expect(page.deals).toHaveLength(5);
+    expect(page.summary.totalValue).toBe(415000);
+    expect(page.summary.currency).toBe("USD");
+  });
+
+  it("searches deal text", async () => {
+    const page = await listDeals({
+      filters: { ...DEFAULT_FILTERS, search: "cloud" },
+    });
+    expect(names(page)).toEqual(["Cloud Migration Project"]);
+  });
+
+  it("applies filter conditions", async () => {
+    const where = createFilterGroup("and", [
+      createFilterCondition("stage", "is", "Proposal"),
+    ]);
+    const page = await listDeals({ filters: { search: "", where } });
+    expect(page.total).toBe(2);
+    expect(page.deals.every((deal) => deal.stage === "Proposal")).toBe(true);
+  });
+
+  it("counts each column's facets without its own filter", async () => {
+    const where = setColumnFilter(DEFAULT_FILTERS.where, "stage", [
+      "Proposal",
+    ]);
+    const page = await listDeals({ filters: { search: "", where } });
+    expect(page.total).toBe(2);
+    expect(page.facets.stage?.Negotiation).toBe(1);
+    expect(page.facets.owner).toEqual({ "Alex Chen": 1, "Emma Brown": 1 });
+  });
+
+  it("combines conditions with or", async () => {
+    const where = createFilterGroup("or", [
+      createFilterCondition("dealValue", "gte", 100000),
+      createFilterCondition("owner", "is", "Chris Taylor"),
+    ]);
+    const page = await listDeals({ filters: { search: "", where } });
+    expect(names(page).sort()).toEqual([
+      "Custom Dashboard Development",
+      "Enterprise Software License",
+    ]);
+  });
+
+  it("ignores a malformed filter", async () => {
+    const response = await GET(apiRequest("/deals?filter=not-json"));
+    const page: DealsPage = await response.json();
+    expect(page.total).toBe(5);
+  });
+
+  it("sorts by one or more columns", async () => {
+    const byValue = await listDeals({
+      sorts: [{ column: "dealValue", direction: "desc" }],
+    });
+    expect(byValue.deals.map((deal) => deal.dealValue.amount)).toEqual([
+      125000, 95000, 85000, 65000, 45000,
+    ]);
+
+    const byStageThenName = await listDeals({
+      sorts: [
+        { column: "stage", direction: "asc" },
+        { column: "deal", direction: "desc" },
+      ],
+    });
+    const proposals = byStageThenName.deals.filter(
+      (deal) => deal.stage === "Proposal"
+    );
+    expect(proposals.map((deal) => deal.deal)).toEqual([
+      "Marketing Automation Setup",
+      "Enterprise Software License",
+    ]);
+  });
+
+  it("paginates and keeps totals for every matching deal", async () => {
+    const sorts = [{ column: "deal", direction: "asc" as const }];
+    const first = await listDeals({ sorts, page: 1, pageSize: 2 });
+    const last = await listDeals({ sorts, page: 3, pageSize: 2 });
+    expect(names(first)).toEqual([
+      "Cloud Migration Project",
+      "Custom Dashboard Development",
+    ]);
+    expect(names(last)).toEqual(["Security Audit & Compliance"]);
+    expect(last.total).toBe(5);
+    expect(last.summary.totalValue).toBe(415000);
+  });
+
+  it("lists the first deals of every group with a group limit", async () => {
+    const page = await listDeals({
+      groupBy: ["stage"],
+      groupLimit: 1,
+      sorts: [{ column: "dealValue", direction: "desc" }],
+    });
+    expect(names(page)).toContain("Enterprise Software License");
+    expect(names(page)).not.toContain("Marketing Automation Setup");
+    expect(page.deals).toHaveLength(4);
+    expect(page.total).toBe(5);
+    expect(
+      page.groups.find((group) => group.path[0] === "Proposal")?.count
+    ).toBe(2);
+  });
+
+  it("clamps pages past the end to the last one", async () => {
+    const page = await listDeals({ page: 99, pageSize: 2 });
+    expect(page.page).toBe(3);
+    expect(page.deals).toHaveLength(1);
+  });
+});
+
+describe("POST /api/deals", () => {
+  it("creates a deal that later requests see", async () => {
+    const response = await POST(
+      apiRequest("/deals", { method: "POST", body: NEW_DEAL })
+    );
+    expect(response.status).toBe(201);
+    const { deal }: { deal: Deal } = await response.json();
+    expect(deal.id).toBeTruthy();
+    // The forecast follows the stage unless it's set by hand
+    expect(deal.forecastOverride).toBe(false);
+
+    const page = await listDeals();
+    expect(page.total).toBe(6);
+    expect(names(page)).toContain("Data Warehouse Rollout");
+  });
+
+  it("rejects an invalid deal", async () => {
+    const response = await POST(
+      apiRequest("/deals", {
+        method: "POST",
+        body: { ...NEW_DEAL, deal: " ", expectedClose: "June 1st" },
+      })
+    );
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error).toContain("deal: Deal name is required");
+    expect(error).toContain("expectedClose:");
+    expect((await listDeals()).total).toBe(5);
+  });
+
+  it("rejects a body that isn't JSON", async () => {
+    const request = new Request("http://localhost/api/deals", {
+      method: "POST",
+      body: "{",
+    });
+    const response = await POST(request);
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("PATCH /api/deals/[id]", () => {
+  it("updates only the given fields", async () => {
+    const response = await PATCH_DEAL(
+      apiRequest("/deals/2", {
+        method: "PATCH",
+        body: { stage: "Closed Won" },
+      }),
+      { params: { id: "2" } }
+    );
+    expect(response.status).toBe(200);
+
+    const stored = await GET_DEAL(apiRequest("/deals/2"), {
+      params: { id: "2" },
+    });
+    const { deal }: { deal: Deal } = await stored.json();
+    expect(deal.stage).toBe("Closed Won");
+    expect(deal.deal).toBe("Cloud Migration Project");
+  });
+
+  it("rejects invalid changes", async () => {
+    const response = await PATCH_DEAL(
+      apiRequest("/deals/2", {
+        method: "PATCH",
+        body: { stage: "Won-ish", dealValue: { amount: -1, currency: "USD" } },
+      }),
+      { params: { id: "2" } }
+    );
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error).toContain("stage:");
+    expect(error).toContain("dealValue.amount:");
+
+    const stored = await GET_DEAL(apiRequest("/deals/2"), {
+      params: { id: "2" },
+    });
+    expect((await stored.json()).deal.stage).toBe("Negotiation");
+  });
+
+  it("responds 404 for an unknown deal", async () => {
+    const response = await PATCH_DEAL(
+      apiRequest("/deals/missing", {
+        method: "PATCH",
+        body: { stage: "Proposal" },
+      }),
+      { params: { id: "missing" } }
+    );
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("PATCH /api/deals", () => {
+  it("updates several deals at once", async () => {
+    const response = await PATCH(
+      apiRequest("/deals", {
+        method: "PATCH",
+        body: { ids: ["1", "3"], changes: { owner: "Sam Wilson" } },
+      })
+    );
+    expect(response.status).toBe(200);
+    const { deals }: { deals: Deal[] } = await response.json();
+    expect(deals.map((deal) => deal.owner)).toEqual([
+      "Sam Wilson",
+      "Sam Wilson",
+    ]);
+  });
+
+  it("rejects a body without ids", async () => {
+    const response = await PATCH(
+      apiRequest("/deals", {
+        method: "PATCH",
+        body: { changes: { owner: "Sam Wilson" } },
+      })
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("ids:");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { GET as GET_DEAL, PATCH } from "@/app/api/deals/[id]/route";
+import { GET as GET_HISTORY } from "@/app/api/deals/[id]/history/route";
+import { PUT } from "@/app/api/forecast/route";
+import type { AuditEntry } from "@/lib/audit";
+import type { Deal } from "@/lib/deals";
+import { DEFAULT_STAGE_PROBABILITIES } from "@/lib/forecast";
+import { apiRequest } from "./helpers";
+
+async function getDeal(id: string): Promise<Deal> {
+  const response = await GET_DEAL(apiRequest(`/deals/${id}`), {
+    params: { id },
+  });
+  return (await response.json()).deal;
+}
+
+async function getHistory(id: string): Promise<AuditEntry[]> {
+  const response = await GET_HISTORY(apiRequest(`/deals/${id}/history`), {
+    params: { id },
+  });
+  return (await response.json()).entries;
+}
+
+function setProbabilities(probabilities: unknown) {
+  return PUT(
+    apiRequest("/forecast", { method: "PUT", body: { probabilities } })
+  );
+}
+
+describe("PUT /api/forecast", () => {
+  it("recomputes forecasts except those set by hand", async () => {
+    // As the table sends a forecast typed into it
+    await PATCH(
+      apiRequest("/deals/3", {
+        method: "PATCH",
+        body: {
+          forecastValue: { amount: 30000, currency: "USD" },
+          forecastOverride: true,
+        },
+      }),
+      { params: { id: "3" } }
+    );
+
+    const response = await setProbabilities({
+      ...DEFAULT_STAGE_PROBABILITIES,
+      Proposal: 50,
+    });
+    expect(response.status).toBe(200);
+
+    // Both are proposals
+    expect((await getDeal("1")).forecastValue.amount).toBe(62500);
+    expect((await getDeal("3")).forecastValue.amount).toBe(30000);
+  });
+
+  it("logs the recomputed forecasts as recalculations", async () => {
+    await setProbabilities({ ...DEFAULT_STAGE_PROBABILITIES, Proposal: 50 });
+
+    const [entry] = await getHistory("1");
+    expect(entry).toMatchObject({
+      action: "updated",
+      field: "forecastValue",
+      oldValue: { amount: 50000, currency: "USD" },
+      newValue: { amount: 62500, currency: "USD" },
+      source: "recalculation",
+    });
+    // Deals whose forecast didn't change get no entry
+    expect(await getHistory("4")).toEqual([]);
+  });
+
+  it("rejects probabilities outside 0-100", async () => {
+    const response = await setProbabilities({
+      ...DEFAULT_STAGE_PROBABILITIES,
+      Proposal: 140,
+    });
+    expect(response.status).toBe(400);
+    expect((await getDeal("1")).forecastValue.amount).toBe(50000);
+  });
+});
@@ -0,0 +1,19 @@
+import { USER_ID_HEADER } from "@/lib/current-user";
+
+const BASE_URL = "http://localhost/api";
+
+// A request as the route handlers receive it, from a user unless noted
+export function apiRequest(
+  pathname: string,
+  init: { method?: string; body?: unknown; userId?: string | null } = {}
+): Request {
+  const { method = "GET", body, userId = "test-user" } = init;
+  const headers = new Headers();
+  if (userId) headers.set(USER_ID_HEADER, userId);
+  if (body !== undefined) headers.set("content-type", "application/json");
+  return new Request(`${BASE_URL}${pathname}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { PATCH } from "@/app/api/deals/route";
+import { GET } from "@/app/api/deals/[id]/history/route";
+import {
+  MAX_AUDIT_ENTRIES_PER_DEAL,
+  type AuditEntry,
+  type AuditSource,
+} from "@/lib/audit";
+import { trimHistory } from "@/lib/server/audit-repository";
+import { saveDealHistory } from "@/lib/server/db";
+import { apiRequest } from "./helpers";
+
+// An entry for deal 1
+function entry(id: string, source: AuditSource): AuditEntry {
+  return {
+    id,
+    dealId: "1",
+    dealName: "Enterprise Software License",
+    action: "updated",
+    field: "owner",
+    oldValue: "Alex Chen",
+    newValue: "Sam Wilson",
+    actor: "test-user",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    source,
+  };
+}
+
+// Oldest first, with ids like "api-0"
+function entries(count: number, source: AuditSource) {
+  return Array.from({ length: count }, (_, index) =>
+    entry(`${source}-${index}`, source)
+  );
+}
+
+async function getHistory(id: string): Promise<AuditEntry[]> {
+  const response = await GET(apiRequest(`/deals/${id}/history`), {
+    params: { id },
+  });
+  return (await response.json()).entries;
+}
+
+describe("trimHistory", () => {
+  it("keeps histories under the cap as they are", () => {
+    const history = entries(3, "inline-edit");
+    expect(trimHistory(history)).toBe(history);
+  });
+
+  it("drops the oldest recalculations before anyone's changes", () => {
+    const history = [
+      ...entries(MAX_AUDIT_ENTRIES_PER_DEAL - 2, "inline-edit"),
+      ...entries(4, "recalculation"),
+    ];
+    const trimmed = trimHistory(history);
+    expect(trimmed).toHaveLength(MAX_AUDIT_ENTRIES_PER_DEAL);
+    expect(
+      trimmed
+        .filter((item) => item.source === "recalculation")
+        .map((item) => item.id)
+    ).toEqual(["recalculation-2", "recalculation-3"]);
+  });
+
+  it("drops the oldest changes once no recalculations are left", () => {
+    const history = [
+      ...entries(2, "recalculation"),
+      ...entries(MAX_AUDIT_ENTRIES_PER_DEAL + 1, "inline-edit"),
+    ];
+    const trimmed = trimHistory(history);
+    expect(trimmed).toHaveLength(MAX_AUDIT_ENTRIES_PER_DEAL);
+    expect(trimmed[0].id).toBe("inline-edit-1");
+  });
+});
+
+describe("GET /api/deals/[id]/history", () => {
+  it("lists each deal's changes, newest first", async () => {
+    for (const owner of ["Sam Wilson", "Emma Brown"]) {
+      await PATCH(
+        apiRequest("/deals", {
+          method: "PATCH",
+          body: { ids: ["1", "2"], changes: { owner } },
+        })
+      );
+    }
+    const history = await getHistory("1");
+    expect(history.map((item) => item.newValue)).toEqual([
+      "Emma Brown",
+      "Sam Wilson",
+    ]);
+    expect(history.every((item) => item.dealId === "1")).toBe(true);
+  });
+
+  it("caps each deal's history without touching the others", async () => {
+    await saveDealHistory("1", entries(MAX_AUDIT_ENTRIES_PER_DEAL, "api"));
+    await PATCH(
+      apiRequest("/deals", {
+        method: "PATCH",
+        body: { ids: ["1", "2"], changes: { owner: "Emma Brown" } },
+      })
+    );
+
+    const history = await getHistory("1");
+    expect(history).toHaveLength(MAX_AUDIT_ENTRIES_PER_DEAL);
+    expect(history[0].source).toBe("api");
+    expect(history[0].id).not.toMatch(/^api-/);
+    expect(history.at(-1)?.id).toBe("api-1");
+    expect(await getHistory("2")).toHaveLength(1);
+  });
+});
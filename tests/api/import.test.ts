@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "@/app/api/deals/route";
+import { POST } from "@/app/api/deals/import/route";
+import { dealPatchSchema, type Deal } from "@/lib/deals";
+import type { ImportRequest } from "@/lib/deals-import";
+import { apiRequest } from "./helpers";
+
+const NEW_VALUES = dealPatchSchema.parse({
+  deal: "Data Warehouse Rollout",
+  stage: "Discovery",
+  dealValue: { amount: 40000, currency: "USD" },
+  expectedClose: "2024-06-01",
+});
+
+function importDeals(body: ImportRequest) {
+  return POST(apiRequest("/deals/import", { method: "POST", body }));
+}
+
+async function listDeals(): Promise<Deal[]> {
+  const response = await GET(apiRequest("/deals?pageSize=100"));
+  return (await response.json()).deals;
+}
+
+describe("POST /api/deals/import", () => {
+  it("creates new deals and updates matching ones", async () => {
+    const response = await importDeals({
+      mode: "upsert",
+      key: "deal",
+      rows: [
+        {
+          line: 2,
+          key: "cloud migration project",
+          values: { owner: "Emma Brown" },
+        },
+        { line: 3, key: "Data Warehouse Rollout", values: NEW_VALUES },
+      ],
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ created: 1, updated: 1 });
+
+    const deals = await listDeals();
+    expect(deals).toHaveLength(6);
+    expect(deals.find((deal) => deal.id === "2")?.owner).toBe("Emma Brown");
+    // Forecasts of new deals follow their stage
+    const created = deals.find((deal) => deal.deal === NEW_VALUES.deal);
+    expect(created?.forecastValue.amount).toBe(4000);
+  });
+
+  it("saves nothing when any row can't be saved", async () => {
+    const response = await importDeals({
+      mode: "create",
+      key: "id",
+      rows: [
+        { line: 2, key: null, values: NEW_VALUES },
+        { line: 3, key: null, values: { deal: "Half a deal" } },
+      ],
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("Line 3:");
+    expect(await listDeals()).toHaveLength(5);
+  });
+
+  it("rejects negative amounts", async () => {
+    const response = await importDeals({
+      mode: "upsert",
+      key: "id",
+      rows: [
+        {
+          line: 2,
+          key: "1",
+          values: { dealValue: { amount: -5000, currency: "USD" } },
+        },
+      ],
+    });
+    expect(response.status).toBe(400);
+    const deals = await listDeals();
+    expect(deals.find((deal) => deal.id === "1")?.dealValue.amount).toBe(
+      125000
+    );
+  });
+});
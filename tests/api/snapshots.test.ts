@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { PATCH } from "@/app/api/deals/route";
+import { GET, POST } from "@/app/api/snapshots/route";
+import { SNAPSHOT_INTERVAL_MS, type SnapshotSummary } from "@/lib/snapshots";
+import type { Database } from "@/lib/server/db";
+import { isSnapshotDue } from "@/lib/server/snapshots-repository";
+import { apiRequest } from "./helpers";
+
+const NOW = Date.parse("2024-03-15T12:00:00.000Z");
+
+function summary(trigger: SnapshotSummary["trigger"], age: number) {
+  return {
+    id: `${trigger}-${age}`,
+    takenAt: new Date(NOW - age).toISOString(),
+    trigger,
+    label: "",
+    dealCount: 0,
+    totalValue: 0,
+  };
+}
+
+function withSnapshots(snapshots: SnapshotSummary[]) {
+  return { snapshots } as Database;
+}
+
+async function listSnapshots(): Promise<SnapshotSummary[]> {
+  return (await (await GET()).json()).snapshots;
+}
+
+describe("isSnapshotDue", () => {
+  it("is due without any scheduled snapshot", () => {
+    expect(isSnapshotDue(withSnapshots([]), NOW)).toBe(true);
+  });
+
+  it("is due once the newest scheduled snapshot is a day old", () => {
+    const hour = 60 * 60 * 1000;
+    const dueAfter = (age: number) =>
+      isSnapshotDue(
+        withSnapshots([
+          summary("scheduled", SNAPSHOT_INTERVAL_MS * 3),
+          summary("scheduled", age),
+        ]),
+        NOW
+      );
+    expect(dueAfter(SNAPSHOT_INTERVAL_MS - hour)).toBe(false);
+    expect(dueAfter(SNAPSHOT_INTERVAL_MS)).toBe(true);
+  });
+
+  it("isn't put off by a newer manual snapshot", () => {
+    const db = withSnapshots([
+      summary("scheduled", SNAPSHOT_INTERVAL_MS * 2),
+      summary("manual", 0),
+    ]);
+    expect(isSnapshotDue(db, NOW)).toBe(true);
+  });
+});
+
+describe("/api/snapshots", () => {
+  it("takes one scheduled snapshot a day despite manual ones", async () => {
+    await POST(apiRequest("/snapshots", { method: "POST", body: {} }));
+    await PATCH(
+      apiRequest("/deals", {
+        method: "PATCH",
+        body: { ids: ["1"], changes: { stage: "Closed Won" } },
+      })
+    );
+    await PATCH(
+      apiRequest("/deals", {
+        method: "PATCH",
+        body: { ids: ["2"], changes: { stage: "Closed Won" } },
+      })
+    );
+
+    const snapshots = await listSnapshots();
+    expect(snapshots.map((snapshot) => snapshot.trigger)).toEqual([
+      "scheduled",
+      "manual",
+    ]);
+  });
+
+  it("labels manual snapshots", async () => {
+    const response = await POST(
+      apiRequest("/snapshots", {
+        method: "POST",
+        body: { label: "Quarter end" },
+      })
+    );
+    expect(response.status).toBe(201);
+    expect((await response.json()).snapshot).toMatchObject({
+      trigger: "manual",
+      label: "Quarter end",
+      totalValue: 415000,
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/views/route";
+import { DELETE, PATCH } from "@/app/api/views/[id]/route";
+import { DEFAULT_FILTERS } from "@/lib/deals-query";
+import type { SavedView, SavedViewInput, SavedViewsList } from "@/lib/views";
+import { apiRequest } from "./helpers";
+
+const VIEW: SavedViewInput = {
+  name: "Big deals",
+  scope: "team",
+  state: {
+    columnConfig: [],
+    filters: DEFAULT_FILTERS,
+    sorts: [{ column: "dealValue", direction: "desc" }],
+    columnWidths: {},
+  },
+};
+
+async function createView(userId: string, input = VIEW): Promise<SavedView> {
+  const response = await POST(
+    apiRequest("/views", { method: "POST", body: input, userId })
+  );
+  expect(response.status).toBe(201);
+  return (await response.json()).view;
+}
+
+async function listViews(userId: string): Promise<SavedViewsList> {
+  return (await GET(apiRequest("/views", { userId }))).json();
+}
+
+function patchView(id: string, body: unknown, userId: string) {
+  return PATCH(apiRequest(`/views/${id}`, { method: "PATCH", body, userId }), {
+    params: { id },
+  });
+}
+
+function deleteView(id: string, userId: string) {
+  return DELETE(apiRequest(`/views/${id}`, { method: "DELETE", userId }), {
+    params: { id },
+  });
+}
+
+describe("/api/views", () => {
+  it("shares team views and keeps personal ones to their owner", async () => {
+    await createView("alex");
+    await createView("alex", { ...VIEW, name: "Mine", scope: "personal" });
+    const names = (list: SavedViewsList) => list.views.map((view) => view.name);
+    expect(names(await listViews("alex")).sort()).toEqual([
+      "Big deals",
+      "Mine",
+    ]);
+    expect(names(await listViews("sam"))).toEqual(["Big deals"]);
+  });
+
+  it("lets the owner change and delete a view", async () => {
+    const view = await createView("alex");
+    const patched = await patchView(view.id, { name: "Largest deals" }, "alex");
+    expect(patched.status).toBe(200);
+    expect((await patched.json()).view.name).toBe("Largest deals");
+
+    expect((await deleteView(view.id, "alex")).status).toBe(200);
+    expect((await listViews("alex")).views).toEqual([]);
+  });
+
+  it("forbids anyone else changing or deleting a team view", async () => {
+    const view = await createView("alex");
+    expect((await patchView(view.id, { name: "Mine now" }, "sam")).status).toBe(
+      403
+    );
+    expect((await deleteView(view.id, "sam")).status).toBe(403);
+
+    const [stored] = (await listViews("alex")).views;
+    expect(stored.name).toBe("Big deals");
+  });
+
+  it("responds 404 for an unknown view and 401 without a user", async () => {
+    expect((await patchView("missing", { name: "x" }, "alex")).status).toBe(
+      404
+    );
+    expect((await deleteView("missing", "alex")).status).toBe(404);
+    const anonymous = await POST(
+      apiRequest("/views", { method: "POST", body: VIEW, userId: null })
+    );
+    expect(anonymous.status).toBe(401);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { GET as GET_DEALS } from "@/app/api/deals/route";
+import { GET as GET_VIEWS, POST as POST_VIEW } from "@/app/api/views/route";
+import { GET, PUT } from "@/app/api/workspace/route";
+import { DEFAULT_FILTERS, type DealsPage } from "@/lib/deals-query";
+import type { SavedView, SavedViewInput } from "@/lib/views";
+import type {
+  RestoreMode,
+  ServerWorkspace,
+  WorkspaceBackup,
+} from "@/lib/workspace-backup";
+import { apiRequest } from "./helpers";
+
+const VIEW: SavedViewInput = {
+  name: "Big deals",
+  scope: "team",
+  state: {
+    columnConfig: [],
+    filters: DEFAULT_FILTERS,
+    sorts: [],
+    columnWidths: {},
+  },
+};
+
+async function createView(userId: string, name: string): Promise<SavedView> {
+  const response = await POST_VIEW(
+    apiRequest("/views", { method: "POST", body: { ...VIEW, name }, userId })
+  );
+  return (await response.json()).view;
+}
+
+async function getWorkspace(userId: string): Promise<ServerWorkspace> {
+  return (await (await GET(apiRequest("/workspace", { userId }))).json())
+    .workspace;
+}
+
+function restore(backup: unknown, mode: RestoreMode, userId: string) {
+  return PUT(
+    apiRequest("/workspace", { method: "PUT", body: { mode, backup }, userId })
+  );
+}
+
+async function listViews(userId: string): Promise<SavedView[]> {
+  return (await (await GET_VIEWS(apiRequest("/views", { userId }))).json())
+    .views;
+}
+
+const backupOf = (workspace: ServerWorkspace): WorkspaceBackup => ({
+  ...workspace,
+  uiState: null,
+});
+
+describe("PUT /api/workspace", () => {
+  it("replaces deals with the backup's", async () => {
+    const workspace = await getWorkspace("alex");
+    const response = await restore(
+      backupOf({ ...workspace, deals: workspace.deals.slice(0, 2) }),
+      "replace",
+      "alex"
+    );
+    expect(response.status).toBe(200);
+    expect((await response.json()).restored).toEqual({ deals: 2, views: 0 });
+    const page: DealsPage = await (
+      await GET_DEALS(apiRequest("/deals"))
+    ).json();
+    expect(page.total).toBe(2);
+  });
+
+  it("never overwrites or removes other users' views", async () => {
+    const theirs = await createView("alex", "Alex's view");
+    const backup = backupOf({
+      ...(await getWorkspace("sam")),
+      views: [{ ...theirs, name: "Taken over" }],
+    });
+    await createView("alex", "Made after the backup");
+
+    for (const mode of ["merge", "replace"] as const) {
+      const response = await restore(backup, mode, "sam");
+      expect((await response.json()).restored.views).toBe(0);
+    }
+    const names = (await listViews("alex")).map((view) => view.name).sort();
+    expect(names).toEqual(["Alex's view", "Made after the backup"]);
+  });
+
+  it("gives the backup's author's views to whoever restores it", async () => {
+    const mine = await createView("alex", "Alex's view");
+    const backup = backupOf(await getWorkspace("alex"));
+    await restore(
+      { ...backup, views: [{ ...mine, id: "from-backup" }] },
+      "merge",
+      "sam"
+    );
+
+    const restored = (await listViews("sam")).find(
+      (view) => view.id === "from-backup"
+    );
+    expect(restored?.ownerId).toBe("sam");
+  });
+
+  it("refuses backups it can't read", async () => {
+    const response = await restore({ version: 99 }, "merge", "alex");
+    expect(response.status).toBe(400);
+  });
+});
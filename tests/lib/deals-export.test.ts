@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvValue } from "@/lib/deals-export";
+import { parseCsv } from "@/lib/deals-import";
+
+describe("escapeCsvValue", () => {
+  it("leaves plain values alone", () => {
+    expect(escapeCsvValue("Cloud Migration Project")).toBe(
+      "Cloud Migration Project"
+    );
+  });
+
+  it("quotes values holding delimiters, quotes or line breaks", () => {
+    expect(escapeCsvValue("TechCorp, Inc.")).toBe('"TechCorp, Inc."');
+    expect(escapeCsvValue('The "big" one')).toBe('"The ""big"" one"');
+    expect(escapeCsvValue("Call\nEmail")).toBe('"Call\nEmail"');
+  });
+
+  it("keeps formula-like values as text", () => {
+    for (const value of ["=1+1", "+44 20", "-5", "@SUM(A1)", "\tx"]) {
+      expect(escapeCsvValue(value)).toBe(`'${value}`);
+    }
+    expect(escapeCsvValue('=HYPERLINK("http://x","a")')).toBe(
+      `"'=HYPERLINK(""http://x"",""a"")"`
+    );
+  });
+
+  it("writes cells that parse back with the guard in front", () => {
+    const cell = escapeCsvValue("=cmd|' /C calc'!A0, x");
+    expect(parseCsv(cell)).toEqual([["'=cmd|' /C calc'!A0, x"]]);
+  });
+});
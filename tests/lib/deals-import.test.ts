@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  autoMapColumns,
+  parseCsv,
+  toImportSheet,
+  validateImportRows,
+  type ImportKey,
+  type ImportMode,
+} from "@/lib/deals-import";
+
+function validate(
+  csv: string,
+  mode: ImportMode = "create",
+  key: ImportKey = "id"
+) {
+  const sheet = toImportSheet(parseCsv(csv));
+  return validateImportRows(sheet, autoMapColumns(sheet.headers), mode, key);
+}
+
+const HEADER = "Deal,Stage,Value,Expected close";
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("a,b\r\nc,d\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("keeps delimiters, quotes and line breaks inside quoted cells", () => {
+    expect(parseCsv('"Smith, Jones","say ""hi""","two\nlines"')).toEqual([
+      ["Smith, Jones", 'say "hi"', "two\nlines"],
+    ]);
+  });
+
+  it("drops a byte order mark and keeps empty cells", () => {
+    expect(parseCsv("\uFEFFa,,c")).toEqual([["a", "", "c"]]);
+  });
+});
+
+describe("validateImportRows", () => {
+  it("parses each mapped column into deal values", () => {
+    const [row] = validate(
+      `${HEADER}\nPortal Rebuild,proposal,"€1,200",Mar 15 2024`
+    );
+    expect(row.errors).toEqual([]);
+    expect(row.line).toBe(2);
+    expect(row.values).toMatchObject({
+      deal: "Portal Rebuild",
+      stage: "Proposal",
+      dealValue: { amount: 1200, currency: "EUR" },
+      expectedClose: "2024-03-15",
+    });
+  });
+
+  it("reads the date forms spreadsheets write and nothing else", () => {
+    const rows = validate(
+      [
+        HEADER,
+        "A,Proposal,100,3/15/2024",
+        "B,Proposal,100,15 March 2024",
+        "C,Proposal,100,45366",
+        "D,Proposal,100,2024",
+        "E,Proposal,100,next friday",
+      ].join("\n")
+    );
+    expect(rows.slice(0, 3).map((row) => row.values.expectedClose)).toEqual([
+      "2024-03-15",
+      "2024-03-15",
+      "2024-03-15",
+    ]);
+    expect(rows[3].errors).toEqual([`Expected Close "2024" isn't a date`]);
+    expect(rows[4].errors).toHaveLength(1);
+  });
+
+  it("rejects negative amounts", () => {
+    const [row] = validate(`${HEADER}\nRefund,Proposal,-5000,2024-03-15`);
+    expect(row.errors).toEqual([
+      `Deal Value "-5000" isn't an amount of 0 or more`,
+    ]);
+  });
+
+  it("requires every field a new deal needs", () => {
+    const [row] = validate("Deal,Stage\nPortal Rebuild,Proposal");
+    expect(row.errors).toEqual([
+      "Deal Value is missing",
+      "Expected Close is missing",
+    ]);
+  });
+
+  it("needs only the key column for an upsert", () => {
+    const [matched, keyless] = validate(
+      "ID,Owner\n1,Sam Wilson\n,Emma Brown",
+      "upsert",
+      "id"
+    );
+    expect(matched.errors).toEqual([]);
+    expect(matched.key).toBe("1");
+    expect(matched.values).toEqual({ owner: "Sam Wilson" });
+    expect(keyless.errors).toEqual(["Deal ID is missing"]);
+  });
+
+  it("undoes the formula guard exports add", () => {
+    const [row] = validate(`${HEADER}\n'=Upsell,Proposal,100,2024-03-15`);
+    expect(row.values.deal).toBe("=Upsell");
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { dealSchema, type Deal } from "@/lib/deals";
+import seedDeals from "@/lib/deals-seed.json";
+import { compareSnapshots, type PipelineSnapshot } from "@/lib/snapshots";
+
+const DEALS = dealSchema.array().parse(seedDeals);
+
+function snapshot(id: string, deals: Deal[]): PipelineSnapshot {
+  return {
+    id,
+    takenAt: "2024-01-01T00:00:00.000Z",
+    trigger: "scheduled",
+    label: "",
+    deals,
+  };
+}
+
+// The seed deals with some of them changed, by id
+function changed(changes: Record<string, Record<string, unknown>>): Deal[] {
+  return DEALS.map((deal) =>
+    dealSchema.parse({ ...deal, ...changes[deal.id] })
+  );
+}
+
+const ids = (deals: Deal[]) => deals.map((deal) => deal.id);
+
+describe("compareSnapshots", () => {
+  it("finds nothing between identical snapshots", () => {
+    const comparison = compareSnapshots(
+      snapshot("a", DEALS),
+      snapshot("b", DEALS)
+    );
+    expect(comparison.added).toEqual([]);
+    expect(comparison.removed).toEqual([]);
+    expect(comparison.won).toEqual([]);
+    expect(comparison.slipped).toEqual([]);
+    expect(comparison.currency).toBe("USD");
+    expect(comparison.stages.every((stage) => stage.change === 0)).toBe(true);
+  });
+
+  it("lists added, removed, won, lost and slipped deals", () => {
+    const later = changed({
+      "2": { stage: "Closed Won" },
+      "3": { stage: "Closed Lost" },
+      "5": { expectedClose: "2024-04-30" },
+    }).filter((deal) => deal.id !== "1");
+    const added = { ...DEALS[0], id: "6", stage: "Closed Won" as const };
+
+    const comparison = compareSnapshots(
+      snapshot("a", DEALS),
+      snapshot("b", [...later, added])
+    );
+    expect(ids(comparison.added)).toEqual(["6"]);
+    expect(ids(comparison.removed)).toEqual(["1"]);
+    // Already won before, so deal 4 isn't counted again
+    expect(ids(comparison.won)).toEqual(["2", "6"]);
+    expect(ids(comparison.lost)).toEqual(["3"]);
+    expect(comparison.slipped).toEqual([
+      {
+        deal: later.find((deal) => deal.id === "5"),
+        previousClose: "2024-03-30",
+      },
+    ]);
+  });
+
+  it("totals each stage's change in value", () => {
+    const comparison = compareSnapshots(
+      snapshot("a", DEALS),
+      snapshot("b", changed({ "2": { stage: "Closed Won" } }))
+    );
+    const byStage = Object.fromEntries(
+      comparison.stages.map((stage) => [stage.stage, stage.change])
+    );
+    expect(byStage).toMatchObject({
+      Negotiation: -85000,
+      "Closed Won": 85000,
+      Proposal: 0,
+    });
+  });
+
+  it("leaves archived deals out", () => {
+    const comparison = compareSnapshots(
+      snapshot("a", DEALS),
+      snapshot("b", changed({ "1": { archived: true } }))
+    );
+    expect(ids(comparison.removed)).toEqual(["1"]);
+    expect(comparison.to.dealCount).toBe(4);
+    expect(comparison.to.totalValue).toBe(290000);
+  });
+
+  it("has no currency when the deals mix them", () => {
+    const comparison = compareSnapshots(
+      snapshot("a", DEALS),
+      snapshot(
+        "b",
+        changed({ "1": { dealValue: { amount: 125000, currency: "EUR" } } })
+      )
+    );
+    expect(comparison.currency).toBeNull();
+  });
+});
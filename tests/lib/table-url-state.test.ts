@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  createFilterCondition,
+  createFilterGroup,
+  type FilterNode,
+} from "@/lib/deal-filters";
+import {
+  decodeTableState,
+  DEFAULT_TABLE_URL_STATE,
+  encodeTableState,
+  TABLE_STATE_VERSION,
+  type TableUrlState,
+} from "@/lib/table-url-state";
+
+// Filter ids are minted afresh when a link is read, so compare without them
+function withoutIds(node: FilterNode): unknown {
+  return node.type === "group"
+    ? { combinator: node.combinator, children: node.children.map(withoutIds) }
+    : { field: node.field, operator: node.operator, value: node.value };
+}
+
+describe("encodeTableState", () => {
+  it("leaves the default state out of the URL", () => {
+    expect(encodeTableState(DEFAULT_TABLE_URL_STATE).toString()).toBe("");
+  });
+
+  it("puts the version first", () => {
+    const params = encodeTableState({
+      ...DEFAULT_TABLE_URL_STATE,
+      page: 2,
+    });
+    expect(Array.from(params.keys())[0]).toBe("v");
+    expect(params.get("v")).toBe(String(TABLE_STATE_VERSION));
+  });
+});
+
+describe("decodeTableState", () => {
+  it("reads back what was encoded", () => {
+    const state: TableUrlState = {
+      filters: {
+        search: "cloud",
+        where: createFilterGroup("and", [
+          createFilterCondition("stage", "is", "Negotiation"),
+          createFilterGroup("or", [
+            createFilterCondition("dealValue", "gte", 50000),
+            createFilterCondition("owner", "is", "Sam Wilson"),
+          ]),
+        ]),
+      },
+      sorts: [{ column: "dealValue", direction: "desc" }],
+      page: 3,
+      pageSize: 25,
+      expandedRows: ["1", "4"],
+      focusedCell: { row: 2, col: 5 },
+    };
+    const decoded = decodeTableState(encodeTableState(state));
+    expect(decoded).not.toBeNull();
+    const { filters, ...rest } = decoded as TableUrlState;
+    expect(rest).toEqual({
+      sorts: state.sorts,
+      page: 3,
+      pageSize: 25,
+      expandedRows: ["1", "4"],
+      focusedCell: { row: 2, col: 5 },
+    });
+    expect(filters.search).toBe("cloud");
+    expect(withoutIds(filters.where)).toEqual(withoutIds(state.filters.where));
+  });
+
+  it("upgrades version 1 links to filter conditions", () => {
+    const decoded = decodeTableState(
+      new URLSearchParams(
+        "v=1&stage=Proposal&stage=Negotiation&owner=Alex%20Chen&value=10000-90000"
+      )
+    );
+    expect(withoutIds(decoded!.filters.where)).toEqual({
+      combinator: "and",
+      children: [
+        {
+          field: "stage",
+          operator: "isAnyOf",
+          value: ["Proposal", "Negotiation"],
+        },
+        { field: "owner", operator: "isAnyOf", value: ["Alex Chen"] },
+        { field: "dealValue", operator: "between", value: [10000, 90000] },
+      ],
+    });
+  });
+
+  it("ignores URLs without table state or from a newer version", () => {
+    expect(decodeTableState(new URLSearchParams("view=abc"))).toBeNull();
+    expect(
+      decodeTableState(new URLSearchParams(`v=${TABLE_STATE_VERSION + 1}`))
+    ).toBeNull();
+  });
+
+  it("drops a malformed focused cell", () => {
+    const decoded = decodeTableState(new URLSearchParams("v=2&cell=x.-1"));
+    expect(decoded?.focusedCell).toBeNull();
+  });
+});
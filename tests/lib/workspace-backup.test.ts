@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import seedDeals from "@/lib/deals-seed.json";
+import { DEFAULT_STAGE_PROBABILITIES } from "@/lib/forecast";
+import {
+  BACKUP_VERSION,
+  migrateBackup,
+  type WorkspaceBackup,
+} from "@/lib/workspace-backup";
+
+const BACKUP: WorkspaceBackup = {
+  version: BACKUP_VERSION,
+  exportedAt: "2024-03-01T12:00:00.000Z",
+  userId: "alex",
+  deals: [],
+  stageProbabilities: DEFAULT_STAGE_PROBABILITIES,
+  views: [],
+  defaultViewId: null,
+  uiState: { columnWidths: { deal: 240 } },
+};
+
+describe("migrateBackup", () => {
+  it("accepts a current backup as it is", () => {
+    expect(migrateBackup(BACKUP)).toEqual({ backup: BACKUP });
+  });
+
+  it("upgrades a database file from before versioned backups", () => {
+    const result = migrateBackup({
+      deals: seedDeals,
+      views: [
+        {
+          id: "v1",
+          name: "Big deals",
+          scope: "team",
+          ownerId: "alex",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          updatedAt: "2024-01-01T00:00:00.000Z",
+          state: {
+            columnConfig: [],
+            filters: { search: "", stage: ["Proposal"], owner: [] },
+            sorts: [],
+            columnWidths: {},
+          },
+        },
+      ],
+    });
+    if (!("backup" in result)) throw new Error(result.error);
+    const { backup } = result;
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.deals).toHaveLength(5);
+    expect(backup.deals[0].forecastOverride).toBe(false);
+    expect(backup.stageProbabilities).toEqual(DEFAULT_STAGE_PROBABILITIES);
+    const [condition] = backup.views[0].state.filters.where.children;
+    expect(condition).toMatchObject({
+      field: "stage",
+      operator: "isAnyOf",
+      value: ["Proposal"],
+    });
+  });
+
+  it("upgrades a bare list of deals", () => {
+    const result = migrateBackup(seedDeals);
+    expect("backup" in result && result.backup.deals).toHaveLength(5);
+  });
+
+  it("refuses backups from a newer version", () => {
+    const result = migrateBackup({ ...BACKUP, version: BACKUP_VERSION + 1 });
+    expect(result).toEqual({
+      error: expect.stringContaining("newer version of the app"),
+    });
+  });
+
+  it("refuses files that aren't backups", () => {
+    expect("error" in migrateBackup("deals")).toBe(true);
+    expect("error" in migrateBackup({ ...BACKUP, deals: [{ id: "1" }] })).toBe(
+      true
+    );
+  });
+});
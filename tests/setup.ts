@@ -0,0 +1,20 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeEach } from "vitest";
+
+// Each test file gets a database of its own in a scratch directory, seeded
+// from deals-seed.json. Set before anything imports lib/server/db, which
+// reads DEALS_DB_FILE once.
+const dir = mkdtempSync(path.join(tmpdir(), "deals-test-"));
+process.env.DEALS_DB_FILE = path.join(dir, "db.json");
+
+// Removing the file makes the next request reseed it, so every test starts
+// from the seed deals
+beforeEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});